@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { dataService } from '../services/dataService';
+import { useToast } from '../contexts/ToastContext';
+import { getUploadFileName, isImageUpload, isPdfUpload } from '../src/utils/uploads';
+
+interface AnswerFileProps {
+    resultId?: string;
+    questionIndex: number;
+    // The stored answer: the file's path in the private upload bucket.
+    path: string;
+}
+
+// A file uploaded as an answer. Files are private, so each "Open" fetches a signed URL
+// that expires after an hour; images and PDFs are previewed inline as well.
+export const AnswerFile: React.FC<AnswerFileProps> = ({ resultId, questionIndex, path }) => {
+    const { addToast } = useToast();
+    const [url, setUrl] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const fileName = getUploadFileName(path);
+
+    if (!path) return <p className="text-gray-400 italic">No file uploaded</p>;
+
+    const handleOpen = async () => {
+        if (!resultId) return;
+        setIsLoading(true);
+        try {
+            const { url: signedUrl } = await dataService.getAnswerFileUrl(resultId, questionIndex);
+            setUrl(signedUrl);
+            if (!isImageUpload(path) && !isPdfUpload(path)) window.open(signedUrl, '_blank', 'noopener');
+        } catch (error: any) {
+            addToast(`Could not open the file: ${error.message}`, 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-gray-800 break-all dark:text-slate-200">📎 {fileName}</p>
+                {url ? (
+                    <a href={url} target="_blank" rel="noopener noreferrer" className="text-sm text-indigo-600 hover:underline whitespace-nowrap dark:text-indigo-400">Download</a>
+                ) : (
+                    <button type="button" onClick={handleOpen} disabled={isLoading || !resultId} className="text-sm text-indigo-600 hover:underline whitespace-nowrap disabled:opacity-50 dark:text-indigo-400">
+                        {isLoading ? 'Opening…' : 'Open'}
+                    </button>
+                )}
+            </div>
+            {url && isImageUpload(path) && <img src={url} alt={fileName} className="max-w-full h-auto rounded-md border dark:border-slate-600" />}
+            {url && isPdfUpload(path) && <iframe src={url} title={fileName} className="w-full h-96 rounded-md border dark:border-slate-600" />}
+        </div>
+    );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { isInsideMath } from '../src/utils/math';
+
+// `{}` marks where the cursor lands, or where selected text goes.
+const EQUATION_SNIPPETS: { label: string; title: string; tex: string }[] = [
+    { label: 'a⁄b', title: 'Fraction', tex: '\\frac{}{}' },
+    { label: '√', title: 'Square root', tex: '\\sqrt{}' },
+    { label: 'xⁿ', title: 'Power', tex: '^{}' },
+    { label: 'xₙ', title: 'Subscript', tex: '_{}' },
+    { label: '×', title: 'Times', tex: '\\times ' },
+    { label: '÷', title: 'Divide', tex: '\\div ' },
+    { label: '±', title: 'Plus or minus', tex: '\\pm ' },
+    { label: '≤', title: 'Less than or equal to', tex: '\\leq ' },
+    { label: '≥', title: 'Greater than or equal to', tex: '\\geq ' },
+    { label: '≠', title: 'Not equal to', tex: '\\neq ' },
+    { label: '≈', title: 'Approximately', tex: '\\approx ' },
+    { label: '°', title: 'Degrees', tex: '^\\circ ' },
+    { label: 'π', title: 'Pi', tex: '\\pi ' },
+    { label: 'θ', title: 'Theta', tex: '\\theta ' },
+    { label: 'Δ', title: 'Delta', tex: '\\Delta ' },
+    { label: '∞', title: 'Infinity', tex: '\\infty ' },
+    { label: '∑', title: 'Sum', tex: '\\sum_{}^{}' },
+    { label: '∫', title: 'Integral', tex: '\\int_{}^{}' },
+];
+
+interface EquationAidProps {
+    textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+    value: string;
+    onChange: (newValue: string) => void;
+}
+
+// Symbol buttons that insert LaTeX at the cursor, wrapped in `$...$` unless the cursor is
+// already inside math. `RichTextPreview` shows how the result renders.
+export const EquationAid: React.FC<EquationAidProps> = ({ textareaRef, value, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const insert = (tex: string) => {
+        const textarea = textareaRef.current;
+        const start = textarea?.selectionStart ?? value.length;
+        const end = textarea?.selectionEnd ?? value.length;
+        const selected = value.substring(start, end);
+        const filled = selected && tex.includes('{}') ? tex.replace('{}', `{${selected}}`) : tex;
+        const wrapped = isInsideMath(value, start) ? filled : `$${filled.trim()}$`;
+        onChange(`${value.substring(0, start)}${wrapped}${value.substring(end)}`);
+
+        const emptySlot = wrapped.indexOf('{}');
+        const cursor = start + (emptySlot !== -1 ? emptySlot + 1 : wrapped.length);
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(cursor, cursor);
+        });
+    };
+
+    return (
+        <div className="mt-1">
+            <button type="button" onClick={() => setIsOpen(open => !open)} className="text-xs text-indigo-600 hover:underline dark:text-indigo-400" aria-expanded={isOpen}>
+                {isOpen ? 'Hide equation tools' : '∑ Insert equation'}
+            </button>
+            {isOpen && (
+                <div className="mt-1 p-2 border rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600">
+                    <div className="flex flex-wrap gap-1">
+                        {EQUATION_SNIPPETS.map(snippet => (
+                            <button key={snippet.title} type="button" onClick={() => insert(snippet.tex)} title={snippet.title} aria-label={snippet.title} className="min-w-[2rem] px-2 py-0.5 text-sm bg-gray-200 rounded hover:bg-gray-300 dark:bg-slate-600 dark:text-white dark:hover:bg-slate-500">
+                                {snippet.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Math goes between dollar signs, e.g. <code>$x^2 + 1$</code>. Type <code>\$</code> for a dollar sign.</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { splitMathText } from '../src/utils/math';
+import { decodeEntities, sanitizeRichText } from '../src/utils/richText';
+
+// KaTeX is loaded from a CDN script in index.html, like Tailwind.
+declare global {
+    interface Window {
+        katex?: { renderToString: (tex: string, options?: { displayMode?: boolean; throwOnError?: boolean }) => string };
+    }
+}
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+
+/**
+ * Turns `$...$` math into KaTeX markup. With `html` the text around it is rich text
+ * (question text, passages and written answers) and is sanitized; otherwise it is escaped.
+ * Without KaTeX, or when a formula does not parse, the LaTeX source is shown as written.
+ */
+export function renderMathHtml(text: string, html = false): string {
+    return splitMathText(text || '').map(segment => {
+        if ('text' in segment) return html ? sanitizeRichText(segment.text) : escapeHtml(segment.text);
+        // Sanitized rich text stores `<` in formulas as `&lt;`.
+        const tex = html ? decodeEntities(segment.tex) : segment.tex;
+        const source = segment.display ? `$$${tex}$$` : `$${tex}$`;
+        if (!window.katex) return escapeHtml(source);
+        try {
+            return window.katex.renderToString(tex, { displayMode: segment.display, throwOnError: false });
+        } catch {
+            return escapeHtml(source);
+        }
+    }).join('');
+}
+
+interface MathTextProps {
+    text: string | null | undefined;
+    /** Treat the text around the math as rich text rather than plain text. */
+    html?: boolean;
+    as?: 'span' | 'div' | 'p' | 'label' | 'li';
+    className?: string;
+}
+
+export const MathText: React.FC<MathTextProps> = ({ text, html = false, as: Tag = 'span', className }) => (
+    <Tag className={html ? `rich-text ${className || ''}` : className} dangerouslySetInnerHTML={{ __html: renderMathHtml(text || '', html) }} />
+);
@@ -0,0 +1,57 @@
+import React from 'react';
+import { applyRichTextFormat, hasRichText, type RichTextFormat } from '../src/utils/richText';
+import { hasMath } from '../src/utils/math';
+import { MathText } from './MathText';
+
+const FORMAT_BUTTONS: { format: RichTextFormat; label: string; title: string; className?: string }[] = [
+    { format: 'bold', label: 'B', title: 'Bold', className: 'font-bold' },
+    { format: 'italic', label: 'I', title: 'Italic', className: 'italic' },
+    { format: 'underline', label: 'U', title: 'Underline', className: 'underline' },
+    { format: 'bullet-list', label: '• List', title: 'Bulleted list' },
+    { format: 'numbered-list', label: '1. List', title: 'Numbered list' },
+    { format: 'code', label: '</>', title: 'Code block', className: 'font-mono' },
+    { format: 'table', label: '▦ Table', title: 'Table' },
+];
+
+interface RichTextToolbarProps {
+    textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+    value: string;
+    onChange: (newValue: string) => void;
+}
+
+// Formatting buttons for a plain textarea: each one writes the matching tags around the
+// selection (see `applyRichTextFormat`), and `RichTextPreview` shows the result.
+export const RichTextToolbar: React.FC<RichTextToolbarProps> = ({ textareaRef, value, onChange }) => {
+    const handleFormat = (format: RichTextFormat) => {
+        const textarea = textareaRef.current;
+        const start = textarea?.selectionStart ?? value.length;
+        const end = textarea?.selectionEnd ?? value.length;
+        const result = applyRichTextFormat(value, start, end, format);
+        onChange(result.value);
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(result.selectionStart, result.selectionEnd);
+        });
+    };
+
+    return (
+        <div className="flex flex-wrap gap-1 mb-1" role="toolbar" aria-label="Formatting">
+            {FORMAT_BUTTONS.map(button => (
+                <button key={button.format} type="button" onClick={() => handleFormat(button.format)} title={button.title} aria-label={button.title} className={`px-2 py-0.5 text-sm bg-gray-200 dark:bg-slate-600 dark:text-white rounded ${button.className || ''}`}>
+                    {button.label}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+/** How formatted text or math will look; renders nothing for plain text. */
+export const RichTextPreview: React.FC<{ value: string }> = ({ value }) => {
+    if (!hasRichText(value) && !hasMath(value)) return null;
+    return (
+        <div className="mt-2 p-2 border border-dashed rounded-lg text-gray-800 dark:text-slate-200 dark:border-slate-600">
+            <p className="text-xs text-gray-500 mb-1 dark:text-gray-400">Preview</p>
+            <MathText text={value} html as="div" className="whitespace-pre-wrap" />
+        </div>
+    );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { RubricCriterion, RubricLevel } from '../types';
+import { createDefaultRubric, createRubricCriterion, getRubricMaxPoints, MAX_RUBRIC_CRITERIA, MAX_RUBRIC_LEVELS } from '../src/utils/rubrics';
+
+interface RubricBuilderProps {
+    rubric?: RubricCriterion[] | null;
+    // The question's marks; rubric points are scaled to them.
+    marks: number;
+    onChange: (rubric: RubricCriterion[] | null) => void;
+}
+
+const inputClasses = "p-1.5 border rounded-md text-sm dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+
+// Edits a rubric as criteria, each with its performance levels (label, points and a
+// descriptor of the work that earns them). Starts from a two-criterion template.
+export const RubricBuilder: React.FC<RubricBuilderProps> = ({ rubric, marks, onChange }) => {
+    if (!rubric || rubric.length === 0) {
+        return (
+            <button type="button" onClick={() => onChange(createDefaultRubric())} className="text-sm text-indigo-600 hover:underline dark:text-indigo-400">
+                + Add a rubric
+            </button>
+        );
+    }
+
+    const updateCriterion = (criterionIndex: number, updates: Partial<RubricCriterion>) =>
+        onChange(rubric.map((criterion, i) => (i === criterionIndex ? { ...criterion, ...updates } : criterion)));
+    const updateLevel = (criterionIndex: number, levelIndex: number, updates: Partial<RubricLevel>) =>
+        updateCriterion(criterionIndex, { levels: rubric[criterionIndex].levels.map((level, i) => (i === levelIndex ? { ...level, ...updates } : level)) });
+    const removeCriterion = (criterionIndex: number) => {
+        const remaining = rubric.filter((_, i) => i !== criterionIndex);
+        onChange(remaining.length > 0 ? remaining : null);
+    };
+
+    const maxPoints = getRubricMaxPoints(rubric);
+
+    return (
+        <div className="space-y-3">
+            {rubric.map((criterion, criterionIndex) => (
+                <div key={criterionIndex} className="p-3 border rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600">
+                    <div className="flex items-center gap-2 mb-2">
+                        <input type="text" value={criterion.name} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateCriterion(criterionIndex, { name: e.target.value })} className={`${inputClasses} flex-1 font-medium`} placeholder={`Criterion ${criterionIndex + 1}, e.g. Use of evidence`} aria-label={`Criterion ${criterionIndex + 1} name`} />
+                        <button type="button" onClick={() => removeCriterion(criterionIndex)} className="text-sm text-red-600 hover:underline dark:text-red-400">Remove</button>
+                    </div>
+                    <div className="space-y-1">
+                        {criterion.levels.map((level, levelIndex) => (
+                            <div key={levelIndex} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+                                <input type="text" value={level.label} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLevel(criterionIndex, levelIndex, { label: e.target.value })} className={`${inputClasses} w-32`} placeholder="Level" aria-label={`Level ${levelIndex + 1} label`} />
+                                <input type="number" min={0} step={0.5} value={Number.isFinite(level.points) ? level.points : ''} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLevel(criterionIndex, levelIndex, { points: parseFloat(e.target.value) })} className={`${inputClasses} w-20`} aria-label={`Level ${levelIndex + 1} points`} />
+                                <input type="text" value={level.descriptor} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLevel(criterionIndex, levelIndex, { descriptor: e.target.value })} className={`${inputClasses} flex-1`} placeholder="What work at this level looks like" aria-label={`Level ${levelIndex + 1} descriptor`} />
+                                <button type="button" onClick={() => updateCriterion(criterionIndex, { levels: criterion.levels.filter((_, i) => i !== levelIndex) })} disabled={criterion.levels.length <= 2} className="text-gray-400 hover:text-red-600 disabled:opacity-30" aria-label={`Remove level ${levelIndex + 1}`}>✕</button>
+                            </div>
+                        ))}
+                    </div>
+                    {criterion.levels.length < MAX_RUBRIC_LEVELS && (
+                        <button type="button" onClick={() => updateCriterion(criterionIndex, { levels: [...criterion.levels, { label: '', points: 0, descriptor: '' }] })} className="mt-1 text-xs text-indigo-600 hover:underline dark:text-indigo-400">+ Level</button>
+                    )}
+                </div>
+            ))}
+            <div className="flex items-center justify-between text-sm">
+                {rubric.length < MAX_RUBRIC_CRITERIA ? (
+                    <button type="button" onClick={() => onChange([...rubric, createRubricCriterion()])} className="text-indigo-600 hover:underline dark:text-indigo-400">+ Criterion</button>
+                ) : <span />}
+                <span className="text-gray-500 dark:text-gray-400">
+                    Rubric total: {maxPoints} points{maxPoints !== marks ? `, scaled to ${marks} marks` : ''}
+                </span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { CriterionScore, RubricCriterion } from '../types';
+import { getCriterionMaxPoints } from '../src/utils/rubrics';
+
+interface RubricGridProps {
+    rubric: RubricCriterion[];
+    criterionScores?: CriterionScore[];
+    // Makes every level clickable, for teachers grading against the rubric.
+    onSelect?: (criterion: number, level: number) => void;
+}
+
+// Criteria as rows and performance levels as cells, with the chosen level of each
+// criterion highlighted and the reason for it underneath.
+export const RubricGrid: React.FC<RubricGridProps> = ({ rubric, criterionScores = [], onSelect }) => {
+    const columnCount = Math.max(...rubric.map(criterion => criterion.levels.length));
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-xs border-collapse">
+                <tbody>
+                    {rubric.map((criterion, criterionIndex) => {
+                        const chosen = criterionScores.find(s => s.criterion === criterionIndex);
+                        return (
+                            <React.Fragment key={criterionIndex}>
+                                <tr>
+                                    <th scope="row" className="p-2 text-left align-top font-semibold text-gray-700 border dark:text-slate-300 dark:border-slate-600">
+                                        {criterion.name}
+                                        <span className="block font-normal text-gray-500 dark:text-gray-400">
+                                            {chosen ? `${chosen.points} / ${getCriterionMaxPoints(criterion)}` : `${getCriterionMaxPoints(criterion)} pts`}
+                                        </span>
+                                    </th>
+                                    {Array.from({ length: columnCount }, (_, levelIndex) => {
+                                        const level = criterion.levels[levelIndex];
+                                        if (!level) return <td key={levelIndex} className="border dark:border-slate-600" />;
+                                        const isChosen = chosen?.level === levelIndex;
+                                        const content = (
+                                            <>
+                                                <span className="font-medium">{level.label} · {level.points}</span>
+                                                {level.descriptor && <span className="block mt-0.5 text-gray-600 dark:text-gray-400">{level.descriptor}</span>}
+                                            </>
+                                        );
+                                        return (
+                                            <td key={levelIndex} className={`p-2 align-top border dark:border-slate-600 ${isChosen ? 'bg-indigo-100 ring-2 ring-inset ring-indigo-500 dark:bg-indigo-900/50' : ''}`}>
+                                                {onSelect ? (
+                                                    <button type="button" onClick={() => onSelect(criterionIndex, levelIndex)} aria-pressed={isChosen} className="w-full text-left dark:text-slate-200">{content}</button>
+                                                ) : (
+                                                    <span className="dark:text-slate-200">{content}</span>
+                                                )}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                                {chosen?.feedback && (
+                                    <tr>
+                                        <td colSpan={columnCount + 1} className="px-2 py-1 italic text-gray-600 border dark:text-gray-400 dark:border-slate-600">{chosen.feedback}</td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
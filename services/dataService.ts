@@ -1,8 +1,9 @@
 
 import { supabase } from './supabase';
 import { functionService } from './functionService';
-import type { Test, TestResult, EvaluationResult, AnalyticsData } from '../types';
+import type { Test, TestResult, GradeOverrideInput, AnalyticsData, ClassGroup, StartedAttempt, IntegrityEvent, BankQuestion, BankQuestionInput, UnsubmittedAttempt } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { ANSWER_UPLOAD_BUCKET, getUploadFolder } from '../src/utils/uploads';
 
 export const dataService = {
   async createTest(test: Test) {
@@ -26,25 +27,20 @@ export const dataService = {
     return data;
   },
   
-  async saveTestResult(result: TestResult) {
-    const { data, error } = await supabase
-        .from('test_results')
-        .insert([result])
-        .select()
-        .single();
-    if(error) throw error;
-    return data;
+  async startAttempt(testId: string) {
+    // The server records the start time and deadline; an unfinished attempt is resumed.
+    return await functionService.invoke<StartedAttempt>('start-attempt', { testId });
+  },
+
+  async submitTest(testId: string, attemptId: string, answers: (string | Record<number, string>)[], integrityEvents: IntegrityEvent[] = []) {
+    // Grading and the insert into `test_results` both happen server-side.
+    return await functionService.invoke<TestResult>('submit-test', { testId, attemptId, answers, integrityEvents });
   },
   
-  async updateTestResult(resultId: string, newEvaluation: EvaluationResult) {
-    const { data, error } = await supabase
-        .from('test_results')
-        .update({ evaluation: newEvaluation })
-        .eq('id', resultId)
-        .select()
-        .single();
-    if(error) throw error;
-    return data;
+  async overrideGrades(resultId: string, gradeVersion: number, overrides: GradeOverrideInput[]) {
+    // Totals are recomputed and the change is logged to `grade_history` server-side. A
+    // `gradeVersion` other than the stored one means the submission changed since it was loaded.
+    return await functionService.invoke<TestResult>('override-grade', { resultId, gradeVersion, overrides });
   },
 
   async getTestResults(testId: string) {
@@ -57,6 +53,11 @@ export const dataService = {
     return data;
   },
 
+  async getMyUnsubmittedAttempts() {
+    // Abandoned attempts count towards attempt limits, so attempt status needs them too.
+    return await functionService.invoke<UnsubmittedAttempt[]>('get-my-attempts');
+  },
+
   async getAnalyticsData(): Promise<AnalyticsData> {
     return await functionService.invoke<AnalyticsData>('get-analytics-data');
   },
@@ -70,6 +71,42 @@ export const dataService = {
     return true;
   },
 
+  async getClasses() {
+    return await functionService.invoke<ClassGroup[]>('get-classes');
+  },
+
+  async saveClass(name: string, classId?: string) {
+    // Creates the class (with a generated join code) when no ID is given, otherwise renames it.
+    return await functionService.invoke<ClassGroup>('save-class', { id: classId, name });
+  },
+
+  async deleteClass(classId: string) {
+    await functionService.invoke('delete-class', { classId });
+    return true;
+  },
+
+  async updateEnrolments(classId: string, addStudentIds: string[], removeStudentIds: string[] = []) {
+    return await functionService.invoke<ClassGroup>('update-enrolments', { classId, addStudentIds, removeStudentIds });
+  },
+
+  async joinClass(joinCode: string) {
+    return await functionService.invoke<ClassGroup>('join-class', { joinCode });
+  },
+
+  async getQuestionBank() {
+    return await functionService.invoke<BankQuestion[]>('get-question-bank');
+  },
+
+  async saveBankQuestion(input: BankQuestionInput) {
+    // Creates a bank entry when no ID is given, otherwise updates the caller's own entry.
+    return await functionService.invoke<BankQuestion>('save-bank-question', input);
+  },
+
+  async deleteBankQuestion(questionId: string) {
+    await functionService.invoke('delete-bank-question', { questionId });
+    return true;
+  },
+
   async uploadMediaFile(userId: string, file: File): Promise<string> {
     const filePath = `${userId}/${uuidv4()}-${file.name}`;
     const { error: uploadError } = await supabase.storage
@@ -88,6 +125,26 @@ export const dataService = {
     return data.publicUrl;
   },
 
+  async uploadAnswerFile(userId: string, testId: string, file: File): Promise<string> {
+    // The bucket is private; the stored path is the answer, and reads go through `getAnswerFileUrl`.
+    const filePath = `${getUploadFolder(userId, testId)}/${uuidv4()}-${file.name.replace(/[\\/]/g, '_')}`;
+    const { error: uploadError } = await supabase.storage
+        .from(ANSWER_UPLOAD_BUCKET)
+        .upload(filePath, file, { contentType: file.type });
+
+    if (uploadError) {
+        if (uploadError.message.includes('Bucket not found')) {
+            throw new Error(`Storage setup needed: the private '${ANSWER_UPLOAD_BUCKET}' bucket is missing. Run the database migrations to create it.`);
+        }
+        throw new Error(`Storage error: ${uploadError.message}`);
+    }
+    return filePath;
+  },
+
+  async getAnswerFileUrl(resultId: string, questionIndex: number) {
+    return await functionService.invoke<{ url: string; fileName: string }>('get-answer-file', { resultId, questionIndex });
+  },
+
   async getUsers() {
     const { data: { session }, error: sessionError } = await supabase.auth.getSession();
     if (sessionError || !session) {
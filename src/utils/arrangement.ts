@@ -0,0 +1,145 @@
+// src/utils/arrangement.ts
+// Matching and ordering questions. Both keep their items in `options` and their key in
+// `correct_answer` as a comma-separated letter sequence:
+// - ordering: the option letters in the correct order ("C,A,D,B");
+// - matching: for each prompt in `match_prompts`, the letter of its partner ("B,A,C").
+// The editor keeps options in the order the teacher wrote them; `scrambleArrangement`
+// shuffles them on save so the order students receive reveals nothing. The shuffle is
+// seeded from the question's content, so re-saving an unedited question keeps its letters.
+// Shared with edge functions; keep the `.ts` extension below.
+import type { ArrangementScoring, Question } from '../../types.ts';
+import { createSeededRandom, optionLetter } from './shuffle.ts';
+
+export const ARRANGEMENT_SCORING_LABELS: Record<ArrangementScoring, string> = {
+  'all-or-nothing': 'All or nothing',
+  'per-item': 'Partial credit per correct item',
+  'adjacent-pairs': 'Partial credit per correct neighbouring pair',
+};
+
+type ArrangementFields = Pick<Question, 'options' | 'correct_answer' | 'match_prompts'>;
+
+const letterIndex = (letter: string) => letter.charCodeAt(0) - 65;
+
+/** Reads "c, A ,B" into ["C", "A", "B"], keeping order and blank positions. */
+export function parseLetterSequence(value: unknown): string[] {
+  if (typeof value !== 'string' || value.trim() === '') return [];
+  return value.split(',').map(part => {
+    const letter = part.trim().toUpperCase();
+    return /^[A-Z]$/.test(letter) ? letter : '';
+  });
+}
+
+export const formatLetterSequence = (letters: string[]) => letters.join(',');
+
+// A null `random` keeps the order, so editor inputs stay put while the teacher types.
+function shuffled<T>(items: T[], random: (() => number) | null): T[] {
+  const result = [...items];
+  if (!random) return result;
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** The ordering items in their correct sequence. */
+export function getOrderingItems(fields: ArrangementFields): string[] {
+  const options = fields.options || [];
+  const key = parseLetterSequence(fields.correct_answer);
+  if (key.length !== options.length || key.some(letter => !letter)) return options;
+  return key.map(letter => options[letterIndex(letter)] ?? '');
+}
+
+/**
+ * Stores ordering items (given in their correct sequence), with the sequence as the key.
+ * A shuffle never leaves them in that sequence, or the untouched items would score full marks.
+ */
+export function toOrderingFields(items: string[], random: (() => number) | null = null): Pick<Question, 'options' | 'correct_answer'> {
+  const positions = shuffled(items.map((_, i) => i), random);
+  if (random && positions.length > 1 && positions.every((position, i) => position === i)) positions.push(positions.shift()!);
+  return {
+    options: positions.map(i => items[i]),
+    correct_answer: formatLetterSequence(items.map((_, i) => optionLetter(positions.indexOf(i)))),
+  };
+}
+
+export interface MatchingPair {
+  prompt: string;
+  answer: string;
+}
+
+/** The matching pairs as the teacher wrote them, plus any unused right-hand items (distractors). */
+export function getMatchingPairs(fields: ArrangementFields): { pairs: MatchingPair[]; distractors: string[] } {
+  const options = fields.options || [];
+  const key = parseLetterSequence(fields.correct_answer);
+  const pairs = (fields.match_prompts || []).map((prompt, i) => ({ prompt, answer: key[i] ? options[letterIndex(key[i])] ?? '' : '' }));
+  const distractors = options.filter((_, i) => !key.includes(optionLetter(i)));
+  return { pairs, distractors };
+}
+
+/**
+ * Stores matching pairs. Identical right-hand items become one option, so two prompts
+ * can share a partner; distractors are extra options that match nothing. Blank items
+ * are never merged, so half-written pairs keep their own row in the editor.
+ */
+export function toMatchingFields(pairs: MatchingPair[], distractors: string[], random: (() => number) | null = null): Pick<Question, 'options' | 'correct_answer' | 'match_prompts'> {
+  const items: string[] = [];
+  const addItem = (text: string) => {
+    const existing = text.trim() ? items.indexOf(text) : -1;
+    if (existing !== -1) return existing;
+    items.push(text);
+    return items.length - 1;
+  };
+  const partners = pairs.map(pair => addItem(pair.answer));
+  distractors.forEach(addItem);
+
+  const positions = shuffled(items.map((_, i) => i), random);
+  return {
+    match_prompts: pairs.map(pair => pair.prompt),
+    options: positions.map(i => items[i]),
+    correct_answer: formatLetterSequence(partners.map(i => optionLetter(positions.indexOf(i)))),
+  };
+}
+
+// FNV-1a over the question's items, so the same content always draws the same shuffle.
+function contentSeed(parts: string[]): number {
+  let hash = 0x811C9DC5;
+  for (const char of JSON.stringify(parts)) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Re-stores a matching or ordering question with its options shuffled; other questions pass through. */
+export function scrambleArrangement<T extends Question>(question: T): T {
+  if (question.type === 'ordering') {
+    const items = getOrderingItems(question);
+    return { ...question, ...toOrderingFields(items, createSeededRandom(contentSeed(items))) };
+  }
+  if (question.type === 'matching') {
+    const { pairs, distractors } = getMatchingPairs(question);
+    const seed = contentSeed([...pairs.flatMap(pair => [pair.prompt, pair.answer]), ...distractors]);
+    return { ...question, ...toMatchingFields(pairs, distractors, createSeededRandom(seed)) };
+  }
+  return question;
+}
+
+/**
+ * Share of the marks an arrangement earns. `per-item` counts prompts matched (or items
+ * placed) correctly; `adjacent-pairs` counts neighbouring items kept in the right order,
+ * which does not punish one misplaced step twice. Matching treats it as `per-item`.
+ */
+export function scoreArrangement(expected: string[], given: string[], scoring: ArrangementScoring, isOrdering: boolean): { fraction: number; correctItems: number } {
+  const correctItems = expected.filter((letter, i) => given[i] === letter).length;
+  if (expected.length === 0) return { fraction: 0, correctItems };
+  if (correctItems === expected.length) return { fraction: 1, correctItems };
+  if (scoring === 'all-or-nothing') return { fraction: 0, correctItems };
+  if (scoring === 'adjacent-pairs' && isOrdering && expected.length > 1) {
+    const keptPairs = expected.slice(1).filter((letter, i) => {
+      const position = given.indexOf(expected[i]);
+      return position !== -1 && given[position + 1] === letter;
+    }).length;
+    return { fraction: keptPairs / (expected.length - 1), correctItems };
+  }
+  return { fraction: correctItems / expected.length, correctItems };
+}
@@ -0,0 +1,130 @@
+// src/utils/attempts.ts
+// Shared by the client and edge functions, so keep the explicit `.ts` extension below.
+import type { Test, TestResult, ScoringPolicy, UnsubmittedAttempt } from '../../types.ts';
+import { formatDuration } from './availability.ts';
+import { getGradedPercentage } from './grading.ts';
+
+type AttemptRules = Pick<Test, 'max_attempts' | 'attempt_cooldown_minutes' | 'scoring_policy'>;
+type TimedTest = Pick<Test, 'timer' | 'closes_at'>;
+type Attempt = Pick<TestResult, 'submitted_at' | 'evaluation'>;
+// A submission, or an attempt that was started but never submitted.
+type StartedAttempt = Pick<TestResult, 'submitted_at'> | Pick<UnsubmittedAttempt, 'started_at'>;
+
+export interface AttemptStatus {
+  attemptsUsed: number;
+  /** `null` when the test allows unlimited attempts. */
+  attemptsRemaining: number | null;
+  /** ISO time the cooldown ends, or `null` when the student may start now (or never again). */
+  nextAttemptAt: string | null;
+  canAttempt: boolean;
+  /** Short text for the dashboard, e.g. "1 of 3 attempts used" or "Next attempt in 20 minutes". */
+  label: string;
+}
+
+const MINUTE = 60 * 1000;
+
+// Submissions arriving this long after the deadline still count as on time, to absorb
+// network latency and the auto-submit that fires when the countdown hits zero.
+export const LATE_GRACE_SECONDS = 60;
+
+export const SCORING_POLICY_LABELS: Record<ScoringPolicy, string> = {
+  best: 'Best attempt',
+  latest: 'Latest attempt',
+  average: 'Average of attempts',
+};
+
+export function getScoringPolicy(test: AttemptRules): ScoringPolicy {
+  return test.scoring_policy || 'latest';
+}
+
+const submittedAt = (attempt: StartedAttempt) => ('submitted_at' in attempt && attempt.submitted_at ? new Date(attempt.submitted_at).getTime() : 0);
+
+/**
+ * Works out whether a student may start another attempt, given their previous
+ * attempts at the test. Attempts that were never submitted count towards the limit
+ * but not the cooldown. Tests without limits always allow another attempt.
+ */
+export function getAttemptStatus(test: AttemptRules, attempts: StartedAttempt[], now: number = Date.now()): AttemptStatus {
+  const attemptsUsed = attempts.length;
+  const maxAttempts = test.max_attempts ?? null;
+  const attemptsRemaining = maxAttempts === null ? null : Math.max(0, maxAttempts - attemptsUsed);
+
+  if (attemptsRemaining === 0) {
+    return { attemptsUsed, attemptsRemaining, nextAttemptAt: null, canAttempt: false, label: 'No attempts left' };
+  }
+
+  const cooldownMinutes = test.attempt_cooldown_minutes ?? 0;
+  if (cooldownMinutes > 0 && attemptsUsed > 0) {
+    const lastSubmittedAt = Math.max(...attempts.map(submittedAt));
+    const availableAt = lastSubmittedAt + cooldownMinutes * MINUTE;
+    if (now < availableAt) {
+      return {
+        attemptsUsed,
+        attemptsRemaining,
+        nextAttemptAt: new Date(availableAt).toISOString(),
+        canAttempt: false,
+        label: `Next attempt in ${formatDuration(availableAt - now)}`,
+      };
+    }
+  }
+
+  const label = maxAttempts === null
+    ? (attemptsUsed > 0 ? `${attemptsUsed} ${attemptsUsed === 1 ? 'attempt' : 'attempts'} so far` : '')
+    : `${attemptsUsed} of ${maxAttempts} attempts used`;
+  return { attemptsUsed, attemptsRemaining, nextAttemptAt: null, canAttempt: true, label };
+}
+
+/**
+ * The attempts that make up a student's grade under the test's policy: the single
+ * best or latest attempt, or every attempt when they are averaged. "Best" compares
+ * only the answers graded so far.
+ */
+export function selectCountedAttempts<T extends Attempt>(policy: ScoringPolicy, attempts: T[]): T[] {
+  if (attempts.length === 0 || policy === 'average') return attempts;
+  if (policy === 'best') {
+    const graded = (a: Attempt) => getGradedPercentage(a.evaluation) ?? -1;
+    return [attempts.reduce((best, a) => (graded(a) > graded(best) ? a : best))];
+  }
+  return [attempts.reduce((latest, a) => (submittedAt(a) > submittedAt(latest) ? a : latest))];
+}
+
+/**
+ * The student's grade for a test (a percentage) over the answers graded so far, or
+ * `null` when they have no attempts or none has been graded yet.
+ */
+export function getCountedScore(policy: ScoringPolicy, attempts: Attempt[]): number | null {
+  const scores = selectCountedAttempts(policy, attempts)
+    .map(a => getGradedPercentage(a.evaluation))
+    .filter((score): score is number => score !== null);
+  if (scores.length === 0) return null;
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+/**
+ * When an attempt started at `startedAt` must be submitted: the time limit or the
+ * test's closing time, whichever comes first. `null` when neither applies.
+ */
+export function getAttemptDeadline(test: TimedTest, startedAt: number): number | null {
+  const candidates: number[] = [];
+  if (test.timer) candidates.push(startedAt + test.timer * MINUTE);
+  if (test.closes_at) candidates.push(new Date(test.closes_at).getTime());
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+/**
+ * Whether an unsubmitted attempt is picked up again by `start-attempt` rather than replaced:
+ * it has not been expired and can still be submitted on time.
+ */
+export function isResumableAttempt(attempt: { deadline_at: string | null; expired_at?: string | null }, now: number = Date.now()): boolean {
+  if (attempt.expired_at) return false;
+  return !attempt.deadline_at || new Date(attempt.deadline_at).getTime() + LATE_GRACE_SECONDS * 1000 > now;
+}
+
+/**
+ * Whether a test still accepts submissions. Work arriving after the scheduled closing time
+ * is kept and flagged late, since the attempt's deadline covers that; only a teacher
+ * closing, archiving or unpublishing the test turns submissions away.
+ */
+export function isAcceptingSubmissions(test: Pick<Test, 'status'>): boolean {
+  return (test.status || 'published') === 'published';
+}
@@ -0,0 +1,17 @@
+// src/utils/audio.ts
+// Audio-response questions: the student's answer is the URL of a recording uploaded to
+// the `media` bucket. Shared with edge functions; keep the `.ts` extension below.
+import type { Question } from '../../types.ts';
+
+export const DEFAULT_RECORDING_SECONDS = 120;
+export const MIN_RECORDING_SECONDS = 10;
+export const MAX_RECORDING_SECONDS = 600;
+
+/** The recording limit for a question, within the allowed range. */
+export function getRecordingLimit(question: Pick<Question, 'max_recording_seconds'>): number {
+  const seconds = Number(question.max_recording_seconds) || DEFAULT_RECORDING_SECONDS;
+  return Math.min(MAX_RECORDING_SECONDS, Math.max(MIN_RECORDING_SECONDS, Math.round(seconds)));
+}
+
+/** "1:05" style duration for recording timers. */
+export const formatRecordingTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
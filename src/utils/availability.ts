@@ -0,0 +1,62 @@
+// src/utils/availability.ts
+// Shared by the client and edge functions, so keep the explicit `.ts` extension below.
+import type { Test } from '../../types.ts';
+
+export type AvailabilityState = 'draft' | 'scheduled' | 'open' | 'closed' | 'archived';
+
+export interface TestAvailability {
+  state: AvailabilityState;
+  label: string;
+}
+
+type ScheduledTest = Pick<Test, 'status' | 'opens_at' | 'closes_at'>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// "2 days", "3 hours", "15 minutes" — rounded up so a test never reads as "0 minutes" away.
+export function formatDuration(ms: number): string {
+  if (ms >= DAY) {
+    const days = Math.ceil(ms / DAY);
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+  }
+  if (ms >= HOUR) {
+    const hours = Math.ceil(ms / HOUR);
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  const minutes = Math.max(1, Math.ceil(ms / MINUTE));
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+}
+
+/**
+ * Works out whether a test can be taken right now. Tests saved before scheduling
+ * existed have no status and are treated as published with no window.
+ */
+export function getTestAvailability(test: ScheduledTest, now: number = Date.now()): TestAvailability {
+  const status = test.status || 'published';
+  if (status === 'draft') return { state: 'draft', label: 'Draft' };
+  if (status === 'archived') return { state: 'archived', label: 'Archived' };
+  if (status === 'closed') return { state: 'closed', label: 'Closed' };
+
+  const opensAt = test.opens_at ? new Date(test.opens_at).getTime() : null;
+  const closesAt = test.closes_at ? new Date(test.closes_at).getTime() : null;
+
+  if (opensAt !== null && now < opensAt) {
+    return { state: 'scheduled', label: `Opens in ${formatDuration(opensAt - now)}` };
+  }
+  if (closesAt !== null && now >= closesAt) {
+    return { state: 'closed', label: 'Closed' };
+  }
+  if (closesAt !== null) {
+    return { state: 'open', label: `Closes in ${formatDuration(closesAt - now)}` };
+  }
+  return { state: 'open', label: 'Open' };
+}
+
+// Students may see published and closed tests (to know what is coming or missed),
+// but never drafts or archived ones.
+export function isVisibleToStudents(test: ScheduledTest): boolean {
+  const status = test.status || 'published';
+  return status === 'published' || status === 'closed';
+}
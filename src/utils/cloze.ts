@@ -0,0 +1,70 @@
+// src/utils/cloze.ts
+// Fill-in-the-blank (cloze) helpers. Blanks are written into the question text as
+// numbered markers ("The [[1]] sat on the [[2]]."), and `cloze_blanks[n - 1]` holds
+// the answer key for marker n. Shared with edge functions; keep the `.ts` extension.
+import type { ClozeBlank } from '../../types.ts';
+
+const BLANK_MARKER = /\[\[(\d+)\]\]/g;
+
+export type ClozeSegment = { text: string } | { blank: number };
+
+export const blankMarker = (blankIndex: number) => `[[${blankIndex + 1}]]`;
+
+/** Splits cloze text into literal text and 0-based blank references, in reading order. */
+export function splitClozeText(text: string): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of (text || '').matchAll(BLANK_MARKER)) {
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ blank: Number(match[1]) - 1 });
+    last = match.index! + match[0].length;
+  }
+  if (last < (text || '').length) segments.push({ text: text.slice(last) });
+  return segments;
+}
+
+/** Number of blanks the text asks for: the highest marker number used. */
+export function countClozeBlanks(text: string): number {
+  return splitClozeText(text).reduce((max, segment) => ('blank' in segment ? Math.max(max, segment.blank + 1) : max), 0);
+}
+
+/** Resizes the answer keys to match the markers in the text, keeping existing keys. */
+export function syncClozeBlanks(text: string, blanks: ClozeBlank[] | null | undefined): ClozeBlank[] {
+  return Array.from({ length: countClozeBlanks(text) }, (_, i) => blanks?.[i] ?? { accepted_answers: [], pattern: null, marks: 1 });
+}
+
+export const getClozeMarks = (blanks: ClozeBlank[] | null | undefined) => (blanks || []).reduce((sum, blank) => sum + (blank.marks || 0), 0);
+
+// Case and spacing never matter: "  New   York" matches "new york".
+export const normalizeClozeAnswer = (value: unknown) => (typeof value === 'string' ? value.trim().replace(/\s+/g, ' ').toLowerCase() : '');
+
+export function isValidClozePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an answer fills a blank: it equals one of the accepted answers after
+ * normalizing, or matches the blank's pattern in full (case-insensitively).
+ */
+export function matchesClozeBlank(blank: ClozeBlank, answer: unknown): boolean {
+  const given = normalizeClozeAnswer(answer);
+  if (!given) return false;
+  if ((blank.accepted_answers || []).some(accepted => normalizeClozeAnswer(accepted) === given)) return true;
+  if (blank.pattern && isValidClozePattern(blank.pattern)) {
+    return new RegExp(`^(?:${blank.pattern})$`, 'i').test(given);
+  }
+  return false;
+}
+
+/** Why a blank's answer key cannot be used, or null when it is fine. */
+export function getClozeBlankProblem(blank: ClozeBlank): string | null {
+  const hasAnswers = (blank.accepted_answers || []).some(answer => answer.trim() !== '');
+  if (!hasAnswers && !blank.pattern?.trim()) return 'needs at least one accepted answer or a pattern';
+  if (blank.pattern && !isValidClozePattern(blank.pattern)) return 'has an invalid pattern';
+  return null;
+}
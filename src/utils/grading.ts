@@ -0,0 +1,532 @@
+// src/utils/grading.ts
+// Shared by the client and the `submit-test` edge function, so it must stay free of
+// browser- or Deno-only imports (and keep the explicit `.ts` extension below).
+import type { Question, ComprehensionQuestion, QuestionScore, EvaluationResult, MultiSelectScoring, SubQuestionScore } from '../../types.ts';
+import { getClozeMarks, matchesClozeBlank } from './cloze.ts';
+import { parseLetterSequence, scoreArrangement } from './arrangement.ts';
+import { describeNumericKey, getNumericKeyProblem, isAcceptedUnit, isWithinTolerance, parseNumericAnswer } from './numeric.ts';
+import { richTextToPlainText, sanitizeRichText } from './richText.ts';
+import { getRubricMarks, hasRubric, scoreRubric } from './rubrics.ts';
+
+export type StudentAnswer = string | Record<number, string>;
+
+/**
+ * The slice of a test that still needs the AI evaluator after objective items
+ * have been marked locally. `sourceIndexes[i]` is the position in the original
+ * test of `questions[i]`, so AI scores can be merged back in order.
+ */
+export interface PendingAiEvaluation {
+  questions: Question[];
+  answers: StudentAnswer[];
+  sourceIndexes: number[];
+}
+
+export interface GradingPlan {
+  /** Scores for fully objective questions, `null` where the AI still has to grade. */
+  autoScores: (QuestionScore | null)[];
+  /** Locally marked objective sub-items of mixed comprehension questions, keyed by question index. */
+  partialScores: Map<number, QuestionScore>;
+  /**
+   * Per-sub-question scores of comprehension questions sent to the AI, keyed by question
+   * index: marked locally for objective sub-questions, `null` where the AI grades.
+   */
+  subScoreSlots: Map<number, (SubQuestionScore | null)[]>;
+  pending: PendingAiEvaluation;
+}
+
+type ObjectiveItem = Pick<Question, 'type' | 'options' | 'correct_answer' | 'multi_select_scoring' | 'match_prompts' | 'arrangement_scoring' | 'numeric_answer'> | ComprehensionQuestion;
+
+const isObjectiveType = (type: string) => ['multiple-choice', 'multi-select', 'true-false', 'matching', 'ordering', 'numeric'].includes(type);
+
+const normalizeChoice = (value: unknown) => (typeof value === 'string' ? value.trim().toUpperCase() : '');
+
+export const MULTI_SELECT_SCORING_LABELS: Record<MultiSelectScoring, string> = {
+  'all-or-nothing': 'All or nothing',
+  'per-option': 'Partial credit per correct option',
+  'per-option-penalty': 'Partial credit, minus wrong picks',
+};
+
+/**
+ * Reads a multi-select answer or key ("C, a") into sorted, de-duplicated letters (["A", "C"]).
+ * Answers and keys are both stored in this comma-separated form.
+ */
+export function parseChoiceSet(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  const letters = value.split(',').map(normalizeChoice).filter(letter => /^[A-Z]$/.test(letter));
+  return [...new Set(letters)].sort();
+}
+
+export const formatChoiceSet = (letters: string[]) => [...new Set(letters)].sort().join(',');
+
+/** Adds or removes one letter from a comma-separated choice set. */
+export function toggleChoice(value: unknown, letter: string): string {
+  const letters = parseChoiceSet(value);
+  return formatChoiceSet(letters.includes(letter) ? letters.filter(l => l !== letter) : [...letters, letter]);
+}
+
+export function isObjectiveItem(item: ObjectiveItem): boolean {
+  if (item.type === 'multi-select') return parseChoiceSet(item.correct_answer).length > 0;
+  if (item.type === 'matching' || item.type === 'ordering') return parseLetterSequence(item.correct_answer).some(Boolean);
+  if (item.type === 'numeric') return getNumericKeyProblem((item as Pick<Question, 'numeric_answer'>).numeric_answer) === null;
+  return isObjectiveType(item.type) && typeof item.correct_answer === 'string' && item.correct_answer.trim() !== '';
+}
+
+export function getMaxMarks(question: Question): number {
+  if (question.type === 'reading-comprehension' && question.comprehension_questions) {
+    return question.comprehension_questions.reduce((sum, cq) => sum + (cq.marks || 0), 0);
+  }
+  // Students never receive the blanks, so fall back to the stored total.
+  if (question.type === 'cloze' && question.cloze_blanks?.length) return getClozeMarks(question.cloze_blanks);
+  return question.marks || 0;
+}
+
+export function getTotalPossibleMarks(questions: Question[]): number {
+  return questions.reduce((total, q) => total + getMaxMarks(q), 0);
+}
+
+const describeChoice = (item: ObjectiveItem, choice: string) => {
+  if (item.type !== 'multiple-choice' && item.type !== 'multi-select') return choice;
+  const optionText = item.options?.[choice.charCodeAt(0) - 65];
+  return optionText ? `${choice}. ${optionText}` : choice;
+};
+
+const describeChoiceSet = (item: ObjectiveItem, letters: string[]) => letters.map(letter => describeChoice(item, letter)).join('; ');
+
+// Partial scores are kept to two decimal places so totals stay readable.
+const roundScore = (score: number) => Math.round(score * 100) / 100;
+
+function markMultiSelectItem(item: ObjectiveItem, answer: unknown, marks: number): { score: number; feedback: string } {
+  const expected = parseChoiceSet(item.correct_answer);
+  const given = parseChoiceSet(answer);
+  const correctLabel = describeChoiceSet(item, expected);
+
+  if (given.length === 0) {
+    return { score: 0, feedback: `No answer was given. The correct options are ${correctLabel}.` };
+  }
+
+  const hits = given.filter(letter => expected.includes(letter)).length;
+  const wrongPicks = given.length - hits;
+  const isExact = hits === expected.length && wrongPicks === 0;
+  if (isExact) {
+    return { score: marks, feedback: `Correct! You chose ${correctLabel}.` };
+  }
+
+  const scoring: MultiSelectScoring = (item as Pick<Question, 'multi_select_scoring'>).multi_select_scoring || 'all-or-nothing';
+  const credited = scoring === 'per-option' ? hits : scoring === 'per-option-penalty' ? Math.max(0, hits - wrongPicks) : 0;
+  const score = roundScore(marks * (credited / expected.length));
+  const breakdown = `You picked ${hits} of ${expected.length} correct options${wrongPicks > 0 ? ` and ${wrongPicks} wrong ${wrongPicks === 1 ? 'option' : 'options'}` : ''}.`;
+  return {
+    score,
+    feedback: `${score > 0 ? 'Partly correct.' : 'Incorrect.'} ${breakdown} You chose ${describeChoiceSet(item, given)}, but the correct options are ${correctLabel}.`,
+  };
+}
+
+const optionText = (item: ObjectiveItem, letter: string) => (letter && item.options?.[letter.charCodeAt(0) - 65]) || '(nothing)';
+
+// Matching answers map prompt index to the chosen letter; ordering answers are a letter sequence.
+function markArrangementItem(item: ObjectiveItem, answer: unknown, marks: number): { score: number; feedback: string } {
+  const isOrdering = item.type === 'ordering';
+  const expected = parseLetterSequence(item.correct_answer);
+  const prompts = (item as Pick<Question, 'match_prompts'>).match_prompts || [];
+  const given = isOrdering
+    ? parseLetterSequence(answer)
+    : expected.map((_, i) => normalizeChoice(answer && typeof answer === 'object' ? (answer as Record<number, string>)[i] : ''));
+
+  if (!given.some(Boolean)) {
+    return { score: 0, feedback: isOrdering ? 'No answer was given.' : 'No matches were made.' };
+  }
+
+  const scoring = (item as Pick<Question, 'arrangement_scoring'>).arrangement_scoring || 'all-or-nothing';
+  const { fraction, correctItems } = scoreArrangement(expected, given, scoring, isOrdering);
+  const score = roundScore(marks * fraction);
+  if (fraction === 1) {
+    return { score, feedback: isOrdering ? 'Correct! Every item is in the right place.' : 'Correct! Every item is matched correctly.' };
+  }
+
+  const lead = `${score > 0 ? 'Partly correct.' : 'Incorrect.'} ${correctItems} of ${expected.length} ${isOrdering ? 'items are in the right place' : 'matches are correct'}.`;
+  if (isOrdering) {
+    return {
+      score,
+      feedback: `${lead}\nYour order: ${given.map(letter => optionText(item, letter)).join(' → ')}\nCorrect order: ${expected.map(letter => optionText(item, letter)).join(' → ')}`,
+    };
+  }
+  const details = expected.map((letter, i) => given[i] === letter
+    ? `* ${prompts[i]} → ${optionText(item, letter)} ✓`
+    : `* ${prompts[i]} → you chose ${optionText(item, given[i])}; correct: ${optionText(item, letter)}`);
+  return { score, feedback: `${lead}\n${details.join('\n')}` };
+}
+
+// The value must fall within tolerance and use an accepted unit; the wrong number of
+// significant figures then costs half the marks.
+function markNumericItem(item: ObjectiveItem, answer: unknown, marks: number): { score: number; feedback: string } {
+  const key = (item as Pick<Question, 'numeric_answer'>).numeric_answer!;
+  const expectedLabel = describeNumericKey(key);
+  if (typeof answer !== 'string' || !answer.trim()) {
+    return { score: 0, feedback: `No answer was given. The answer is ${expectedLabel}.` };
+  }
+  const parsed = parseNumericAnswer(answer);
+  if (!parsed) {
+    return { score: 0, feedback: `"${answer.trim()}" is not a number. The answer is ${expectedLabel}.` };
+  }
+  if (!isWithinTolerance(key, parsed.value)) {
+    return { score: 0, feedback: `Incorrect. You gave ${answer.trim()}, but the answer is ${expectedLabel}.` };
+  }
+  if (!isAcceptedUnit(key, parsed.unit)) {
+    const accepted = (key.units || []).filter(unit => unit.trim()).join(', ');
+    if (!accepted) return { score: 0, feedback: `The value is right, but this answer takes no unit and you wrote "${parsed.unit}".` };
+    return { score: 0, feedback: `The value is right, but ${parsed.unit ? `"${parsed.unit}" is not an accepted unit` : 'a unit is required'}. Accepted units: ${accepted}.` };
+  }
+  if (key.sig_figs && parsed.significantFigures !== key.sig_figs) {
+    return { score: roundScore(marks / 2), feedback: `Partly correct. The value is right, but it should be given to ${key.sig_figs} significant figures (you gave ${parsed.significantFigures}).` };
+  }
+  return { score: marks, feedback: `Correct! You gave ${answer.trim()}.` };
+}
+
+function markObjectiveItem(item: ObjectiveItem, answer: unknown, marks: number): { score: number; feedback: string } {
+  if (item.type === 'numeric') return markNumericItem(item, answer, marks);
+  if (item.type === 'multi-select') return markMultiSelectItem(item, answer, marks);
+  if (item.type === 'matching' || item.type === 'ordering') return markArrangementItem(item, answer, marks);
+
+  const expected = normalizeChoice(item.correct_answer);
+  const given = normalizeChoice(answer);
+  const correctLabel = describeChoice(item, item.correct_answer!.trim());
+
+  if (!given) {
+    return { score: 0, feedback: `No answer was given. The correct answer is ${correctLabel}.` };
+  }
+  if (given === expected) {
+    return { score: marks, feedback: `Correct! You chose ${correctLabel}.` };
+  }
+  return { score: 0, feedback: `Incorrect. You chose ${describeChoice(item, String(answer).trim())}, but the correct answer is ${correctLabel}.` };
+}
+
+interface ClozeMarking {
+  score: number;
+  feedback: string[];
+  /** Blanks answered but not accepted, which the AI may still credit when the question allows it. */
+  nearMisses: number[];
+}
+
+function markClozeQuestion(question: Question, answers: Record<number, string>): ClozeMarking {
+  const marking: ClozeMarking = { score: 0, feedback: [], nearMisses: [] };
+  (question.cloze_blanks || []).forEach((blank, blankIndex) => {
+    const given = (answers[blankIndex] || '').trim();
+    const accepted = (blank.accepted_answers || []).filter(answer => answer.trim() !== '');
+    const acceptedLabel = accepted.length > 0 ? accepted.map(answer => `"${answer}"`).join(' or ') : 'an answer matching the pattern';
+    if (matchesClozeBlank(blank, given)) {
+      marking.score += blank.marks || 0;
+      marking.feedback.push(`* Blank ${blankIndex + 1}: Correct! You wrote "${given}".`);
+    } else if (!given) {
+      marking.feedback.push(`* Blank ${blankIndex + 1}: No answer was given. The answer is ${acceptedLabel}.`);
+    } else {
+      marking.nearMisses.push(blankIndex);
+      marking.feedback.push(question.cloze_ai_fallback
+        ? `* Blank ${blankIndex + 1}: "${given}" is not an accepted answer (${acceptedLabel}), so it was reviewed by the evaluator above.`
+        : `* Blank ${blankIndex + 1}: Incorrect. You wrote "${given}", but the answer is ${acceptedLabel}.`);
+    }
+  });
+  return marking;
+}
+
+// Re-poses the missed blanks as comprehension sub-questions over the cloze text, so the
+// evaluator can credit near misses such as misspellings without seeing the other blanks.
+function toClozeFallbackQuestion(question: Question, blankIndexes: number[]): Question {
+  return {
+    type: 'reading-comprehension',
+    text: 'Fill in the numbered blanks in the passage.',
+    marks: 0,
+    passage: question.text,
+    comprehension_questions: blankIndexes.map(blankIndex => {
+      const blank = question.cloze_blanks![blankIndex];
+      return {
+        type: 'short-answer',
+        question: `What belongs in blank [[${blankIndex + 1}]]?`,
+        marks: blank.marks || 0,
+        sample_answer: (blank.accepted_answers || []).join(' / '),
+        marking_scheme: `Award full marks only if the answer is an acceptable alternative to ${(blank.accepted_answers || []).join(' / ') || 'the expected word'} (for example a minor misspelling or an equivalent form) that fits the blank; otherwise award 0. Do not award part marks.`,
+      };
+    }),
+  };
+}
+
+const isWrittenType = (type: string) => type === 'short-answer' || type === 'long-answer';
+
+/**
+ * Coerces untrusted answers into one entry per question: a string for ordinary
+ * questions and a map of sub-question (or blank, or prompt) index to string for
+ * reading comprehension, cloze and matching questions. Written answers are rich
+ * text and are sanitized.
+ */
+export function normalizeAnswers(questions: Question[], rawAnswers: unknown): StudentAnswer[] {
+  const list = Array.isArray(rawAnswers) ? rawAnswers : [];
+  return questions.map((question, index) => {
+    const raw = list[index];
+    if (question.type === 'reading-comprehension' || question.type === 'cloze' || question.type === 'matching') {
+      const subAnswers: Record<number, string> = {};
+      const items = question.type === 'cloze' ? question.cloze_blanks || []
+        : question.type === 'matching' ? question.match_prompts || []
+        : question.comprehension_questions || [];
+      if (raw && typeof raw === 'object') {
+        items.forEach((_, cqIndex) => {
+          const value = (raw as Record<string, unknown>)[cqIndex];
+          const isWritten = question.type === 'reading-comprehension' && isWrittenType(question.comprehension_questions![cqIndex].type);
+          if (typeof value === 'string') subAnswers[cqIndex] = isWritten ? sanitizeRichText(value) : value;
+        });
+      }
+      return subAnswers;
+    }
+    if (typeof raw !== 'string') return '';
+    return isWrittenType(question.type) ? sanitizeRichText(raw) : raw;
+  });
+}
+
+/**
+ * Splits a submission into the parts that can be marked exactly against their
+ * `correct_answer` and the parts that need the AI evaluator.
+ *
+ * - Multiple-choice, multi-select, true/false, matching, ordering and numeric questions are marked locally.
+ * - Reading comprehension questions whose sub-items are all objective are marked locally.
+ * - Mixed comprehension questions have their objective sub-items marked locally and
+ *   only the subjective sub-items (with their answers re-indexed) are sent to the AI.
+ * - Cloze blanks are marked against their accepted answers. With `cloze_ai_fallback`,
+ *   wrong non-empty answers go to the AI the same way as mixed comprehension items.
+ * - Audio responses go to the AI as their transcript when `transcripts` has one (see
+ *   `audio_ai_scoring`); otherwise they get a 'pending' score for the teacher to grade.
+ * - Uploaded files always get a 'pending' score for the teacher to grade.
+ * - Everything else goes to the AI unchanged.
+ */
+export function planGrading(questions: Question[], answers: StudentAnswer[], transcripts: Record<number, string> = {}): GradingPlan {
+  const autoScores: (QuestionScore | null)[] = [];
+  const partialScores = new Map<number, QuestionScore>();
+  const subScoreSlots = new Map<number, (SubQuestionScore | null)[]>();
+  const pending: PendingAiEvaluation = { questions: [], answers: [], sourceIndexes: [] };
+
+  questions.forEach((question, index) => {
+    const answer = answers[index];
+
+    if (isObjectiveItem(question)) {
+      const { score, feedback } = markObjectiveItem(question, answer, question.marks || 0);
+      autoScores.push({ score, feedback, maxMarks: getMaxMarks(question), source: 'auto' });
+      return;
+    }
+
+    if (question.type === 'cloze') {
+      const blankAnswers = typeof answer === 'object' && answer !== null ? answer : {};
+      const { score, feedback, nearMisses } = markClozeQuestion(question, blankAnswers);
+      if (!question.cloze_ai_fallback || nearMisses.length === 0) {
+        autoScores.push({ score, feedback: feedback.join('\n'), maxMarks: getMaxMarks(question), source: 'auto' });
+        return;
+      }
+      partialScores.set(index, { score, feedback: feedback.join('\n'), source: 'auto' });
+      autoScores.push(null);
+      pending.questions.push(toClozeFallbackQuestion(question, nearMisses));
+      pending.answers.push(Object.fromEntries(nearMisses.map((blankIndex, i) => [i, blankAnswers[blankIndex] ?? ''])));
+      pending.sourceIndexes.push(index);
+      return;
+    }
+
+    if (question.type === 'audio-response') {
+      const hasRecording = typeof answer === 'string' && answer.trim() !== '';
+      if (hasRecording && transcripts[index]) {
+        autoScores.push(null);
+        pending.questions.push({ ...question, text: `${question.text}\n\n(Spoken answer: the student's recording was transcribed automatically. Judge what was said, such as content, vocabulary and grammar, and ignore spelling, punctuation and capitalization.)` });
+        pending.answers.push(transcripts[index]);
+        pending.sourceIndexes.push(index);
+        return;
+      }
+      autoScores.push(hasRecording
+        ? { score: 0, feedback: 'Your recording will be graded by your teacher.', maxMarks: getMaxMarks(question), source: 'pending' }
+        : { score: 0, feedback: 'No recording was submitted.', maxMarks: getMaxMarks(question), source: 'auto' });
+      return;
+    }
+
+    if (question.type === 'file-upload') {
+      const hasFile = typeof answer === 'string' && answer.trim() !== '';
+      autoScores.push(hasFile
+        ? { score: 0, feedback: 'Your uploaded file will be graded by your teacher.', maxMarks: getMaxMarks(question), source: 'pending' }
+        : { score: 0, feedback: 'No file was uploaded.', maxMarks: getMaxMarks(question), source: 'auto' });
+      return;
+    }
+
+    if (question.type === 'reading-comprehension' && question.comprehension_questions?.length) {
+      const subAnswers = typeof answer === 'object' && answer !== null ? answer : {};
+      const subjective: ComprehensionQuestion[] = [];
+      const subjectiveAnswers: Record<number, string> = {};
+      let objectiveScore = 0;
+      const objectiveFeedback: string[] = [];
+
+      const slots = question.comprehension_questions.map((cq, cqIndex): SubQuestionScore | null => {
+        if (isObjectiveItem(cq)) {
+          const { score, feedback } = markObjectiveItem(cq, subAnswers[cqIndex], cq.marks || 0);
+          objectiveScore += score;
+          objectiveFeedback.push(`* Sub-question ${cqIndex + 1}: ${feedback}`);
+          return { score, feedback, maxMarks: cq.marks || 0, source: 'auto' };
+        }
+        subjectiveAnswers[subjective.length] = subAnswers[cqIndex] ?? '';
+        subjective.push(cq);
+        return null;
+      });
+
+      if (subjective.length === 0) {
+        autoScores.push({ score: objectiveScore, feedback: objectiveFeedback.join('\n'), maxMarks: getMaxMarks(question), source: 'auto', subScores: slots as SubQuestionScore[] });
+        return;
+      }
+
+      if (objectiveFeedback.length > 0) {
+        partialScores.set(index, { score: objectiveScore, feedback: objectiveFeedback.join('\n'), source: 'auto' });
+      }
+      subScoreSlots.set(index, slots);
+      autoScores.push(null);
+      pending.questions.push({ ...question, comprehension_questions: subjective });
+      pending.answers.push(subjectiveAnswers);
+      pending.sourceIndexes.push(index);
+      return;
+    }
+
+    autoScores.push(null);
+    pending.questions.push(question);
+    pending.answers.push(answer ?? '');
+    pending.sourceIndexes.push(index);
+  });
+
+  return { autoScores, partialScores, subScoreSlots, pending };
+}
+
+/**
+ * The pending questions and answers as the AI evaluator receives them: rich text
+ * (question text, passages, model answers and written answers) becomes plain text.
+ */
+export function toEvaluatorPayload(pending: PendingAiEvaluation): { questions: Question[]; answers: StudentAnswer[] } {
+  const plain = <T extends string | null | undefined>(value: T): T => (value ? richTextToPlainText(value) : value) as T;
+  return {
+    questions: pending.questions.map(question => ({
+      ...question,
+      text: richTextToPlainText(question.text),
+      passage: plain(question.passage),
+      sample_answer: plain(question.sample_answer),
+      marking_scheme: plain(question.marking_scheme),
+      comprehension_questions: question.comprehension_questions?.map(cq => ({ ...cq, question: richTextToPlainText(cq.question), sample_answer: plain(cq.sample_answer) })),
+    })),
+    answers: pending.answers.map(answer => (typeof answer === 'string'
+      ? richTextToPlainText(answer)
+      : Object.fromEntries(Object.entries(answer).map(([key, value]) => [key, richTextToPlainText(value)])))),
+  };
+}
+
+/**
+ * Recomputes the awarded total and overall percentage from per-question scores.
+ */
+export function summarizeScores(questionScores: QuestionScore[], totalPossibleMarks: number): Pick<EvaluationResult, 'totalAwardedMarks' | 'totalPossibleMarks' | 'overallScore'> {
+  const totalAwardedMarks = questionScores.reduce((sum, s) => sum + (s.score || 0), 0);
+  return {
+    totalAwardedMarks,
+    totalPossibleMarks,
+    overallScore: totalPossibleMarks > 0 ? Math.round((totalAwardedMarks / totalPossibleMarks) * 100) : 0,
+  };
+}
+
+/**
+ * A result's percentage over the questions graded so far, leaving out answers still
+ * waiting for the teacher, or `null` when none have been graded. Averages and scoring
+ * policies use this, so an ungraded answer does not count as zero.
+ */
+export function getGradedPercentage(evaluation: EvaluationResult): number | null {
+  const scores = evaluation.questionScores || [];
+  if (!scores.some(s => s.source === 'pending')) return evaluation.overallScore;
+  const graded = scores.filter(s => s.source !== 'pending');
+  const possible = graded.reduce((sum, s) => sum + (s.maxMarks || 0), 0);
+  if (possible <= 0) return null;
+  return Math.round((graded.reduce((sum, s) => sum + (s.score || 0), 0) / possible) * 100);
+}
+
+/**
+ * Builds the overall summary fields when every question was marked locally and
+ * the AI evaluator was never called.
+ */
+export function buildAutoSummary(questionScores: QuestionScore[]): Pick<EvaluationResult, 'feedback' | 'suggestions' | 'strengths' | 'weaknesses'> {
+  const correct = questionScores.filter(s => s.maxMarks && s.score >= s.maxMarks).length;
+  const awaitingTeacher = questionScores.filter(s => s.source === 'pending').length;
+  const missed = questionScores
+    .map((s, i) => ({ s, i }))
+    .filter(({ s }) => s.source !== 'pending' && (!s.maxMarks || s.score < s.maxMarks))
+    .map(({ i }) => `Question ${i + 1}`);
+
+  return {
+    feedback: `- You answered ${correct} of ${questionScores.length} questions fully correctly.\n- These questions were marked automatically against the answer key.`
+      + (awaitingTeacher > 0 ? `\n- ${awaitingTeacher} answer(s) are waiting for your teacher to grade, so your score may go up.` : ''),
+    suggestions: missed.length > 0
+      ? `- Review the topics covered by ${missed.join(', ')} and compare your choices with the correct answers shown below.`
+      : '- Great job! Try a harder test to keep challenging yourself.',
+    strengths: correct > 0 ? `- ${correct} question(s) answered fully correctly.` : '- Keep going — every attempt helps you learn.',
+    weaknesses: missed.length > 0 ? `- Marks were lost on ${missed.join(', ')}.` : '- No mistakes on this test.',
+  };
+}
+
+// Fills the AI-graded slots, in order, from the sub-scores the AI returned, keeping each
+// within its sub-question's marks. Returns null unless it returned exactly one per slot.
+function fillSubScores(subQuestions: ComprehensionQuestion[], slots: (SubQuestionScore | null)[], aiSubScores: unknown): SubQuestionScore[] | null {
+  const returned = Array.isArray(aiSubScores) ? aiSubScores : [];
+  if (returned.length !== slots.filter(slot => slot === null).length) return null;
+  let next = 0;
+  return slots.map((slot, cqIndex) => {
+    if (slot) return slot;
+    const { score, feedback } = returned[next++] ?? {};
+    const maxMarks = subQuestions[cqIndex]?.marks || 0;
+    return { score: Math.max(0, Math.min(maxMarks, Number(score) || 0)), feedback: typeof feedback === 'string' ? feedback : '', maxMarks, source: 'ai' };
+  });
+}
+
+/**
+ * Combines locally marked scores with the AI evaluation of the pending items
+ * and recomputes the totals. The AI result may be `null` when nothing needed it.
+ * Questions with a rubric are scored from the levels the AI picked, when it picked
+ * one for every criterion; otherwise its overall score is kept. Comprehension
+ * questions are scored as the sum of their sub-question scores when the AI returned
+ * one for every sub-question it graded. Answers the AI returned no score for are left
+ * pending for the teacher.
+ */
+export function mergeEvaluation(questions: Question[], plan: GradingPlan, aiEvaluation: EvaluationResult | null): EvaluationResult {
+  const { autoScores, partialScores, subScoreSlots, pending } = plan;
+  // Scores are matched to answers by position, so a list of the wrong length can't be trusted
+  // for any of them; every AI-graded answer then waits for the teacher.
+  const aiScores = aiEvaluation?.questionScores;
+  const isAligned = Array.isArray(aiScores) && aiScores.length === pending.questions.length;
+
+  const questionScores: QuestionScore[] = autoScores.map((autoScore, index) => {
+    if (autoScore) return autoScore;
+
+    const partial = partialScores.get(index);
+    const question = questions[index];
+    const maxMarks = getMaxMarks(question);
+    const aiScore = isAligned ? aiScores[pending.sourceIndexes.indexOf(index)] : null;
+    if (!aiScore || typeof aiScore !== 'object') {
+      return { score: 0, feedback: 'The AI evaluator did not return a score for this answer, so it needs teacher review.', maxMarks, source: 'pending' };
+    }
+    const criterionScores = !partial && hasRubric(question.rubric) ? scoreRubric(question.rubric, aiScore.criterionScores) : null;
+    const aiMarks = criterionScores ? getRubricMarks(question.rubric!, criterionScores, maxMarks) : Number(aiScore.score) || 0;
+    const subScores = subScoreSlots.has(index) ? fillSubScores(question.comprehension_questions || [], subScoreSlots.get(index)!, aiScore.subScores) : null;
+    const score = subScores
+      ? Math.min(maxMarks, subScores.reduce((sum, sub) => sum + sub.score, 0))
+      : Math.max(0, Math.min(maxMarks, aiMarks + (partial?.score || 0)));
+
+    return {
+      score,
+      feedback: partial ? `${aiScore.feedback}\n${partial.feedback}` : aiScore.feedback,
+      maxMarks,
+      source: partial ? 'mixed' : 'ai',
+      ...(criterionScores ? { criterionScores } : {}),
+      ...(subScores ? { subScores } : {}),
+    };
+  });
+
+  const summary = aiEvaluation ?? buildAutoSummary(questionScores);
+
+  return {
+    feedback: summary.feedback,
+    suggestions: summary.suggestions,
+    strengths: summary.strengths,
+    weaknesses: summary.weaknesses,
+    questionScores,
+    ...summarizeScores(questionScores, getTotalPossibleMarks(questions)),
+  };
+}
@@ -0,0 +1,82 @@
+// src/utils/integrity.ts
+// Shared by the client and the `submit-test` edge function, so keep the explicit `.ts` extension below.
+import type { IntegrityEvent, IntegrityEventType } from '../../types.ts';
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  'tab-hidden': 'Left the test tab',
+  'window-blur': 'Switched to another window',
+  'fullscreen-exit': 'Exited fullscreen',
+  'paste-attempt': 'Tried to paste',
+  'devtools-suspected': 'Developer tools possibly opened',
+  'idle': 'Inactive for a long time',
+};
+
+// Events that count towards a lockdown test's violation limit. Idle time and the
+// devtools heuristic are too noisy to end an attempt on their own.
+export const LOCKDOWN_VIOLATION_TYPES: IntegrityEventType[] = ['fullscreen-exit', 'tab-hidden', 'window-blur', 'paste-attempt'];
+
+// One action can log several events: leaving the test exits fullscreen, blurs the window
+// and hides the tab. Violations that start within this long of each other count as one.
+export const VIOLATION_GROUP_MS = 3 * 1000;
+
+// When the student left. `tab-hidden` is logged on their return, with how long they were away.
+const getStartedAt = (event: IntegrityEvent) => new Date(event.at).getTime() - (event.durationMs ?? 0);
+
+// The time each lockdown violation was first logged, which is when the browser counted it.
+function getViolationTimes(events: IntegrityEvent[]): number[] {
+  const violations = events
+    .filter(event => LOCKDOWN_VIOLATION_TYPES.includes(event.type))
+    .sort((a, b) => getStartedAt(a) - getStartedAt(b));
+  const groups: { startedAt: number; loggedAt: number }[] = [];
+  for (const event of violations) {
+    const last = groups[groups.length - 1];
+    const loggedAt = new Date(event.at).getTime();
+    if (last && getStartedAt(event) - last.startedAt <= VIOLATION_GROUP_MS) {
+      last.loggedAt = Math.min(last.loggedAt, loggedAt);
+    } else {
+      groups.push({ startedAt: getStartedAt(event), loggedAt });
+    }
+  }
+  return groups.map(group => group.loggedAt).sort((a, b) => a - b);
+}
+
+export const countLockdownViolations = (events: IntegrityEvent[]) => getViolationTimes(events).length;
+
+/**
+ * When a lockdown attempt reached its violation limit: the time of the violation that
+ * hit it, or `null` when the limit was not reached (or there is none).
+ */
+export function getViolationLimitReachedAt(events: IntegrityEvent[], maxViolations: number | null | undefined): number | null {
+  if (!maxViolations) return null;
+  const times = getViolationTimes(events);
+  return times.length >= maxViolations ? times[maxViolations - 1] : null;
+}
+
+// A student is considered idle after this long without mouse, keyboard, scroll or touch input.
+export const IDLE_THRESHOLD_MS = 2 * 60 * 1000;
+
+// Caps on what the server will store, so a misbehaving client cannot bloat a result.
+const MAX_EVENTS = 500;
+const MAX_DETAIL_LENGTH = 200;
+
+const EVENT_TYPES = Object.keys(INTEGRITY_EVENT_LABELS) as IntegrityEventType[];
+
+/**
+ * Keeps only well-formed events from an untrusted client payload, sorted by time.
+ */
+export function sanitizeIntegrityEvents(raw: unknown): IntegrityEvent[] {
+  if (!Array.isArray(raw)) return [];
+  const events: IntegrityEvent[] = [];
+  for (const item of raw.slice(0, MAX_EVENTS)) {
+    if (!item || typeof item !== 'object') continue;
+    const { type, at, detail, durationMs } = item as Record<string, unknown>;
+    if (typeof type !== 'string' || !EVENT_TYPES.includes(type as IntegrityEventType)) continue;
+    if (typeof at !== 'string' || Number.isNaN(new Date(at).getTime())) continue;
+
+    const event: IntegrityEvent = { type: type as IntegrityEventType, at: new Date(at).toISOString() };
+    if (typeof detail === 'string' && detail.trim()) event.detail = detail.trim().slice(0, MAX_DETAIL_LENGTH);
+    if (typeof durationMs === 'number' && Number.isFinite(durationMs) && durationMs >= 0) event.durationMs = Math.round(durationMs);
+    events.push(event);
+  }
+  return events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
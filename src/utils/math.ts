@@ -0,0 +1,65 @@
+// src/utils/math.ts
+// LaTeX math inside question and answer text: `$...$` inline, `$$...$$` on its own line.
+// Like Pandoc, an inline `$` only opens before a non-space and only closes after one, and
+// not before a digit, so prices such as "$5 and $10" stay text. `\$` is always a dollar sign.
+// Shared with edge functions; keep the `.ts` extension on imports of this file.
+
+export type MathSegment = { text: string } | { tex: string; display: boolean };
+
+function findInlineClose(text: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '$') {
+      if (i === from || /\s/.test(text[i - 1]) || /\d/.test(text[i + 1] ?? '')) return -1;
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Splits text into literal runs and math, in reading order. Unclosed delimiters stay text. */
+export function splitMathText(text: string): MathSegment[] {
+  const segments: MathSegment[] = [];
+  const source = text || '';
+  let literal = '';
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith('\\$', i)) {
+      literal += '$';
+      i += 2;
+      continue;
+    }
+    if (source.startsWith('$$', i)) {
+      const close = source.indexOf('$$', i + 2);
+      if (close > i + 2) {
+        if (literal) segments.push({ text: literal });
+        segments.push({ tex: source.slice(i + 2, close).trim(), display: true });
+        literal = '';
+        i = close + 2;
+        continue;
+      }
+    } else if (source[i] === '$' && /\S/.test(source[i + 1] ?? '')) {
+      const close = findInlineClose(source, i + 1);
+      if (close !== -1) {
+        if (literal) segments.push({ text: literal });
+        segments.push({ tex: source.slice(i + 1, close), display: false });
+        literal = '';
+        i = close + 1;
+        continue;
+      }
+    }
+    literal += source[i];
+    i++;
+  }
+  if (literal) segments.push({ text: literal });
+  return segments;
+}
+
+export const hasMath = (text: unknown) => typeof text === 'string' && splitMathText(text).some(segment => 'tex' in segment);
+
+/** Whether the cursor sits inside an open `$...$`, so inserted LaTeX needs no new delimiters. */
+export function isInsideMath(text: string, cursor: number): boolean {
+  // `$$` opens and closes like a single `$`.
+  const before = text.slice(0, cursor).replace(/\\\$/g, '').replace(/\$\$/g, '$');
+  return (before.match(/\$/g) || []).length % 2 === 1;
+}
@@ -0,0 +1,84 @@
+// src/utils/numeric.ts
+// Numeric answers: a number, optionally in scientific notation, followed by an optional
+// unit ("9.81 m/s^2", "6.02e23", "-1.5 × 10^-3 mol", "1,000 kg"). Marked locally by `grading.ts`.
+// Shared with edge functions; keep the `.ts` extension below.
+import type { NumericAnswerKey } from '../../types.ts';
+
+export interface ParsedNumber {
+  value: number;
+  /** Significant figures as written; trailing zeros without a decimal point do not count. */
+  significantFigures: number;
+  unit: string;
+}
+
+// Commas are only read as thousands separators in groups of three ("1,000", not "1,00").
+const NUMBER_PATTERN = /^([+-]?(?:\d{1,3}(?:,\d{3})+(?:\.\d*)?|\d+\.?\d*|\.\d+))(?:\s*(?:[eE]([+-]?\d+)|[x×*]\s*10\s*\^\s*([+-]?\d+)))?\s*(.*)$/;
+
+// A unit starts with a letter, ° or % and holds only letters, digits, °, %, /, ^, ·, *,
+// minus signs and spaces ("m/s^2", "kg·m^2", "m s^-1", "°C").
+const UNIT_PATTERN = /^[\p{L}°%][\p{L}\d°%/^·*\s-]*$/u;
+
+function countSignificantFigures(mantissa: string): number {
+  const digits = mantissa.replace(/^[+-]/, '');
+  if (digits.includes('.')) {
+    const significant = digits.replace('.', '').replace(/^0+/, '');
+    return significant.length || 1;
+  }
+  const trimmed = digits.replace(/^0+/, '').replace(/0+$/, '');
+  return trimmed.length || 1;
+}
+
+// Units compare case-sensitively (mV is not MV) but ignore spacing ("m / s" is "m/s").
+export const normalizeUnit = (unit: string) => unit.replace(/\s+/g, '');
+
+/**
+ * Reads a student's numeric answer, or returns null when it is not a number followed
+ * by nothing but a unit.
+ */
+export function parseNumericAnswer(raw: unknown): ParsedNumber | null {
+  if (typeof raw !== 'string') return null;
+  const match = raw.trim().match(NUMBER_PATTERN);
+  if (!match) return null;
+  const [, groupedMantissa, eExponent, tenExponent, rest] = match;
+  const unit = rest.trim();
+  if (unit !== '' && !UNIT_PATTERN.test(unit)) return null;
+  const mantissa = groupedMantissa.replace(/,/g, '');
+  const value = Number(`${mantissa}e${eExponent ?? tenExponent ?? 0}`);
+  if (!Number.isFinite(value)) return null;
+  return { value, significantFigures: countSignificantFigures(mantissa), unit };
+}
+
+/** The allowed distance from the key; relative tolerance is a percentage of the key's value. */
+export function getAllowedError(key: NumericAnswerKey): number {
+  const tolerance = Math.max(0, key.tolerance || 0);
+  return key.tolerance_type === 'relative' ? Math.abs(key.value) * (tolerance / 100) : tolerance;
+}
+
+export function isWithinTolerance(key: NumericAnswerKey, value: number): boolean {
+  // A tiny allowance absorbs floating-point noise such as 0.1 + 0.2.
+  return Math.abs(value - key.value) <= getAllowedError(key) + Math.abs(key.value) * 1e-9;
+}
+
+/** Whether the unit is acceptable: one of the key's units, or none when units are optional. Keys without units accept no unit. */
+export function isAcceptedUnit(key: NumericAnswerKey, unit: string): boolean {
+  const accepted = (key.units || []).map(normalizeUnit).filter(Boolean);
+  if (unit === '') return accepted.length === 0 || !key.unit_required;
+  return accepted.includes(normalizeUnit(unit));
+}
+
+/** "9.81 ± 0.05 m/s^2" style description of a key, for feedback and review screens. */
+export function describeNumericKey(key: NumericAnswerKey): string {
+  const tolerance = key.tolerance > 0 ? ` ± ${key.tolerance}${key.tolerance_type === 'relative' ? '%' : ''}` : '';
+  const unit = key.units?.length ? ` ${key.units[0]}` : '';
+  const sigFigs = key.sig_figs ? ` (${key.sig_figs} significant figures)` : '';
+  return `${key.value}${tolerance}${unit}${sigFigs}`;
+}
+
+/** Why a key cannot be used for marking, or null when it is fine. */
+export function getNumericKeyProblem(key: NumericAnswerKey | null | undefined): string | null {
+  if (!key || typeof key.value !== 'number' || !Number.isFinite(key.value)) return 'needs a numeric answer';
+  if (!Number.isFinite(key.tolerance) || key.tolerance < 0) return 'needs a tolerance of zero or more';
+  if (key.sig_figs != null && (!Number.isInteger(key.sig_figs) || key.sig_figs < 1 || key.sig_figs > 15)) return 'needs significant figures between 1 and 15';
+  if (key.unit_required && !(key.units || []).some(unit => unit.trim())) return 'requires a unit but lists none';
+  return null;
+}
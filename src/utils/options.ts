@@ -0,0 +1,78 @@
+// src/utils/options.ts
+// Editing helpers for choice options. Answer keys are stored as letters, so every
+// change that moves options also rewrites the key (and pinned positions) to follow
+// the options themselves rather than their old letters.
+import { formatChoiceSet, parseChoiceSet } from './grading.ts';
+import { optionLetter } from './shuffle.ts';
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 10;
+
+export interface ChoiceFields {
+  type: string;
+  options?: string[];
+  correct_answer?: string;
+  pinned_options?: number[] | null;
+}
+
+/**
+ * Applies a new option order. `order[newPosition]` is the option's old index; old
+ * indexes missing from `order` are removed, and a key pointing at them is dropped.
+ */
+function reorderOptions<T extends ChoiceFields>(fields: T, order: number[]): Partial<T> {
+  const options = order.map(oldIndex => fields.options?.[oldIndex] ?? '');
+  const newLetterFor = new Map(order.map((oldIndex, newIndex) => [optionLetter(oldIndex), optionLetter(newIndex)]));
+
+  let correctAnswer = fields.correct_answer;
+  if (fields.type === 'multi-select') {
+    correctAnswer = formatChoiceSet(parseChoiceSet(fields.correct_answer).flatMap(letter => newLetterFor.get(letter) ?? []));
+  } else if (fields.correct_answer) {
+    correctAnswer = newLetterFor.get(fields.correct_answer.trim().toUpperCase()) ?? '';
+  }
+
+  const changes: Partial<ChoiceFields> = { options, correct_answer: correctAnswer };
+  // Comprehension sub-questions cannot pin options, so only carry the field when it exists.
+  if (fields.pinned_options !== undefined) {
+    const pinned = (fields.pinned_options || [])
+      .map(oldIndex => order.indexOf(oldIndex))
+      .filter(newIndex => newIndex !== -1)
+      .sort((a, b) => a - b);
+    changes.pinned_options = pinned.length > 0 ? pinned : null;
+  }
+  return changes as Partial<T>;
+}
+
+export function addOption<T extends ChoiceFields>(fields: T): Partial<T> {
+  const options = fields.options || [];
+  if (options.length >= MAX_OPTIONS) return {};
+  return { options: [...options, ''] } as Partial<T>;
+}
+
+export function removeOption<T extends ChoiceFields>(fields: T, index: number): Partial<T> {
+  const options = fields.options || [];
+  if (options.length <= MIN_OPTIONS) return {};
+  return reorderOptions(fields, options.map((_, i) => i).filter(i => i !== index));
+}
+
+export function moveOption<T extends ChoiceFields>(fields: T, from: number, to: number): Partial<T> {
+  const options = fields.options || [];
+  if (to < 0 || to >= options.length || from === to) return {};
+  const order = options.map((_, i) => i);
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+  return reorderOptions(fields, order);
+}
+
+/** Whether `correct_answer` names at least one existing option. */
+export function hasValidChoiceKey(fields: ChoiceFields): boolean {
+  const letters = fields.type === 'multi-select' ? parseChoiceSet(fields.correct_answer) : [(fields.correct_answer || '').trim().toUpperCase()];
+  const validLetters = (fields.options || []).map((_, i) => optionLetter(i));
+  return letters.length > 0 && letters.every(letter => validLetters.includes(letter));
+}
+
+/** Pinned options keep their position when options are shuffled, e.g. "None of the above". */
+export function togglePinnedOption<T extends ChoiceFields>(fields: T, index: number): Partial<T> {
+  const pinned = fields.pinned_options || [];
+  const next = pinned.includes(index) ? pinned.filter(i => i !== index) : [...pinned, index].sort((a, b) => a - b);
+  return { pinned_options: next.length > 0 ? next : null } as Partial<T>;
+}
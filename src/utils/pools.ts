@@ -0,0 +1,81 @@
+// src/utils/pools.ts
+// Random-draw sections: each section draws a number of questions from the question
+// bank that match its tags. Shared by the client and edge functions, so keep the
+// explicit `.ts` extension below.
+import type { BankQuestion, Question, QuestionPoolSection } from '../../types.ts';
+
+type PoolCandidate = Pick<BankQuestion, 'id' | 'question' | 'topic' | 'difficulty' | 'tags'>;
+
+/**
+ * Whether a bank question belongs to a section's pool. Topic and tags compare
+ * case-insensitively; an empty filter matches everything. Reading comprehension and
+ * cloze are never drawn because their marks come from sub-questions or blanks, which
+ * would make drawn papers worth different totals.
+ */
+export function matchesSection(candidate: PoolCandidate, section: QuestionPoolSection): boolean {
+  if (candidate.question.type === 'reading-comprehension' || candidate.question.type === 'cloze') return false;
+  if (section.topic && (candidate.topic || '').trim().toLowerCase() !== section.topic.trim().toLowerCase()) return false;
+  if (section.difficulty && candidate.difficulty !== section.difficulty) return false;
+  const candidateTags = (candidate.tags || []).map(tag => tag.toLowerCase());
+  return (section.tags || []).every(tag => candidateTags.includes(tag.toLowerCase()));
+}
+
+/** Marks every drawn paper is worth across all sections. */
+export function getSectionsMarks(sections: QuestionPoolSection[] | null | undefined): number {
+  return (sections || []).reduce((sum, s) => sum + s.count * s.marks, 0);
+}
+
+/** Number of questions the sections add to each paper. */
+export function getSectionsQuestionCount(sections: QuestionPoolSection[] | null | undefined): number {
+  return (sections || []).reduce((sum, s) => sum + s.count, 0);
+}
+
+export interface PoolShortfall {
+  section: QuestionPoolSection;
+  available: number;
+}
+
+/**
+ * Sections whose pool cannot supply `count` questions. Sections draw in order and
+ * never reuse a bank question, so an earlier section can use up a later one's pool.
+ */
+export function findPoolShortfalls(sections: QuestionPoolSection[], candidates: PoolCandidate[]): PoolShortfall[] {
+  const used = new Set<string>();
+  const shortfalls: PoolShortfall[] = [];
+  for (const section of sections) {
+    const available = candidates.filter(c => !used.has(c.id) && matchesSection(c, section));
+    available.slice(0, section.count).forEach(c => used.add(c.id));
+    if (available.length < section.count) shortfalls.push({ section, available: available.length });
+  }
+  return shortfalls;
+}
+
+/**
+ * Draws one paper's worth of questions, section by section. Each drawn question
+ * carries its bank ID and section, and is worth the section's marks.
+ */
+export function drawPoolQuestions(sections: QuestionPoolSection[], candidates: PoolCandidate[], random: () => number = Math.random): Question[] {
+  const used = new Set<string>();
+  const drawn: Question[] = [];
+  for (const section of sections) {
+    const pool = candidates.filter(c => !used.has(c.id) && matchesSection(c, section));
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    for (const candidate of pool.slice(0, section.count)) {
+      used.add(candidate.id);
+      const { id: _id, test_id: _testId, ...content } = candidate.question;
+      drawn.push({ ...content, marks: section.marks, bank_question_id: candidate.id, pool_section_id: section.id });
+    }
+  }
+  return drawn;
+}
+
+/**
+ * The questions one student actually sat: the test's fixed questions followed by
+ * the ones drawn for their attempt. Answers and `questionScores` index into this list.
+ */
+export function getPaperQuestions(fixedQuestions: Question[], drawnQuestions: Question[] | null | undefined): Question[] {
+  return drawnQuestions && drawnQuestions.length > 0 ? [...fixedQuestions, ...drawnQuestions] : fixedQuestions;
+}
@@ -0,0 +1,132 @@
+// src/utils/richText.ts
+// Rich text in question text, passages and written answers is a small HTML subset:
+// bold, italic, underline, lists, code blocks and tables. Anything else is dropped by
+// `sanitizeRichText`, which runs on save and again before every render. The AI evaluator
+// only ever sees `richTextToPlainText`. Works on strings alone, so it runs in edge
+// functions too; keep the `.ts` extension on imports of this file.
+
+import type { Question } from '../../types.ts';
+
+export type RichTextFormat = 'bold' | 'italic' | 'underline' | 'bullet-list' | 'numbered-list' | 'code' | 'table';
+
+const ALLOWED_TAGS = ['b', 'strong', 'i', 'em', 'u', 'br', 'p', 'ul', 'ol', 'li', 'pre', 'code', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'sub', 'sup'];
+// Dropped together with everything inside them; an unclosed one takes the rest of the text.
+const REMOVED_WITH_CONTENT = /<(script|style|iframe|object|embed|textarea|title|template|svg|math)\b[^>]*>[\s\S]*?(?:<\/\1\s*>|$)/gi;
+const STRUCTURE_TAGS = 'ul|ol|li|table|thead|tbody|tr|th|td';
+const BLOCK_TAGS = 'ul|ol|table|pre|p';
+
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>|</g;
+
+/**
+ * Keeps allowed tags (without attributes) and the text around them. Other tags are
+ * removed, and a `<` that does not start a tag is escaped, so `$x<y$` is stored as
+ * `$x&lt;y$`. Tags are not balanced here; the browser closes any left open.
+ */
+export function sanitizeRichText(html: unknown): string {
+  if (typeof html !== 'string' || html === '') return '';
+  const sanitized = html.replace(REMOVED_WITH_CONTENT, '').replace(TOKEN_PATTERN, (token, slash: string | undefined, rawName: string | undefined) => {
+    if (token === '<') return '&lt;';
+    const name = rawName?.toLowerCase();
+    if (!name || !ALLOWED_TAGS.includes(name)) return ''; // comments and other tags
+    if (name === 'br') return '<br>';
+    return `<${slash || ''}${name}>`;
+  });
+  return sanitized
+    // Line breaks typed between list items and table cells would show as blank lines.
+    .replace(new RegExp(`(<\\/?(?:${STRUCTURE_TAGS})>)\\s+(?=<\\/?(?:${STRUCTURE_TAGS})>)`, 'g'), '$1')
+    .replace(new RegExp(`\\n?(<(?:${BLOCK_TAGS})>)`, 'g'), '$1')
+    .replace(new RegExp(`(<\\/(?:${BLOCK_TAGS})>)\\n?`, 'g'), '$1');
+}
+
+/** Whether the text uses any formatting, as opposed to being plain text. */
+export const hasRichText = (html: unknown) => typeof html === 'string' && new RegExp(`<\\/?(?:${ALLOWED_TAGS.join('|')})>`, 'i').test(sanitizeRichText(html));
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/** Turns `&lt;`, `&#39;` and the like back into characters. */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Readable plain text for the AI evaluator: list items become "- " or "1. " lines,
+ * code blocks are fenced with ``` and table rows become "| a | b |" lines.
+ */
+export function richTextToPlainText(html: unknown): string {
+  const lists: { ordered: boolean; count: number }[] = [];
+  const text = sanitizeRichText(html).replace(/<(\/?)([a-z]+)>/g, (_, slash: string, name: string) => {
+    const closing = slash === '/';
+    switch (name) {
+      case 'br': return '\n';
+      case 'p': return closing ? '\n\n' : '';
+      case 'ul':
+      case 'ol':
+        if (closing) lists.pop();
+        else lists.push({ ordered: name === 'ol', count: 0 });
+        return '\n';
+      case 'li': {
+        if (closing) return '\n';
+        const list = lists[lists.length - 1];
+        const indent = '  '.repeat(Math.max(0, lists.length - 1));
+        if (!list) return '- ';
+        list.count++;
+        return `${indent}${list.ordered ? `${list.count}.` : '-'} `;
+      }
+      case 'pre': return '\n```\n';
+      case 'tr': return closing ? '|\n' : '';
+      case 'th':
+      case 'td': return closing ? ' ' : '| ';
+      case 'table': return '\n';
+      default: return '';
+    }
+  });
+  return decodeEntities(text).replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const TABLE_TEMPLATE = '<table>\n<tr><th>Heading</th><th>Heading</th></tr>\n<tr><td></td><td></td></tr>\n</table>';
+const INLINE_TAGS: Partial<Record<RichTextFormat, string>> = { bold: 'b', italic: 'i', underline: 'u' };
+
+/**
+ * Applies a toolbar action to the selected part of a textarea's value and returns the new
+ * value with the selection to restore. Lists turn each selected line into an item.
+ */
+export function applyRichTextFormat(value: string, start: number, end: number, format: RichTextFormat): { value: string; selectionStart: number; selectionEnd: number } {
+  const before = value.slice(0, start);
+  const selected = value.slice(start, end);
+  const after = value.slice(end);
+  const replace = (open: string, body: string, close: string) => ({
+    value: `${before}${open}${body}${close}${after}`,
+    selectionStart: start + open.length,
+    selectionEnd: start + open.length + body.length,
+  });
+
+  const inlineTag = INLINE_TAGS[format];
+  if (inlineTag) return replace(`<${inlineTag}>`, selected, `</${inlineTag}>`);
+  if (format === 'code') return replace('<pre><code>', selected, '</code></pre>');
+  if (format === 'table') {
+    const cursor = start + TABLE_TEMPLATE.indexOf('<td>') + '<td>'.length;
+    return { value: `${before}${TABLE_TEMPLATE}${after}`, selectionStart: cursor, selectionEnd: cursor };
+  }
+  const listTag = format === 'numbered-list' ? 'ol' : 'ul';
+  const items = selected.split('\n').filter(line => line.trim() !== '');
+  const body = (items.length > 0 ? items : ['']).map(line => `<li>${line.trim()}</li>`).join('\n');
+  const result = replace(`<${listTag}>\n`, body, `\n</${listTag}>`);
+  // With nothing selected, leave the cursor inside the empty item.
+  if (items.length === 0) result.selectionStart = result.selectionEnd = result.selectionStart + '<li>'.length;
+  return result;
+}
+
+/** Sanitizes the rich-text fields of a question before it is stored. */
+export function sanitizeQuestionRichText<T extends Pick<Question, 'text' | 'passage'>>(question: T): T {
+  return {
+    ...question,
+    text: sanitizeRichText(question.text),
+    ...(typeof question.passage === 'string' ? { passage: sanitizeRichText(question.passage) } : {}),
+  };
+}
@@ -0,0 +1,87 @@
+// src/utils/rubrics.ts
+// Structured rubrics for subjective questions: criteria, each with performance levels
+// worth a number of points. The evaluator (or a teacher) picks one level per criterion,
+// and the question's score is the points earned scaled to its marks. Shared with edge
+// functions; keep the `.ts` extension below.
+import type { CriterionScore, RubricCriterion, RubricLevel } from '../../types.ts';
+
+export const MAX_RUBRIC_CRITERIA = 8;
+export const MAX_RUBRIC_LEVELS = 6;
+
+const DEFAULT_LEVELS: RubricLevel[] = [
+  { label: 'Excellent', points: 3, descriptor: '' },
+  { label: 'Good', points: 2, descriptor: '' },
+  { label: 'Developing', points: 1, descriptor: '' },
+  { label: 'Missing', points: 0, descriptor: '' },
+];
+
+export const createRubricCriterion = (name = ''): RubricCriterion => ({ name, levels: DEFAULT_LEVELS.map(level => ({ ...level })) });
+
+export const createDefaultRubric = (): RubricCriterion[] => [createRubricCriterion('Content'), createRubricCriterion('Organisation')];
+
+// Question types, and comprehension sub-question types, that are scored against a rubric.
+const RUBRIC_TYPES = ['short-answer', 'long-answer', 'audio-response', 'file-upload'];
+export const supportsRubric = (type: string) => RUBRIC_TYPES.includes(type);
+
+export const hasRubric = (rubric: RubricCriterion[] | null | undefined): rubric is RubricCriterion[] => Array.isArray(rubric) && rubric.length > 0;
+
+export const getCriterionMaxPoints = (criterion: RubricCriterion) => Math.max(0, ...criterion.levels.map(level => level.points));
+
+export const getRubricMaxPoints = (rubric: RubricCriterion[]) => rubric.reduce((sum, criterion) => sum + getCriterionMaxPoints(criterion), 0);
+
+/**
+ * Cleans a rubric sent by the browser: trims text, reads points as numbers and orders
+ * each criterion's levels from most to fewest points. Criteria with no name and no
+ * level labels are dropped; returns null when none are left.
+ */
+export function normalizeRubric(raw: unknown): RubricCriterion[] | null {
+  if (!Array.isArray(raw)) return null;
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const rubric = raw.map((criterion: any): RubricCriterion => ({
+    name: text(criterion?.name),
+    levels: (Array.isArray(criterion?.levels) ? criterion.levels : [])
+      .map((level: any) => ({ label: text(level?.label), points: Number(level?.points), descriptor: text(level?.descriptor) }))
+      .filter((level: RubricLevel) => level.label || level.descriptor)
+      .sort((a: RubricLevel, b: RubricLevel) => b.points - a.points),
+  })).filter(criterion => criterion.name || criterion.levels.some(level => level.label));
+  return rubric.length > 0 ? rubric : null;
+}
+
+/** What is wrong with a normalized rubric, phrased to follow "Question 3", or null. */
+export function getRubricProblem(rubric: RubricCriterion[] | null): string | null {
+  if (!rubric) return null;
+  if (rubric.length > MAX_RUBRIC_CRITERIA) return `has more than ${MAX_RUBRIC_CRITERIA} rubric criteria`;
+  for (const [index, criterion] of rubric.entries()) {
+    if (!criterion.name) return `needs a name for rubric criterion ${index + 1}`;
+    const name = `"${criterion.name}"`;
+    if (criterion.levels.length < 2 || criterion.levels.length > MAX_RUBRIC_LEVELS) return `needs between 2 and ${MAX_RUBRIC_LEVELS} levels for rubric criterion ${name}`;
+    if (criterion.levels.some(level => !level.label)) return `needs a label for every level of rubric criterion ${name}`;
+    if (criterion.levels.some(level => !Number.isFinite(level.points) || level.points < 0)) return `needs points of zero or more for every level of rubric criterion ${name}`;
+  }
+  if (getRubricMaxPoints(rubric) <= 0) return 'needs a rubric worth more than zero points';
+  return null;
+}
+
+/**
+ * Turns the level picked for each criterion into scores, taking the points from the
+ * rubric. Returns null unless exactly one valid level was picked for every criterion.
+ */
+export function scoreRubric(rubric: RubricCriterion[], selections: unknown): CriterionScore[] | null {
+  if (!Array.isArray(selections)) return null;
+  const scores = rubric.map((criterion, criterionIndex): CriterionScore | null => {
+    const picked = selections.filter((s: any) => Number(s?.criterion) === criterionIndex);
+    const levelIndex = Number(picked[0]?.level);
+    if (picked.length !== 1 || !Number.isInteger(levelIndex) || !criterion.levels[levelIndex]) return null;
+    const feedback = typeof picked[0].feedback === 'string' && picked[0].feedback.trim() ? picked[0].feedback.trim() : undefined;
+    return { criterion: criterionIndex, level: levelIndex, points: criterion.levels[levelIndex].points, ...(feedback ? { feedback } : {}) };
+  });
+  return scores.every(Boolean) ? scores as CriterionScore[] : null;
+}
+
+/** The question's score for the rubric points earned, scaled to `marks` and rounded to the nearest half mark. */
+export function getRubricMarks(rubric: RubricCriterion[], criterionScores: CriterionScore[], marks: number): number {
+  const maxPoints = getRubricMaxPoints(rubric);
+  if (maxPoints <= 0) return 0;
+  const earned = criterionScores.reduce((sum, score) => sum + score.points, 0);
+  return Math.min(marks, Math.round((earned / maxPoints) * marks * 2) / 2);
+}
@@ -0,0 +1,91 @@
+// src/utils/shuffle.ts
+// Deterministic per-attempt shuffling. The same seed always yields the same layout,
+// so a resumed attempt shows questions and options exactly where they were.
+// Keep the explicit `.ts` extension below; edge functions import this file too.
+import type { Question } from '../../types.ts';
+
+/**
+ * How an attempt presents the test. `questionOrder[displayIndex]` is the canonical
+ * question index, and `optionOrders[canonicalIndex][displayPosition]` is the
+ * canonical option index. Answers are always stored against canonical indexes and
+ * letters, so grading and `questionScores` never see the shuffled order.
+ */
+export interface AttemptLayout {
+  questionOrder: number[];
+  optionOrders: Record<number, number[]>;
+}
+
+interface ShuffleSettings {
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
+// mulberry32: small, fast and good enough for presentation order.
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffledIndexes(length: number, random: () => number): number[] {
+  const indexes = Array.from({ length }, (_, i) => i);
+  for (let i = indexes.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+  return indexes;
+}
+
+// Shuffles option indexes while pinned ones stay put. With no pins this draws exactly
+// like `shuffledIndexes`, so layouts from seeds stored before pinning are unchanged.
+function shuffledOptionIndexes(length: number, pinned: number[] | null | undefined, random: () => number): number[] {
+  const isPinned = (i: number) => (pinned || []).includes(i);
+  const free = Array.from({ length }, (_, i) => i).filter(i => !isPinned(i));
+  const shuffledFree = shuffledIndexes(free.length, random).map(i => free[i]);
+  let next = 0;
+  return Array.from({ length }, (_, i) => (isPinned(i) ? i : shuffledFree[next++]));
+}
+
+// Matching shuffles its right-hand items; ordering shuffles the items to be arranged.
+const SHUFFLED_OPTION_TYPES = ['multiple-choice', 'multi-select', 'matching', 'ordering'];
+
+export function createShuffleSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+/**
+ * Builds the layout for one attempt. Only top-level choice, matching and ordering
+ * options are shuffled, and pinned options keep their place; true/false keeps its
+ * natural order and comprehension sub-questions stay next to their passage.
+ */
+export function buildAttemptLayout(questions: Question[], seed: number | null | undefined, settings: ShuffleSettings): AttemptLayout {
+  const identity = (length: number) => Array.from({ length }, (_, i) => i);
+  const random = createSeededRandom(seed ?? 0);
+  const canShuffle = seed !== null && seed !== undefined;
+
+  const questionOrder = canShuffle && settings.shuffleQuestions
+    ? shuffledIndexes(questions.length, random)
+    : identity(questions.length);
+
+  const optionOrders: Record<number, number[]> = {};
+  questions.forEach((question, index) => {
+    if (!SHUFFLED_OPTION_TYPES.includes(question.type) || !question.options) return;
+    let order = canShuffle && settings.shuffleOptions
+      ? shuffledOptionIndexes(question.options.length, question.pinned_options, random)
+      : identity(question.options.length);
+    // An ordering shown in its correct sequence could be submitted untouched for full marks.
+    if (question.type === 'ordering' && order.length > 1 && order.map(optionLetter).join(',') === question.correct_answer) {
+      order = [...order.slice(1), order[0]];
+    }
+    optionOrders[index] = order;
+  });
+
+  return { questionOrder, optionOrders };
+}
+
+export const optionLetter = (index: number) => String.fromCharCode(65 + index);
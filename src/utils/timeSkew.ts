@@ -13,6 +13,14 @@ export async function initTimeSkew() {
   }
 }
 
+// Adopts a server timestamp received with another response (e.g. `start-attempt`),
+// so the countdown can be synced without a separate round trip to /api/time.
+export function syncTimeSkew(serverTime: number) {
+  if (typeof serverTime === 'number' && Number.isFinite(serverTime)) {
+    skew = serverTime - Date.now();
+  }
+}
+
 export function nowWithSkew(): number {
   return Date.now() + skew;
 }
@@ -0,0 +1,71 @@
+// src/utils/uploads.ts
+// File-upload questions: the student's answer is the path of a file in the private
+// `answer-uploads` bucket, under `<student id>/<test id>/`. Shared with edge functions;
+// keep the `.ts` extension below.
+import type { Question } from '../../types.ts';
+
+export const ANSWER_UPLOAD_BUCKET = 'answer-uploads';
+
+export const FILE_TYPE_CHOICES: { mime: string; label: string; extensions: string }[] = [
+  { mime: 'application/pdf', label: 'PDF', extensions: '.pdf' },
+  { mime: 'image/jpeg', label: 'JPEG photo', extensions: '.jpg,.jpeg' },
+  { mime: 'image/png', label: 'PNG image', extensions: '.png' },
+  { mime: 'image/heic', label: 'HEIC photo (iPhone)', extensions: '.heic' },
+  { mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', label: 'Word document', extensions: '.docx' },
+  { mime: 'text/plain', label: 'Plain text', extensions: '.txt' },
+];
+
+export const DEFAULT_ALLOWED_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+export const DEFAULT_MAX_FILE_SIZE_MB = 10;
+// Matches the bucket's own file size limit.
+export const MAX_FILE_SIZE_MB = 50;
+
+/** The question's accepted MIME types, limited to the known choices. */
+export function getAllowedFileTypes(question: Pick<Question, 'allowed_file_types'>): string[] {
+  const known = (question.allowed_file_types || []).filter(mime => FILE_TYPE_CHOICES.some(choice => choice.mime === mime));
+  return known.length > 0 ? [...new Set(known)] : DEFAULT_ALLOWED_FILE_TYPES;
+}
+
+/** The question's size limit in megabytes, within the allowed range. */
+export function getMaxFileSizeMb(question: Pick<Question, 'max_file_size_mb'>): number {
+  const megabytes = Number(question.max_file_size_mb) || DEFAULT_MAX_FILE_SIZE_MB;
+  return Math.min(MAX_FILE_SIZE_MB, Math.max(1, Math.round(megabytes)));
+}
+
+/** "PDF, JPEG photo" style list of the accepted types. */
+export const describeAllowedFileTypes = (question: Pick<Question, 'allowed_file_types'>) =>
+  getAllowedFileTypes(question).map(mime => FILE_TYPE_CHOICES.find(choice => choice.mime === mime)?.label ?? mime).join(', ');
+
+/** The `accept` attribute for the question's file input. */
+export const getAcceptAttribute = (question: Pick<Question, 'allowed_file_types'>) =>
+  getAllowedFileTypes(question).flatMap(mime => [mime, FILE_TYPE_CHOICES.find(choice => choice.mime === mime)?.extensions ?? '']).filter(Boolean).join(',');
+
+/** Why a file cannot be submitted for the question, or null when it can. */
+export function getFileUploadProblem(question: Pick<Question, 'allowed_file_types' | 'max_file_size_mb'>, file: { type: string; size: number }): string | null {
+  const allowed = getAllowedFileTypes(question);
+  if (!allowed.includes(file.type)) {
+    return `This file type is not accepted. Upload one of: ${describeAllowedFileTypes(question)}.`;
+  }
+  const maxMb = getMaxFileSizeMb(question);
+  if (file.size > maxMb * 1024 * 1024) return `This file is ${formatFileSize(file.size)}; the limit is ${maxMb} MB.`;
+  return null;
+}
+
+/** Where a student's files for a test are uploaded. */
+export const getUploadFolder = (studentId: string, testId: string) => `${studentId}/${testId}`;
+
+/** Whether an answer is a path inside the student's upload folder for the test. */
+export const isOwnUploadPath = (path: unknown, studentId: string, testId: string): path is string =>
+  typeof path === 'string' && path.startsWith(`${getUploadFolder(studentId, testId)}/`) && !path.includes('..');
+
+/** The name the student's file had, without its folder and unique prefix. */
+export const getUploadFileName = (path: string) => path.split('/').pop()?.replace(/^[0-9a-f-]{36}-/i, '') || path;
+
+export const isImageUpload = (path: string) => /\.(png|jpe?g|gif|webp)$/i.test(path);
+export const isPdfUpload = (path: string) => /\.pdf$/i.test(path);
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
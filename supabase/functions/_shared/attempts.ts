@@ -0,0 +1,28 @@
+// supabase/functions/_shared/attempts.ts
+// Attempt history shared by `start-attempt` and `submit-test`, which both check the test's attempt limits.
+import type { TestResult } from '../../../types.ts';
+
+/**
+ * A student's previous attempts at a test: every stored submission, plus every started
+ * attempt that was never submitted (so abandoning an attempt does not give it back).
+ * `excludeAttemptId` leaves out the attempt being submitted.
+ */
+export async function getPreviousAttempts(adminClient: any, testId: string, studentId: string, excludeAttemptId?: string): Promise<Pick<TestResult, 'submitted_at'>[]> {
+  const { data: results, error: resultsError } = await adminClient
+    .from('test_results')
+    .select('submitted_at')
+    .eq('test_id', testId)
+    .eq('student_id', studentId);
+  if (resultsError) throw resultsError;
+
+  const { data: unsubmitted, error: unsubmittedError } = await adminClient
+    .from('test_attempts')
+    .select('id')
+    .eq('test_id', testId)
+    .eq('student_id', studentId)
+    .is('submitted_at', null);
+  if (unsubmittedError) throw unsubmittedError;
+
+  const abandoned = (unsubmitted || []).filter((row: { id: string }) => row.id !== excludeAttemptId).map(() => ({}));
+  return [...(results || []), ...abandoned];
+}
@@ -0,0 +1,35 @@
+// supabase/functions/_shared/classes.ts
+// Roster lookups shared by the functions that decide which tests a student may see or submit.
+
+// Maps each test ID to the classes it is assigned to. Tests with no assignment are absent.
+export async function getTestClassIds(adminClient: any, testIds: string[]): Promise<Map<string, string[]>> {
+  const classIdsByTestId = new Map<string, string[]>();
+  if (testIds.length === 0) return classIdsByTestId;
+
+  const { data, error } = await adminClient
+    .from('test_classes')
+    .select('test_id, class_id')
+    .in('test_id', testIds);
+  if (error) throw error;
+
+  for (const row of data || []) {
+    if (!classIdsByTestId.has(row.test_id)) classIdsByTestId.set(row.test_id, []);
+    classIdsByTestId.get(row.test_id)!.push(row.class_id);
+  }
+  return classIdsByTestId;
+}
+
+export async function getEnrolledClassIds(adminClient: any, studentId: string): Promise<Set<string>> {
+  const { data, error } = await adminClient
+    .from('class_enrolments')
+    .select('class_id')
+    .eq('student_id', studentId);
+  if (error) throw error;
+  return new Set((data || []).map((row: { class_id: string }) => row.class_id));
+}
+
+// Unassigned tests stay open to every student, as they were before rosters existed.
+export function isAssignedToStudent(assignedClassIds: string[] | undefined, enrolledClassIds: Set<string>): boolean {
+  if (!assignedClassIds || assignedClassIds.length === 0) return true;
+  return assignedClassIds.some(classId => enrolledClassIds.has(classId));
+}
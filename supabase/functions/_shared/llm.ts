@@ -0,0 +1,116 @@
+// supabase/functions/_shared/llm.ts
+// Provider chain shared by the AI edge functions: Gemini first, then Groq, then OpenAI.
+// FIX: Import GenerateContentResponse to correctly type the API response.
+import { GoogleGenAI, GenerateContentResponse } from "https://esm.sh/@google/genai@^1.27.0";
+
+// Fix: Declare Deno to address "Cannot find name 'Deno'" error in TypeScript environments that don't have Deno types globally available.
+declare const Deno: any;
+
+// Minimal types for fallback API providers to avoid using `any`
+interface ApiChoice { message: { content: string }; }
+interface GroqApiResponse { choices: ApiChoice[]; }
+interface OpenAiApiResponse { choices: ApiChoice[]; }
+
+// --- NEW: Exponential Backoff Retry Helper ---
+async function withRetry<T>(fn: () => Promise<T>, retries = 3): Promise<T> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (i === retries - 1) throw err; // Re-throw the last error
+      const wait = 1000 * Math.pow(2, i) + Math.random() * 1000; // 1s, 2s, 4s + jitter
+      console.warn(`Retry attempt ${i + 1} of ${retries} failed. Waiting ${wait.toFixed(0)}ms before next attempt. Error:`, err.message);
+      await new Promise(res => setTimeout(res, wait));
+    }
+  }
+  throw new Error("All retries failed.");
+}
+
+export async function generateWithFallback(prompt: string, schema: any, primaryModel: 'gemini-flash-latest' | 'gemini-2.5-pro', proConfig: any = {}) {
+  // --- 1. Try Gemini First ---
+  const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
+  if (geminiApiKey) {
+    try {
+      console.log(`Attempting Gemini with model ${primaryModel}`);
+      const ai = new GoogleGenAI({ apiKey: geminiApiKey });
+      const payload = {
+        model: primaryModel,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          ...proConfig
+        }
+      };
+      // FIX: Explicitly type the awaited response to resolve the property 'text' does not exist error.
+      const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent(payload));
+      console.log(`Success with Gemini.`);
+      return response.text;
+    } catch (error) {
+      console.warn(`Gemini failed:`, error.message);
+    }
+  } else {
+    console.log("GEMINI_API_KEY not found. Skipping Gemini.");
+  }
+  console.log("Gemini failed or was skipped. Falling back to Groq.");
+
+  // --- 2. Fallback to Groq ---
+  const groqApiKey = Deno.env.get('GROQ_API_KEY');
+  if (groqApiKey) {
+    try {
+      console.log("Attempting Groq...");
+      const groqPrompt = `${prompt}\n\nIMPORTANT: Respond with a single, raw JSON object that strictly conforms to the provided JSON schema. Do not add any commentary or markdown formatting. The JSON schema is: ${JSON.stringify(schema)}`;
+      const response = await withRetry(() => fetch("https://api.groq.com/openai/v1/chat/completions", {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${groqApiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: "llama3-8b-8192",
+          messages: [{ role: "user", content: groqPrompt }],
+          response_format: { type: "json_object" }
+        })
+      }));
+      if (!response.ok) throw new Error(`Groq API error (${response.status}): ${await response.text()}`);
+      const data = await response.json() as GroqApiResponse;
+      console.log("Success with Groq.");
+      return data.choices[0].message.content;
+    } catch (error) {
+      console.warn("Groq fallback failed:", error.message);
+    }
+  } else {
+    console.log("GROQ_API_KEY not found. Skipping Groq.");
+  }
+  console.log("Groq failed or was skipped. Falling back to OpenAI.");
+
+  // --- 3. Fallback to OpenAI ---
+  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+  if (openaiApiKey) {
+    try {
+      console.log("Attempting OpenAI...");
+      const openaiPrompt = `${prompt}\n\nIMPORTANT: Respond with a single, raw JSON object that strictly conforms to the provided JSON schema. Do not add any commentary or markdown formatting. The JSON schema is: ${JSON.stringify(schema)}`;
+      const response = await withRetry(() => fetch("https://api.openai.com/v1/chat/completions", {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${openaiApiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: "gpt-4o-mini",
+          messages: [{ role: "user", content: openaiPrompt }],
+          response_format: { type: "json_object" }
+        })
+      }));
+      if (!response.ok) throw new Error(`OpenAI API error (${response.status}): ${await response.text()}`);
+      const data = await response.json() as OpenAiApiResponse;
+      console.log("Success with OpenAI.");
+      return data.choices[0].message.content;
+    } catch (error) {
+      console.warn("OpenAI fallback failed:", error.message);
+    }
+  } else {
+    console.log("OPENAI_API_KEY not found. Skipping OpenAI.");
+  }
+  throw new Error('All API providers (Gemini, Groq, OpenAI) failed. Please check your keys, billing, and API status.');
+}
@@ -0,0 +1,170 @@
+// supabase/functions/_shared/questions.ts
+// Question helpers shared by the functions that save, serve and grade questions.
+import { MAX_OPTIONS, MIN_OPTIONS } from '../../../src/utils/options.ts';
+import { parseChoiceSet } from '../../../src/utils/grading.ts';
+import { optionLetter } from '../../../src/utils/shuffle.ts';
+import { countClozeBlanks, getClozeBlankProblem, getClozeMarks } from '../../../src/utils/cloze.ts';
+import { parseLetterSequence, scrambleArrangement } from '../../../src/utils/arrangement.ts';
+import { getNumericKeyProblem } from '../../../src/utils/numeric.ts';
+import { sanitizeQuestionRichText } from '../../../src/utils/richText.ts';
+import { getRecordingLimit } from '../../../src/utils/audio.ts';
+import { getAllowedFileTypes, getMaxFileSizeMb } from '../../../src/utils/uploads.ts';
+import { getRubricProblem, normalizeRubric, supportsRubric } from '../../../src/utils/rubrics.ts';
+
+// Strips answer keys, marking schemes and sample answers, including cloze and numeric keys. Comprehension
+// sub-questions live in a JSON column, so the keys nested inside them are removed here too.
+export function sanitizeQuestionForStudent(question: any) {
+  const { correct_answer, sample_answer, marking_scheme, cloze_blanks, numeric_answer, ...rest } = question;
+  return {
+    ...rest,
+    comprehension_questions: Array.isArray(question.comprehension_questions)
+      ? question.comprehension_questions.map(({ correct_answer, sample_answer, marking_scheme, ...cq }: any) => cq)
+      : question.comprehension_questions,
+  };
+}
+
+// The bank questions a test by `ownerId` may draw from: the owner's own and any shared ones.
+export async function getPoolCandidates(adminClient: any, ownerId: string) {
+  const { data, error } = await adminClient
+    .from('question_bank')
+    .select('id, question, topic, difficulty, tags')
+    .or(`owner_id.eq.${ownerId},is_shared.eq.true`);
+  if (error) throw error;
+  return (data || []).map((row: any) => ({ ...row, tags: row.tags || [] }));
+}
+
+// Question fields added after `create_or_update_test` was written. The RPC does not copy
+// them, so `writeExtendedQuestionFields` sets them on the inserted rows afterwards, along
+// with each question's `position` in the test.
+export const EXTENDED_QUESTION_FIELDS = ['multi_select_scoring', 'pinned_options', 'cloze_blanks', 'cloze_ai_fallback', 'match_prompts', 'arrangement_scoring', 'numeric_answer', 'max_recording_seconds', 'audio_ai_scoring', 'allowed_file_types', 'max_file_size_mb', 'rubric', 'bank_question_id'];
+
+// Identifies a saved row by the content the RPC does copy; IDs are regenerated on save.
+const questionKey = (q: any) => JSON.stringify([q.type, q.text ?? '', q.options ?? null, q.correct_answer ?? null, q.passage ?? null]);
+
+export async function writeExtendedQuestionFields(adminClient: any, testId: string, questions: any[]) {
+  if (questions.length === 0) return;
+
+  const { data: rows, error } = await adminClient
+    .from('questions')
+    .select('id, type, text, options, correct_answer, passage')
+    .eq('test_id', testId);
+  if (error) throw error;
+
+  const unmatched = [...(rows || [])];
+  for (const [position, question] of questions.entries()) {
+    const rowIndex = unmatched.findIndex(row => questionKey(row) === questionKey(question));
+    // An unmatched row would keep a null position and read back out of order, misaligning answers.
+    if (rowIndex === -1) throw new Error(`Question ${position + 1} could not be matched to its saved row, so its settings and position were not stored. Please save the test again.`);
+    const [row] = unmatched.splice(rowIndex, 1);
+    const extras = Object.fromEntries(EXTENDED_QUESTION_FIELDS.map(field => [field, question[field] ?? null]));
+    const { error: updateError } = await adminClient.from('questions').update({ ...extras, position }).eq('id', row.id);
+    if (updateError) throw updateError;
+  }
+}
+
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1);
+
+// Choice, matching and ordering questions, including comprehension sub-questions, need between MIN_OPTIONS and MAX_OPTIONS options.
+const hasValidOptionCount = (item: any) => !['multiple-choice', 'multi-select', 'matching', 'ordering'].includes(item?.type)
+  || (Array.isArray(item.options) && item.options.length >= MIN_OPTIONS && item.options.length <= MAX_OPTIONS);
+
+// What is wrong with a choice item's answer key, phrased to follow "Question 3", or null.
+function getChoiceKeyProblem(item: any): string | null {
+  const letters = (item.options || []).map((_: unknown, i: number) => optionLetter(i));
+  if (item.type === 'multiple-choice' && !letters.includes(String(item.correct_answer ?? '').trim().toUpperCase())) return 'needs a correct option';
+  if (item.type === 'multi-select') {
+    const key = parseChoiceSet(item.correct_answer);
+    if (key.length === 0 || key.some(letter => !letters.includes(letter))) return 'needs at least one correct option';
+  }
+  if (item.type === 'true-false' && !['TRUE', 'FALSE'].includes(String(item.correct_answer ?? '').trim().toUpperCase())) return 'needs an answer of True or False';
+  return null;
+}
+
+/**
+ * Validates one question and returns it as it should be stored. `save-test` runs this on
+ * every question of a test and `save-bank-question` on bank questions, which random draws
+ * hand to students as stored. Throws an Error starting with `label` (e.g. "Question 3")
+ * when the question cannot be saved.
+ */
+export function normalizeQuestion(question: any, label: string): any {
+  if (!hasValidOptionCount(question) || !(question.comprehension_questions || []).every(hasValidOptionCount)) {
+    throw new Error(`${label} must have between ${MIN_OPTIONS} and ${MAX_OPTIONS} options.`);
+  }
+  const keyProblem = getChoiceKeyProblem(question);
+  if (keyProblem) throw new Error(`${label} ${keyProblem}.`);
+  (question.comprehension_questions || []).forEach((cq: any, cqIndex: number) => {
+    const problem = getChoiceKeyProblem(cq);
+    if (problem) throw new Error(`Sub-question ${cqIndex + 1} of ${lowerFirst(label)} ${problem}.`);
+  });
+
+  // Question text and passages are rich text; only the allowed formatting is stored.
+  let q = sanitizeQuestionRichText(question);
+
+  // Cloze questions need a usable key for every blank in their text, and are worth the sum of their blanks.
+  if (q.type === 'cloze') {
+    const blanks = (Array.isArray(q.cloze_blanks) ? q.cloze_blanks : []).map((blank: any) => ({
+      accepted_answers: Array.isArray(blank?.accepted_answers) ? blank.accepted_answers.filter((a: unknown) => typeof a === 'string' && a.trim()).map((a: string) => a.trim()) : [],
+      pattern: typeof blank?.pattern === 'string' && blank.pattern.trim() ? blank.pattern.trim() : null,
+      marks: Math.max(0, Number(blank?.marks) || 0),
+    }));
+    if (blanks.length === 0 || blanks.length !== countClozeBlanks(q.text)) throw new Error(`${label} needs an answer key for each of its blanks.`);
+    blanks.forEach((blank: any, blankIndex: number) => {
+      const problem = getClozeBlankProblem(blank);
+      if (problem) throw new Error(`Blank ${blankIndex + 1} of ${lowerFirst(label)} ${problem}.`);
+    });
+    q = { ...q, cloze_blanks: blanks, marks: getClozeMarks(blanks), cloze_ai_fallback: q.cloze_ai_fallback === true };
+  }
+
+  // Numeric keys are marked locally, so they must be complete.
+  if (q.type === 'numeric') {
+    const raw = q.numeric_answer || {};
+    const numericAnswer = {
+      value: typeof raw.value === 'number' ? raw.value : Number.NaN,
+      tolerance: Number(raw.tolerance) || 0,
+      tolerance_type: raw.tolerance_type === 'relative' ? 'relative' : 'absolute',
+      units: Array.isArray(raw.units) ? raw.units.filter((u: unknown) => typeof u === 'string' && u.trim()).map((u: string) => u.trim()) : [],
+      unit_required: raw.unit_required === true,
+      sig_figs: raw.sig_figs == null ? null : Number(raw.sig_figs),
+    };
+    const problem = getNumericKeyProblem(numericAnswer);
+    if (problem) throw new Error(`${label} ${problem}.`);
+    q = { ...q, numeric_answer: numericAnswer };
+  }
+
+  // Audio responses keep a recording limit within range; other types carry no audio settings.
+  q = q.type === 'audio-response'
+    ? { ...q, max_recording_seconds: getRecordingLimit(q), audio_ai_scoring: q.audio_ai_scoring === true }
+    : { ...q, max_recording_seconds: null, audio_ai_scoring: null };
+
+  // Likewise, file uploads keep known file types and a size limit within range.
+  q = q.type === 'file-upload'
+    ? { ...q, allowed_file_types: getAllowedFileTypes(q), max_file_size_mb: getMaxFileSizeMb(q) }
+    : { ...q, allowed_file_types: null, max_file_size_mb: null };
+
+  // Rubrics apply to written, spoken and uploaded answers, including comprehension short answers.
+  const withRubric = (item: any, itemLabel: string) => {
+    const rubric = supportsRubric(item?.type) ? normalizeRubric(item.rubric) : null;
+    const problem = getRubricProblem(rubric);
+    if (problem) throw new Error(`${itemLabel} ${problem}.`);
+    return { ...item, rubric };
+  };
+  q = {
+    ...withRubric(q, label),
+    ...(Array.isArray(q.comprehension_questions)
+      ? { comprehension_questions: q.comprehension_questions.map((cq: any, cqIndex: number) => withRubric(cq, `Sub-question ${cqIndex + 1} of ${lowerFirst(label)}`)) }
+      : {}),
+  };
+
+  // Matching needs a partner for every prompt. Both arrangement types are stored with their
+  // options scrambled, since students receive the options in stored order.
+  if (q.type === 'matching' || q.type === 'ordering') {
+    const key = parseLetterSequence(q.correct_answer);
+    const expectedLength = q.type === 'matching' ? (q.match_prompts || []).length : q.options.length;
+    if (expectedLength < MIN_OPTIONS || expectedLength > MAX_OPTIONS || key.length !== expectedLength || key.some(letter => !letter)) {
+      throw new Error(q.type === 'matching' ? `${label} needs between ${MIN_OPTIONS} and ${MAX_OPTIONS} prompts, each with a match.` : `${label} has an invalid order.`);
+    }
+    q = scrambleArrangement(q);
+  }
+
+  return q;
+}
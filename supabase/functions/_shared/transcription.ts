@@ -0,0 +1,81 @@
+// supabase/functions/_shared/transcription.ts
+// Speech-to-text for audio-response questions that opt into AI scoring. The provider is
+// chosen with TRANSCRIPTION_PROVIDER:
+// - 'gemini' (the default when GEMINI_API_KEY is set) sends the recording to Gemini;
+// - 'stub' returns TRANSCRIPTION_STUB_TEXT without calling anything, for local testing;
+// - 'none' (the default otherwise) transcribes nothing, so a teacher grades every recording.
+// Add a provider by adding an entry to TRANSCRIBERS.
+import { GoogleGenAI, GenerateContentResponse } from "https://esm.sh/@google/genai@^1.27.0";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { Question } from '../../../types.ts';
+import type { StudentAnswer } from '../../../src/utils/grading.ts';
+
+declare const Deno: any;
+
+type Transcriber = (audio: Blob) => Promise<string>;
+
+const TRANSCRIBERS: Record<string, Transcriber> = {
+  stub: async () => Deno.env.get('TRANSCRIPTION_STUB_TEXT') || 'This is a stub transcript of the recorded answer.',
+  gemini: async (audio) => {
+    const apiKey = Deno.env.get('GEMINI_API_KEY');
+    if (!apiKey) throw new Error('GEMINI_API_KEY is not set.');
+    const ai = new GoogleGenAI({ apiKey });
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: 'gemini-flash-latest',
+      contents: [{
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType: audio.type || 'audio/webm', data: encodeBase64(new Uint8Array(await audio.arrayBuffer())) } },
+          { text: 'Transcribe this spoken answer word for word in the language it is spoken in. Keep hesitations and mistakes; do not correct grammar. Reply with the transcript only.' },
+        ],
+      }],
+    });
+    return response.text ?? '';
+  },
+};
+
+function getTranscriber(): Transcriber | null {
+  const provider = Deno.env.get('TRANSCRIPTION_PROVIDER') || (Deno.env.get('GEMINI_API_KEY') ? 'gemini' : 'none');
+  return TRANSCRIBERS[provider] ?? null;
+}
+
+/**
+ * The storage path of a recording in `userId`'s folder of the public `media` bucket, or
+ * null when the URL points anywhere else. Recordings are fetched through this project's
+ * own storage URL, never a host chosen by the browser.
+ */
+export function getOwnRecordingPath(url: unknown, userId: string): string | null {
+  if (typeof url !== 'string') return null;
+  try {
+    const { pathname } = new URL(url);
+    return pathname.startsWith(`/storage/v1/object/public/media/${userId}/`) && !pathname.includes('..') ? pathname : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Transcripts of the recordings for audio-response questions with `audio_ai_scoring`,
+ * keyed by question index. A recording that cannot be fetched or transcribed is left
+ * out and falls back to teacher grading.
+ */
+export async function transcribeAudioAnswers(questions: Question[], answers: StudentAnswer[], supabaseUrl: string, userId: string): Promise<Record<number, string>> {
+  const transcribe = getTranscriber();
+  const transcripts: Record<number, string> = {};
+  if (!transcribe) return transcripts;
+
+  for (const [index, question] of questions.entries()) {
+    if (question.type !== 'audio-response' || !question.audio_ai_scoring) continue;
+    const path = getOwnRecordingPath(answers[index], userId);
+    if (!path) continue;
+    try {
+      const response = await fetch(`${supabaseUrl}${path}`);
+      if (!response.ok) throw new Error(`Recording download failed (${response.status}).`);
+      const transcript = (await transcribe(await response.blob())).trim();
+      if (transcript) transcripts[index] = transcript;
+    } catch (error) {
+      console.warn(`Transcription of question ${index + 1} failed; leaving it for the teacher:`, error.message);
+    }
+  }
+  return transcripts;
+}
@@ -124,8 +124,9 @@ serve(async (req) => {
 
         if (tests && tests.length > 0) {
             const testIds = tests.map(t => t.id);
-            // Delete all results and questions for the tests created by this user.
+            // Delete all results, bank usage and questions for the tests created by this user.
             await adminClient.from('test_results').delete().in('test_id', testIds);
+            await adminClient.from('question_bank_usage').delete().in('test_id', testIds);
             await adminClient.from('questions').delete().in('test_id', testIds);
             // Delete the tests themselves.
             const { error: deleteTestsError } = await adminClient.from('tests').delete().in('id', testIds);
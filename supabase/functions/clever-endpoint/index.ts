@@ -1,9 +1,10 @@
 
 // supabase/functions/clever-endpoint/index.ts
-// FIX: Import GenerateContentResponse to correctly type the API response.
-import { GoogleGenAI, Type, GenerateContentResponse } from "https://esm.sh/@google/genai@^1.27.0";
+import { Type } from "https://esm.sh/@google/genai@^1.27.0";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { generateWithFallback } from '../_shared/llm.ts';
+import { hasMath } from '../../../src/utils/math.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,12 +15,6 @@ const corsHeaders = {
 // Fix: Declare Deno to address "Cannot find name 'Deno'" error in TypeScript environments that don't have Deno types globally available.
 declare const Deno: any;
 
-// Minimal types for fallback API providers to avoid using `any`
-interface ApiChoice { message: { content: string }; }
-interface GroqApiResponse { choices: ApiChoice[]; }
-interface OpenAiApiResponse { choices: ApiChoice[]; }
-
-
 const evaluationSchema = {
   type: Type.OBJECT,
   properties: {
@@ -56,6 +51,31 @@ const evaluationSchema = {
           feedback: {
             type: Type.STRING,
             description: "Specific, point-by-point feedback for the student's answer to this question. Praise what they did right first. Then, pinpoint specific mistakes in grammar, spelling, punctuation, or factual accuracy. Use bullet points for clarity."
+          },
+          criterionScores: {
+            type: Type.ARRAY,
+            description: "Only for questions with a top-level 'rubric': one entry per rubric criterion, in the order listed. Omit for other questions.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                criterion: { type: Type.INTEGER, description: "0-based index of the criterion in the question's 'rubric'." },
+                level: { type: Type.INTEGER, description: "0-based index, within that criterion's 'levels', of the level whose descriptor best matches the answer." },
+                feedback: { type: Type.STRING, description: "One sentence explaining why this level was chosen." }
+              },
+              required: ["criterion", "level", "feedback"]
+            }
+          },
+          subScores: {
+            type: Type.ARRAY,
+            description: "Only for reading-comprehension questions: one entry per item in its 'comprehension_questions', in order. Omit for other questions.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                score: { type: Type.NUMBER, description: "Marks awarded for this sub-question, at most its 'marks'." },
+                feedback: { type: Type.STRING, description: "Feedback on the answer to this sub-question alone, in the same style as the question feedback." }
+              },
+              required: ["score", "feedback"]
+            }
           }
         },
         required: [
@@ -75,109 +95,27 @@ const evaluationSchema = {
   ]
 };
 
-// --- NEW: Exponential Backoff Retry Helper ---
-async function withRetry<T>(fn: () => Promise<T>, retries = 3): Promise<T> {
-  for (let i = 0; i < retries; i++) {
-    try {
-      return await fn();
-    } catch (err) {
-      if (i === retries - 1) throw err; // Re-throw the last error
-      const wait = 1000 * Math.pow(2, i) + Math.random() * 1000; // 1s, 2s, 4s + jitter
-      console.warn(`Retry attempt ${i + 1} of ${retries} failed. Waiting ${wait.toFixed(0)}ms before next attempt. Error:`, err.message);
-      await new Promise(res => setTimeout(res, wait));
-    }
-  }
-  throw new Error("All retries failed.");
-}
-
-async function generateWithFallback(prompt: string, schema: any, primaryModel: 'gemini-flash-latest' | 'gemini-2.5-pro', proConfig: any = {}) {
-  // --- 1. Try Gemini First ---
-  const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
-  if (geminiApiKey) {
-    try {
-      console.log(`Attempting Gemini with model ${primaryModel}`);
-      const ai = new GoogleGenAI({ apiKey: geminiApiKey });
-      const payload = {
-        model: primaryModel,
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: schema,
-          ...proConfig
-        }
-      };
-      // FIX: Explicitly type the awaited response to resolve the property 'text' does not exist error.
-      const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent(payload));
-      console.log(`Success with Gemini.`);
-      return response.text;
-    } catch (error) {
-      console.warn(`Gemini failed:`, error.message);
-    }
-  } else {
-    console.log("GEMINI_API_KEY not found. Skipping Gemini.");
-  }
-  console.log("Gemini failed or was skipped. Falling back to Groq.");
-
-  // --- 2. Fallback to Groq ---
-  const groqApiKey = Deno.env.get('GROQ_API_KEY');
-  if (groqApiKey) {
-    try {
-      console.log("Attempting Groq...");
-      const groqPrompt = `${prompt}\n\nIMPORTANT: Respond with a single, raw JSON object that strictly conforms to the provided JSON schema. Do not add any commentary or markdown formatting. The JSON schema is: ${JSON.stringify(schema)}`;
-      const response = await withRetry(() => fetch("https://api.groq.com/openai/v1/chat/completions", {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${groqApiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "llama3-8b-8192",
-          messages: [{ role: "user", content: groqPrompt }],
-          response_format: { type: "json_object" }
-        })
-      }));
-      if (!response.ok) throw new Error(`Groq API error (${response.status}): ${await response.text()}`);
-      const data = await response.json() as GroqApiResponse;
-      console.log("Success with Groq.");
-      return data.choices[0].message.content;
-    } catch (error) {
-      console.warn("Groq fallback failed:", error.message);
-    }
-  } else {
-    console.log("GROQ_API_KEY not found. Skipping Groq.");
-  }
-  console.log("Groq failed or was skipped. Falling back to OpenAI.");
-
-  // --- 3. Fallback to OpenAI ---
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (openaiApiKey) {
-    try {
-      console.log("Attempting OpenAI...");
-      const openaiPrompt = `${prompt}\n\nIMPORTANT: Respond with a single, raw JSON object that strictly conforms to the provided JSON schema. Do not add any commentary or markdown formatting. The JSON schema is: ${JSON.stringify(schema)}`;
-      const response = await withRetry(() => fetch("https://api.openai.com/v1/chat/completions", {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [{ role: "user", content: openaiPrompt }],
-          response_format: { type: "json_object" }
-        })
-      }));
-      if (!response.ok) throw new Error(`OpenAI API error (${response.status}): ${await response.text()}`);
-      const data = await response.json() as OpenAiApiResponse;
-      console.log("Success with OpenAI.");
-      return data.choices[0].message.content;
-    } catch (error) {
-      console.warn("OpenAI fallback failed:", error.message);
-    }
-  } else {
-    console.log("OPENAI_API_KEY not found. Skipping OpenAI.");
-  }
-  throw new Error('All API providers (Gemini, Groq, OpenAI) failed. Please check your keys, billing, and API status.');
-}
+// Added to the prompt when the test or the answers contain LaTeX, so working and notation
+// are judged as mathematics rather than prose.
+const MATH_EVALUATION_GUIDANCE = `
+      **Mathematical Content:**
+      - Text between single dollar signs ($...$) or double dollar signs ($$...$$) is LaTeX math. Read it as the formula it renders to, e.g. '$\\frac{1}{2}$' is one half.
+      - Students may write math as LaTeX, as plain text (x^2, sqrt(2), 1/2) or in words. Treat every notation as equal and never deduct marks for the notation chosen.
+      - Accept answers that are mathematically equivalent to the sample answer (e.g. '$\\frac{1}{2}$', '0.5' and '2^{-1}'; '$2(x+1)$' and '$2x+2$') unless the marking scheme asks for a particular form, such as simplest form or a number of decimal places.
+      - Check each step of any working shown. Award method marks for correct steps even when the final answer is wrong, and name the first step where an error was made.
+      - Do not apply the spelling, punctuation and capitalization checks to formulas, symbols or variable names.
+      - When writing formulas in feedback, wrap them in $...$ (e.g. '$x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}$') so they display as math to the student.
+`;
+
+// Added to the prompt when any question or sub-question has a structured rubric. The
+// levels picked for a question's own rubric decide its score (see mergeEvaluation).
+const RUBRIC_EVALUATION_GUIDANCE = `
+      **Rubrics:**
+      - A 'rubric' is a list of criteria, each with 'levels' ordered from best to worst. Each level has a 'label', the 'points' it is worth and a 'descriptor' of the work that earns it.
+      - Where a question or sub-question has a rubric, grade against the rubric instead of the 'markingScheme': for every criterion, choose the single level whose descriptor best fits the answer. Judge writing errors only through a criterion that covers them.
+      - For a question's own rubric, report each choice in 'criterionScores' and set 'score' to the sum of the chosen levels' points scaled to the question's marks.
+      - For a sub-question's rubric, use the chosen levels to decide that sub-question's marks and name them in its 'subScores' feedback.
+`;
 
 // Function to convert ArrayBuffer to hex string
 function bufferToHex(buffer: ArrayBuffer): string {
@@ -218,6 +156,7 @@ serve(async (req) => {
     console.log("Cache miss. Proceeding with AI evaluation.");
     // --- End Caching Logic ---
 
+    const hasRubric = (questions || []).some((q: any) => q?.rubric?.length || (q?.comprehension_questions || []).some((cq: any) => cq?.rubric?.length));
     const prompt = `
       You are an expert AI Test Evaluator. Your persona is that of a meticulous, strict, yet fair and encouraging teacher. Your primary objective is to provide an exhaustive and highly detailed evaluation of a student's test answers to facilitate deep learning.
 
@@ -236,11 +175,12 @@ serve(async (req) => {
       **Grading:**
       - Award marks strictly based on the provided 'markingScheme' and 'sampleAnswer'. For reading comprehension sub-questions, you MUST use the 'markingScheme' provided within that specific sub-question if it exists.
       - **Deduct marks systematically for every single error** you identify in the categories above. The final score for a question should reflect both content accuracy and the quality of the writing.
-
+${hasRubric ? RUBRIC_EVALUATION_GUIDANCE : ''}
       **Formatting and Tone:**
       - For each question's feedback, **ALWAYS start with one encouraging sentence** about what the student did well.
       - After the positive remark, create a bulleted list (using '*') detailing **every single mistake** found.
       - Maintain an encouraging but precise tone throughout.
+${hasMath(JSON.stringify({ questions, answers })) ? MATH_EVALUATION_GUIDANCE : ''}
 
       Here is the test and the student's answers:
       ${JSON.stringify({
@@ -251,8 +191,9 @@ serve(async (req) => {
       **Final Output Instructions (Strictly follow):**
       - Your response MUST be a single JSON object conforming to the provided schema.
       - The 'questionScores' array MUST have the exact same number of items as there are questions.
-      - For reading comprehension, combine feedback for all sub-questions into the single feedback entry for the parent question. The total score is the sum of marks for the sub-questions.
+      - For reading comprehension, return 'subScores' with one entry per sub-question in 'comprehension_questions', in order, each with its own score and feedback. The parent 'score' is the sum of the sub-question scores, and the parent 'feedback' briefly sums up how the student did across the passage.
       - Set the top-level 'overallScore' field to 0. The client application will calculate the final percentage.
+      - Include 'criterionScores' only for questions that have a top-level 'rubric'.
     `;
     const jsonResponseString = await generateWithFallback(prompt, evaluationSchema, 'gemini-flash-latest');
 
@@ -0,0 +1,90 @@
+// supabase/functions/delete-bank-question/index.ts
+// Removes a question from the bank. Tests it was inserted into keep their own copy.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { role } = user.user_metadata;
+    if (role !== 'teacher' && role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Permission denied. User is not a teacher or admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Get the bank question ID from body.
+    const { questionId } = await req.json();
+    if (!questionId) {
+        return new Response(JSON.stringify({ error: 'Missing questionId in request body.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // Verify the teacher owns the question; an admin can manage any question.
+    const { data: existing, error: fetchError } = await adminClient.from('question_bank').select('owner_id').eq('id', questionId).single();
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return new Response(JSON.stringify({ error: 'Bank question not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      throw fetchError;
+    }
+    if (role !== 'admin' && existing.owner_id !== user.id) {
+      return new Response(JSON.stringify({ error: 'Permission denied. You do not own this question.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { error: deleteError } = await adminClient.from('question_bank').delete().eq('id', questionId);
+    if (deleteError) throw new Error(`Failed to delete question: ${deleteError.message}`);
+
+    return new Response(JSON.stringify({ message: 'Question deleted successfully.' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in delete-bank-question function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
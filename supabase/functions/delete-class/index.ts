@@ -0,0 +1,91 @@
+// supabase/functions/delete-class/index.ts
+// Deletes a class. Its enrolments and test assignments are removed by cascade, so
+// tests assigned only to this class become open to every student again.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { role } = user.user_metadata;
+    if (role !== 'teacher' && role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Permission denied. User is not a teacher or admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Get class ID from body.
+    const { classId } = await req.json();
+    if (!classId) {
+        return new Response(JSON.stringify({ error: 'Missing classId in request body.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // Verify the teacher owns the class; an admin can manage any class.
+    const { data: existingClass, error: fetchError } = await adminClient.from('classes').select('*').eq('id', classId).single();
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return new Response(JSON.stringify({ error: 'Class not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      throw fetchError;
+    }
+    if (role !== 'admin' && existingClass.teacher_id !== user.id) {
+      return new Response(JSON.stringify({ error: 'Permission denied. You do not own this class.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { error: deleteError } = await adminClient.from('classes').delete().eq('id', classId);
+    if (deleteError) throw new Error(`Failed to delete class: ${deleteError.message}`);
+
+    return new Response(JSON.stringify({ message: 'Class deleted successfully.' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in delete-class function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
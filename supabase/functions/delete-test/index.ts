@@ -84,14 +84,21 @@ serve(async (req) => {
         .eq('test_id', testId);
     if (resultsError) throw new Error(`Failed to delete test results: ${resultsError.message}`);
 
-    // Step 2: Delete associated questions.
+    // Step 2: Delete the test's question bank usage, so bank questions no longer list it.
+    const { error: usageError } = await adminClient
+        .from('question_bank_usage')
+        .delete()
+        .eq('test_id', testId);
+    if (usageError) throw new Error(`Failed to delete question bank usage: ${usageError.message}`);
+
+    // Step 3: Delete associated questions.
     const { error: questionsError } = await adminClient
         .from('questions')
         .delete()
         .eq('test_id', testId);
     if (questionsError) throw new Error(`Failed to delete questions: ${questionsError.message}`);
 
-    // Step 3: Delete the test itself.
+    // Step 4: Delete the test itself.
     const { error: testError } = await adminClient
         .from('tests')
         .delete()
@@ -0,0 +1,206 @@
+// supabase/functions/generate-questions/index.ts
+// Drafts questions for a teacher from a topic and/or pasted source text. The
+// drafts are only returned for review; nothing is saved here.
+import { Type } from "https://esm.sh/@google/genai@^1.27.0";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { generateWithFallback } from '../_shared/llm.ts';
+import { parseChoiceSet, formatChoiceSet } from '../../../src/utils/grading.ts';
+import type { Question, QuestionGenerationRequest, QuestionMixItem } from '../../../types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+const SUPPORTED_TYPES = ['multiple-choice', 'multi-select', 'true-false', 'short-answer', 'long-answer', 'reading-comprehension'];
+const MAX_QUESTIONS = 30;
+const MAX_SOURCE_LENGTH = 20000;
+
+const generationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      description: "The generated questions, in the same order as the requested question mix.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, description: "One of: multiple-choice, multi-select, true-false, short-answer, long-answer, reading-comprehension." },
+          text: { type: Type.STRING, description: "The question text shown to the student. For reading comprehension, a short instruction." },
+          marks: { type: Type.NUMBER, description: "Marks for the question. For reading comprehension, 0 (marks come from the sub-questions)." },
+          options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Exactly four answer options for multiple-choice and multi-select questions, without letter prefixes. Omit otherwise." },
+          correct_answer: { type: Type.STRING, description: "For multiple-choice: the letter A, B, C or D. For multi-select: every correct letter, comma-separated (e.g. 'A,C'). For true-false: 'True' or 'False'. Omit otherwise." },
+          marking_scheme: { type: Type.STRING, description: "How marks are awarded, point by point." },
+          sample_answer: { type: Type.STRING, description: "A model answer for short-answer and long-answer questions." },
+          passage: { type: Type.STRING, description: "The reading passage for reading-comprehension questions." },
+          comprehension_questions: {
+            type: Type.ARRAY,
+            description: "Sub-questions for reading-comprehension questions only.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                question: { type: Type.STRING },
+                type: { type: Type.STRING, description: "One of: short-answer, multiple-choice, true-false." },
+                marks: { type: Type.NUMBER },
+                options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                correct_answer: { type: Type.STRING },
+                marking_scheme: { type: Type.STRING },
+                sample_answer: { type: Type.STRING },
+              },
+              required: ["question", "type", "marks"]
+            }
+          }
+        },
+        required: ["type", "text", "marks"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+// Options and answer key for an objective draft: four options with a letter key (or a
+// set of letters for multi-select), or the fixed True/False pair.
+function normalizeChoiceFields(type: 'multiple-choice' | 'multi-select' | 'true-false', raw: any): { options: string[]; correct_answer: string } {
+  if (type === 'true-false') {
+    return { options: ['True', 'False'], correct_answer: String(raw?.correct_answer).trim().toLowerCase() === 'false' ? 'False' : 'True' };
+  }
+  const options = Array.isArray(raw?.options) ? raw.options.map(String).slice(0, 4) : [];
+  while (options.length < 4) options.push('');
+  if (type === 'multi-select') {
+    const letters = parseChoiceSet(String(raw?.correct_answer || '')).filter(letter => 'ABCD'.includes(letter));
+    return { options, correct_answer: formatChoiceSet(letters.length > 0 ? letters : ['A']) };
+  }
+  const letter = String(raw?.correct_answer || '').trim().toUpperCase().charAt(0);
+  return { options, correct_answer: letter && 'ABCD'.includes(letter) ? letter : 'A' };
+}
+
+// Coerces a raw draft from the model into a well-formed `Question`, applying the
+// marks the teacher asked for so totals stay predictable.
+function normalizeDraft(raw: any, requested: QuestionMixItem): Question {
+  const type = SUPPORTED_TYPES.includes(raw?.type) ? raw.type : requested.type;
+  const draft: Question = {
+    type,
+    text: String(raw?.text || ''),
+    marks: type === 'reading-comprehension' ? 0 : requested.marks,
+    marking_scheme: raw?.marking_scheme || null,
+  };
+
+  if (type === 'multiple-choice' || type === 'multi-select' || type === 'true-false') {
+    Object.assign(draft, normalizeChoiceFields(type, raw));
+    if (type === 'multi-select') draft.multi_select_scoring = 'all-or-nothing';
+  } else if (type === 'reading-comprehension') {
+    draft.passage = String(raw?.passage || '');
+    draft.comprehension_questions = (Array.isArray(raw?.comprehension_questions) ? raw.comprehension_questions : []).map((cq: any) => {
+      const cqType = ['short-answer', 'multiple-choice', 'true-false'].includes(cq?.type) ? cq.type : 'short-answer';
+      const sub: any = { question: String(cq?.question || ''), type: cqType, marks: Number(cq?.marks) || 1, marking_scheme: cq?.marking_scheme || null };
+      if (cqType === 'multiple-choice' || cqType === 'true-false') {
+        Object.assign(sub, normalizeChoiceFields(cqType, cq));
+      } else {
+        sub.sample_answer = cq?.sample_answer || '';
+      }
+      return sub;
+    });
+  } else {
+    draft.sample_answer = raw?.sample_answer || null;
+  }
+
+  return draft;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+
+    // 1. Only teachers and admins may generate questions.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { role } = user.user_metadata;
+    if (role !== 'teacher' && role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Permission denied. User is not a teacher or admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Validate the request.
+    const { topic, gradeLevel, sourceText, questionMix } = await req.json() as QuestionGenerationRequest;
+    const mix = (Array.isArray(questionMix) ? questionMix : [])
+      .filter(item => SUPPORTED_TYPES.includes(item?.type) && Number(item.count) > 0)
+      .map(item => ({ type: item.type, count: Math.floor(Number(item.count)), marks: Math.max(0, Number(item.marks) || 1) }));
+    const requestedCount = mix.reduce((sum, item) => sum + item.count, 0);
+
+    if (!topic?.trim() && !sourceText?.trim()) {
+        return new Response(JSON.stringify({ error: 'Provide a topic or some source text to generate questions from.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    if (requestedCount === 0 || requestedCount > MAX_QUESTIONS) {
+        return new Response(JSON.stringify({ error: `Request between 1 and ${MAX_QUESTIONS} questions.` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 3. Build the prompt and call the provider chain.
+    const mixDescription = mix.map(item => `- ${item.count} x ${item.type} (${item.type === 'reading-comprehension' ? 'sub-questions carry the marks' : `${item.marks} mark(s) each`})`).join('\n');
+    const prompt = `
+      You are an experienced teacher writing assessment questions for ${gradeLevel?.trim() || 'school'} students.
+
+      **Topic:** ${topic?.trim() || 'Use the source material below.'}
+      ${sourceText?.trim() ? `**Source material (base every question on this text):**\n"""\n${sourceText.trim().slice(0, MAX_SOURCE_LENGTH)}\n"""` : ''}
+
+      **Write exactly these questions, in this order:**
+      ${mixDescription}
+
+      **Rules:**
+      - Questions must be accurate, unambiguous and appropriate for the grade level.
+      - Multiple-choice questions have exactly four plausible options and one correct letter (A-D) in 'correct_answer'.
+      - Multi-select questions have exactly four options, at least two of them correct, with every correct letter listed in 'correct_answer' (e.g. 'A,C').
+      - True/false questions set 'correct_answer' to 'True' or 'False'.
+      - Short-answer and long-answer questions include a 'marking_scheme' that explains how each mark is earned and a 'sample_answer'.
+      - Reading-comprehension questions include a 'passage' (quote or adapt the source material when given) and 3-5 'comprehension_questions', each with its own marks and marking scheme.
+      - Every question includes a 'marking_scheme'.
+    `;
+
+    const jsonResponseString = await generateWithFallback(prompt, generationSchema, 'gemini-flash-latest');
+    const parsed = JSON.parse(String(jsonResponseString).replace(/^```json\s*|```$/g, '').trim());
+    const rawQuestions: any[] = Array.isArray(parsed?.questions) ? parsed.questions : [];
+
+    // 4. Line the drafts up against the requested mix and normalize them.
+    const slots = mix.flatMap(item => Array(item.count).fill(item) as QuestionMixItem[]);
+    const drafts = rawQuestions.slice(0, slots.length).map((raw, i) => normalizeDraft(raw, slots[i]));
+
+    return new Response(JSON.stringify(drafts), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in generate-questions function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -3,6 +3,8 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPaperQuestions } from '../../../src/utils/pools.ts';
+import { getCountedScore, getScoringPolicy, selectCountedAttempts } from '../../../src/utils/attempts.ts';
 import type { Test, TestResult, Question, QuestionScore, EvaluationResult } from '../../../types.ts';
 
 const corsHeaders = {
@@ -21,6 +23,15 @@ function getRequiredEnv(key: string): string {
   return value;
 }
 
+interface TestScores {
+    // One counted score per student, following the test's scoring policy. Students
+    // with nothing graded yet have none.
+    studentScores: number[];
+    countedSubmissions: Pick<TestResult, 'test_id' | 'evaluation'>[];
+    attemptCount: number;
+    studentCount: number;
+}
+
 interface QuestionStats {
     totalSuccessRate: number;
     count: number;
@@ -28,6 +39,11 @@ interface QuestionStats {
     testTitle: string;
 }
 
+interface SubQuestionStats extends QuestionStats {
+    subQuestionNumber: number;
+    subQuestionText: string;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -56,40 +72,73 @@ serve(async (req) => {
 
     const { data: tests, error: testsError } = await adminClient
         .from('tests')
-        .select('id, title, created_at, class, questions (*)')
-        .eq('created_by', user.id);
+        .select('id, title, created_at, class, scoring_policy, questions (*)')
+        .eq('created_by', user.id)
+        // Question scores are stored by position, so questions must come back in saved order.
+        .order('position', { referencedTable: 'questions' })
+        .order('id', { referencedTable: 'questions' });
     if (testsError) throw testsError;
 
     if (!tests || tests.length === 0) {
-        return new Response(JSON.stringify({ overallStats: { averageScore: 0, totalSubmissions: 0, testCount: 0 }, performanceByTest: [], mostDifficultQuestions: [], performanceTrend: [] }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }});
+        return new Response(JSON.stringify({ overallStats: { averageScore: 0, totalSubmissions: 0, testCount: 0 }, performanceByTest: [], mostDifficultQuestions: [], subQuestionPerformance: [], performanceTrend: [] }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }});
     }
 
     const testIds = tests.map(t => t.id);
     const { data: submissions, error: submissionsError } = await adminClient
         .from('test_results')
-        .select('test_id, evaluation, submitted_at')
+        .select('test_id, student_id, evaluation, submitted_at, drawn_questions')
         .in('test_id', testIds);
     if (submissionsError) throw submissionsError;
     
     if (!submissions || submissions.length === 0) {
-        return new Response(JSON.stringify({ overallStats: { averageScore: 0, totalSubmissions: 0, testCount: tests.length }, performanceByTest: [], mostDifficultQuestions: [], performanceTrend: [] }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }});
+        return new Response(JSON.stringify({ overallStats: { averageScore: 0, totalSubmissions: 0, testCount: tests.length }, performanceByTest: [], mostDifficultQuestions: [], subQuestionPerformance: [], performanceTrend: [] }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }});
     }
 
     const testMap = new Map(tests.map(t => [t.id, t]));
     const questionStats = new Map<string, QuestionStats>();
+    const subQuestionStats = new Map<string, SubQuestionStats>();
 
-    let totalScoreSum = 0;
-
+    // Group attempts by test and student, then keep only the attempts that count.
+    const attemptsByTestAndStudent = new Map<string, Map<string, typeof submissions>>();
     for (const sub of submissions) {
-        totalScoreSum += sub.evaluation.overallScore;
+        if (!attemptsByTestAndStudent.has(sub.test_id)) attemptsByTestAndStudent.set(sub.test_id, new Map());
+        const byStudent = attemptsByTestAndStudent.get(sub.test_id)!;
+        if (!byStudent.has(sub.student_id)) byStudent.set(sub.student_id, []);
+        byStudent.get(sub.student_id)!.push(sub);
+    }
+
+    const scoresByTest = new Map<string, TestScores>();
+    for (const [testId, byStudent] of attemptsByTestAndStudent) {
+        const policy = getScoringPolicy(testMap.get(testId) || {});
+        const scores: TestScores = { studentScores: [], countedSubmissions: [], attemptCount: 0, studentCount: byStudent.size };
+        for (const attempts of byStudent.values()) {
+            const countedScore = getCountedScore(policy, attempts);
+            if (countedScore !== null) scores.studentScores.push(countedScore);
+            scores.countedSubmissions.push(...selectCountedAttempts(policy, attempts));
+            scores.attemptCount += attempts.length;
+        }
+        scoresByTest.set(testId, scores);
+    }
+
+    const average = (values: number[]) => (values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : 0);
+    const allStudentScores: number[] = [];
+
+    for (const [testId, scores] of scoresByTest) {
+        allStudentScores.push(...scores.studentScores);
         // FIX: Cast the retrieved test to the 'Test' type to resolve property access errors.
-        const test = testMap.get(sub.test_id) as Test;
-        if (test && test.questions) {
+        const test = testMap.get(testId) as Test;
+        if (!test || !test.questions) continue;
+        for (const sub of scores.countedSubmissions) {
+            // Drawn questions have no row of their own, so they are tracked by their bank question.
+            const paper = getPaperQuestions(test.questions, sub.drawn_questions);
             sub.evaluation.questionScores.forEach((qScore: QuestionScore, index: number) => {
-                const question = test.questions[index];
-                if (question && question.id && qScore.maxMarks && qScore.maxMarks > 0) {
+                const question = paper[index];
+                const statsKey = question?.id || (question?.bank_question_id ? `bank:${question.bank_question_id}` : null);
+                // Answers waiting for the teacher say nothing yet about how hard the question is.
+                if (qScore.source === 'pending') return;
+                if (question && statsKey && qScore.maxMarks && qScore.maxMarks > 0) {
                     const successRate = (qScore.score / qScore.maxMarks) * 100;
-                    const stats = questionStats.get(question.id) || {
+                    const stats = questionStats.get(statsKey) || {
                         totalSuccessRate: 0,
                         count: 0,
                         questionText: question.text,
@@ -97,25 +146,40 @@ serve(async (req) => {
                     };
                     stats.totalSuccessRate += successRate;
                     stats.count += 1;
-                    questionStats.set(question.id, stats);
+                    questionStats.set(statsKey, stats);
                 }
+                // Comprehension sub-questions are tracked on their own, by position in the question.
+                (question && statsKey ? qScore.subScores || [] : []).forEach((subScore, subIndex) => {
+                    if (!subScore.maxMarks || subScore.maxMarks <= 0) return;
+                    const subKey = `${statsKey}#${subIndex}`;
+                    const stats = subQuestionStats.get(subKey) || {
+                        totalSuccessRate: 0,
+                        count: 0,
+                        questionText: question.text,
+                        subQuestionNumber: subIndex + 1,
+                        subQuestionText: question.comprehension_questions?.[subIndex]?.question || '',
+                        testTitle: test.title,
+                    };
+                    stats.totalSuccessRate += (subScore.score / subScore.maxMarks) * 100;
+                    stats.count += 1;
+                    subQuestionStats.set(subKey, stats);
+                });
             });
         }
     }
 
     const overallStats = {
-        averageScore: totalScoreSum / submissions.length,
+        averageScore: average(allStudentScores),
         totalSubmissions: submissions.length,
         testCount: tests.length
     };
 
     const performanceByTest = tests.map(test => {
-        const testSubmissions = submissions.filter(s => s.test_id === test.id);
-        if (testSubmissions.length === 0) {
-            return { testTitle: test.title, averageScore: 0, submissionCount: 0 };
+        const scores = scoresByTest.get(test.id);
+        if (!scores) {
+            return { testTitle: test.title, averageScore: 0, submissionCount: 0, studentCount: 0 };
         }
-        const avg = testSubmissions.reduce((acc, curr) => acc + curr.evaluation.overallScore, 0) / testSubmissions.length;
-        return { testTitle: test.title, averageScore: avg, submissionCount: testSubmissions.length };
+        return { testTitle: test.title, averageScore: average(scores.studentScores), submissionCount: scores.attemptCount, studentCount: scores.studentCount };
     }).sort((a, b) => b.averageScore - a.averageScore);
 
     const mostDifficultQuestions = Array.from(questionStats.values()).map(stats => ({
@@ -123,15 +187,19 @@ serve(async (req) => {
         averageSuccessRate: stats.totalSuccessRate / stats.count,
     })).sort((a, b) => a.averageSuccessRate - b.averageSuccessRate);
     
+    const subQuestionPerformance = Array.from(subQuestionStats.values()).map(({ totalSuccessRate, ...stats }) => ({
+        ...stats,
+        averageSuccessRate: totalSuccessRate / stats.count,
+    })).sort((a, b) => a.averageSuccessRate - b.averageSuccessRate);
+
     const performanceTrend = tests
       .map(test => {
-        const testSubmissions = submissions.filter(s => s.test_id === test.id);
-        if (testSubmissions.length === 0) return null;
-        const avg = testSubmissions.reduce((acc, curr) => acc + curr.evaluation.overallScore, 0) / testSubmissions.length;
+        const scores = scoresByTest.get(test.id);
+        if (!scores) return null;
         return {
             date: test.created_at,
             testTitle: test.title,
-            averageScore: avg
+            averageScore: average(scores.studentScores)
         };
       })
       .filter(Boolean)
@@ -141,6 +209,7 @@ serve(async (req) => {
         overallStats,
         performanceByTest,
         mostDifficultQuestions,
+        subQuestionPerformance,
         performanceTrend,
     };
 
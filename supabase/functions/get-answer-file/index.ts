@@ -0,0 +1,114 @@
+// supabase/functions/get-answer-file/index.ts
+// Returns a short-lived signed URL for a file uploaded as the answer to a file-upload
+// question. The bucket is private, so this is the only way to open the file: the
+// student who submitted it, the teacher who owns the test, or an admin may ask.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ANSWER_UPLOAD_BUCKET, getUploadFileName, isOwnUploadPath } from '../../../src/utils/uploads.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+const SIGNED_URL_SECONDS = 60 * 60;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate the user.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Validate the request body.
+    const { resultId, questionIndex } = await req.json() as { resultId?: string; questionIndex?: number };
+    if (!resultId || !Number.isInteger(questionIndex)) {
+        return new Response(JSON.stringify({ error: 'Request must include a resultId and a questionIndex.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // 3. Load the submission and check the caller may see it.
+    const { data: result, error: resultError } = await adminClient
+        .from('test_results')
+        .select('student_id, test_id, answers')
+        .eq('id', resultId)
+        .single();
+
+    if (resultError) {
+      if (resultError.code === 'PGRST116') {
+        return new Response(JSON.stringify({ error: 'Submission not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      throw resultError;
+    }
+
+    const { role } = user.user_metadata;
+    if (result.student_id !== user.id && role !== 'admin') {
+      const { data: testData, error: testError } = await adminClient
+          .from('tests')
+          .select('created_by')
+          .eq('id', result.test_id)
+          .single();
+      if (testError) throw testError;
+
+      if (role !== 'teacher' || testData.created_by !== user.id) {
+          return new Response(JSON.stringify({ error: 'Permission denied. You cannot view this submission.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+    }
+
+    // 4. Sign the path stored as the answer; submit-test only keeps paths in the student's own folder.
+    const path = result.answers?.[questionIndex!];
+    if (!isOwnUploadPath(path, result.student_id, result.test_id)) {
+        return new Response(JSON.stringify({ error: 'No file was uploaded for this question.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { data: signed, error: signError } = await adminClient.storage
+        .from(ANSWER_UPLOAD_BUCKET)
+        .createSignedUrl(path, SIGNED_URL_SECONDS);
+    if (signError) throw signError;
+
+    return new Response(JSON.stringify({ url: signed.signedUrl, fileName: getUploadFileName(path) }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in get-answer-file function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
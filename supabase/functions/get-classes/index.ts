@@ -0,0 +1,106 @@
+// supabase/functions/get-classes/index.ts
+// Teachers get the classes they own with their rosters (admins get every class);
+// students get the classes they are enrolled in, without the other members.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ClassGroup } from '../../../types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const role = user.user_metadata?.role;
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // 2. Pick the classes this user can see.
+    let classesQuery = adminClient.from('classes').select('id, name, teacher_id, join_code, created_at').order('name');
+    if (role === 'teacher') {
+      classesQuery = classesQuery.eq('teacher_id', user.id);
+    } else if (role !== 'admin') {
+      const { data: enrolments, error: enrolmentsError } = await adminClient
+        .from('class_enrolments')
+        .select('class_id')
+        .eq('student_id', user.id);
+      if (enrolmentsError) throw enrolmentsError;
+      classesQuery = classesQuery.in('id', (enrolments || []).map((e: { class_id: string }) => e.class_id));
+    }
+
+    const { data: classesData, error: classesError } = await classesQuery;
+    if (classesError) throw classesError;
+
+    // 3. Rosters are only shared with the class owner and admins.
+    const studentIdsByClassId = new Map<string, string[]>();
+    const canSeeRosters = role === 'teacher' || role === 'admin';
+    if (canSeeRosters && classesData && classesData.length > 0) {
+      const { data: rosterData, error: rosterError } = await adminClient
+        .from('class_enrolments')
+        .select('class_id, student_id')
+        .in('class_id', classesData.map((c: { id: string }) => c.id));
+      if (rosterError) throw rosterError;
+      for (const row of rosterData || []) {
+        if (!studentIdsByClassId.has(row.class_id)) studentIdsByClassId.set(row.class_id, []);
+        studentIdsByClassId.get(row.class_id)!.push(row.student_id);
+      }
+    }
+
+    const classes: ClassGroup[] = (classesData || []).map((c: any) => ({
+      ...c,
+      // Enrolled students have no use for the join code, so it is not handed out further.
+      join_code: canSeeRosters ? c.join_code : '',
+      student_ids: studentIdsByClassId.get(c.id) || [],
+    }));
+
+    return new Response(JSON.stringify(classes), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in get-classes function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,84 @@
+// supabase/functions/get-my-attempts/index.ts
+// The student's started attempts that were never submitted. They count towards a test's
+// attempt limit, so the client needs them to show the same attempt status the server enforces.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isResumableAttempt } from '../../../src/utils/attempts.ts';
+import type { UnsubmittedAttempt } from '../../../types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user from Authorization header.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    
+    // 2. Create admin client to fetch data, bypassing RLS.
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // 3. Fetch the user's unsubmitted attempts, counted the way `start-attempt` and `submit-test` count them.
+    const { data, error } = await adminClient
+        .from('test_attempts')
+        .select('test_id, started_at, deadline_at, expired_at')
+        .eq('student_id', user.id)
+        .is('submitted_at', null)
+        .order('started_at', { ascending: false });
+
+    if (error) throw error;
+
+    const now = Date.now();
+    const attempts: UnsubmittedAttempt[] = (data || []).map((attempt: any) => ({
+      test_id: attempt.test_id,
+      started_at: attempt.started_at,
+      is_resumable: isResumableAttempt(attempt, now),
+    }));
+    return new Response(JSON.stringify(attempts), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in get-my-attempts function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
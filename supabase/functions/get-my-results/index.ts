@@ -1,6 +1,7 @@
 // supabase/functions/get-my-results/index.ts
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sanitizeQuestionForStudent } from '../_shared/questions.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -59,7 +60,13 @@ serve(async (req) => {
 
     if (error) throw error;
     
-    return new Response(JSON.stringify(data), {
+    // Drawn questions are copies of bank questions, so their answer keys are stripped like the test's own.
+    const results = (data || []).map((result: any) => ({
+      ...result,
+      drawn_questions: Array.isArray(result.drawn_questions) ? result.drawn_questions.map(sanitizeQuestionForStudent) : result.drawn_questions,
+    }));
+
+    return new Response(JSON.stringify(results), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
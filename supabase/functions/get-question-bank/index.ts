@@ -0,0 +1,108 @@
+// supabase/functions/get-question-bank/index.ts
+// Returns the teacher's own bank questions plus those other teachers have shared
+// (admins get every question), each with the tests it has been used in.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { BankQuestion } from '../../../types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { role } = user.user_metadata;
+    if (role !== 'teacher' && role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Permission denied. User is not a teacher or admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // 2. Own and shared questions, newest first.
+    let bankQuery = adminClient.from('question_bank').select('*').order('updated_at', { ascending: false });
+    if (role !== 'admin') bankQuery = bankQuery.or(`owner_id.eq.${user.id},is_shared.eq.true`);
+    const { data: bankData, error: bankError } = await bankQuery;
+    if (bankError) throw bankError;
+
+    // 3. Attach usage, resolving test titles in one query.
+    const usageByQuestionId = new Map<string, { test_id: string; test_title: string }[]>();
+    const questionIds = (bankData || []).map((q: { id: string }) => q.id);
+    if (questionIds.length > 0) {
+      const { data: usageData, error: usageError } = await adminClient
+        .from('question_bank_usage')
+        .select('bank_question_id, test_id')
+        .in('bank_question_id', questionIds);
+      if (usageError) throw usageError;
+
+      const testIds = [...new Set((usageData || []).map((u: { test_id: string }) => u.test_id))];
+      const titleByTestId = new Map<string, string>();
+      if (testIds.length > 0) {
+        const { data: testsData, error: testsError } = await adminClient.from('tests').select('id, title').in('id', testIds);
+        if (testsError) throw testsError;
+        for (const t of testsData || []) titleByTestId.set(t.id, t.title);
+      }
+
+      for (const row of usageData || []) {
+        if (!titleByTestId.has(row.test_id)) continue;
+        if (!usageByQuestionId.has(row.bank_question_id)) usageByQuestionId.set(row.bank_question_id, []);
+        usageByQuestionId.get(row.bank_question_id)!.push({ test_id: row.test_id, test_title: titleByTestId.get(row.test_id)! });
+      }
+    }
+
+    const questions: BankQuestion[] = (bankData || []).map((q: any) => ({
+      ...q,
+      tags: q.tags || [],
+      usage: usageByQuestionId.get(q.id) || [],
+    }));
+
+    return new Response(JSON.stringify(questions), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in get-question-bank function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
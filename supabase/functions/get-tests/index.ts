@@ -1,6 +1,9 @@
 // supabase/functions/get-tests/index.ts
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isVisibleToStudents } from '../../../src/utils/availability.ts';
+import { getTestClassIds, getEnrolledClassIds, isAssignedToStudent } from '../_shared/classes.ts';
+import { sanitizeQuestionForStudent } from '../_shared/questions.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +21,10 @@ function getRequiredEnv(key: string): string {
   return value;
 }
 
+// Columns a student may see. Answer keys, marking schemes and sample answers are
+// deliberately left out so they never reach the browser before a test is taken.
+const STUDENT_QUESTION_COLUMNS = 'id, test_id, type, text, marks, media, options, multi_select_scoring, pinned_options, match_prompts, arrangement_scoring, passage, comprehension_questions, expected_word_limit, max_recording_seconds, allowed_file_types, max_file_size_mb, rubric';
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -45,6 +52,10 @@ serve(async (req) => {
       return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
+    // Teachers and admins get the full authoring view; everyone else is treated as a student.
+    const role = user.user_metadata?.role;
+    const canSeeAnswerKeys = role === 'teacher' || role === 'admin';
+
     // 2. Create admin client to fetch all data, bypassing RLS.
     const adminClient = createClient(supabaseUrl, serviceRoleKey, {
       auth: { autoRefreshToken: false, persistSession: false }
@@ -59,19 +70,32 @@ serve(async (req) => {
 
     if (testsError) throw testsError;
 
+    // Students never see drafts or archived tests, nor tests assigned only to classes they are not in.
+    const classIdsByTestId = await getTestClassIds(adminClient, (testsData || []).map(t => t.id));
+    let visibleTests = testsData || [];
+    if (!canSeeAnswerKeys) {
+      const enrolledClassIds = await getEnrolledClassIds(adminClient, user.id);
+      visibleTests = visibleTests.filter(test =>
+        isVisibleToStudents(test) && isAssignedToStudent(classIdsByTestId.get(test.id), enrolledClassIds)
+      );
+    }
+
     // If there are no tests, return an empty array.
-    if (!testsData || testsData.length === 0) {
+    if (!visibleTests || visibleTests.length === 0) {
       return new Response(JSON.stringify([]), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // 4. Fetch all questions related to the retrieved tests.
-    const testIds = testsData.map(t => t.id);
+    // 4. Fetch all questions related to the retrieved tests, projected by role, in saved order (answers are stored by position).
+    const testIds = visibleTests.map(t => t.id);
     const { data: questionsData, error: questionsError } = await adminClient
       .from('questions')
-      .select('*')
-      .in('test_id', testIds);
+      .select(canSeeAnswerKeys ? '*' : STUDENT_QUESTION_COLUMNS)
+      .in('test_id', testIds)
+      .order('test_id')
+      .order('position')
+      .order('id');
 
     if (questionsError) throw questionsError;
 
@@ -82,13 +106,14 @@ serve(async (req) => {
         if (!questionsByTestId.has(question.test_id)) {
           questionsByTestId.set(question.test_id, []);
         }
-        questionsByTestId.get(question.test_id)!.push(question);
+        questionsByTestId.get(question.test_id)!.push(canSeeAnswerKeys ? question : sanitizeQuestionForStudent(question));
       }
     }
 
-    const finalTests = testsData.map(test => ({
+    const finalTests = visibleTests.map(test => ({
       ...test,
-      questions: questionsByTestId.get(test.id) || []
+      questions: questionsByTestId.get(test.id) || [],
+      class_ids: classIdsByTestId.get(test.id) || []
     }));
 
     // 6. Return the combined data.
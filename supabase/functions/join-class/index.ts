@@ -0,0 +1,91 @@
+// supabase/functions/join-class/index.ts
+// Lets a student enrol themselves in a class using the teacher's join code.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    if (user.user_metadata?.role !== 'student') {
+        return new Response(JSON.stringify({ error: 'Only students can join a class.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Look up the class by its code.
+    const { joinCode } = await req.json();
+    const code = typeof joinCode === 'string' ? joinCode.trim().toUpperCase() : '';
+    if (!code) {
+        return new Response(JSON.stringify({ error: 'Enter a join code.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: classData, error: classError } = await adminClient
+      .from('classes')
+      .select('id, name, teacher_id, created_at')
+      .eq('join_code', code)
+      .maybeSingle();
+    if (classError) throw classError;
+    if (!classData) {
+        return new Response(JSON.stringify({ error: 'No class matches that join code.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 3. Enrol the student; joining twice is harmless.
+    const { error: enrolError } = await adminClient
+      .from('class_enrolments')
+      .upsert([{ class_id: classData.id, student_id: user.id }], { onConflict: 'class_id,student_id', ignoreDuplicates: true });
+    if (enrolError) throw new Error(`Failed to join class: ${enrolError.message}`);
+
+    return new Response(JSON.stringify({ ...classData, join_code: '', student_ids: [] }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in join-class function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,230 @@
+// supabase/functions/override-grade/index.ts
+// Lets the owning teacher (or an admin) adjust per-question scores on a
+// submission. Every change is appended to the result's `grade_history`.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { summarizeScores } from '../../../src/utils/grading.ts';
+import type { CriterionScore, EvaluationResult, GradeOverride, GradeOverrideInput, QuestionScore, SubQuestionScore } from '../../../types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+// Rubric levels picked by the teacher, kept only when every entry is well formed.
+function sanitizeCriterionScores(raw: unknown): CriterionScore[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const scores = raw.map((s: any) => ({
+    criterion: Number(s?.criterion),
+    level: Number(s?.level),
+    points: Number(s?.points),
+    ...(typeof s?.feedback === 'string' && s.feedback.trim() ? { feedback: s.feedback.trim() } : {}),
+  }));
+  const isValid = scores.every(s => Number.isInteger(s.criterion) && s.criterion >= 0 && Number.isInteger(s.level) && s.level >= 0 && Number.isFinite(s.points) && s.points >= 0);
+  return isValid ? scores : null;
+}
+
+// What is wrong with a teacher's per-sub-question scores for a comprehension question, or null.
+// There must be one score per sub-question, each within its marks, summing to `total`.
+function getSubScoresProblem(current: SubQuestionScore[] | undefined, input: GradeOverrideInput['subScores'], total: number, questionNumber: number): string | null {
+  if (!current || !input || input.length !== current.length) {
+    return `Sub-question scores for question ${questionNumber} do not match its sub-questions.`;
+  }
+  for (const [i, sub] of current.entries()) {
+    const score = Number(input[i]?.score);
+    if (!Number.isFinite(score) || score < 0 || score > sub.maxMarks) {
+      return `Sub-question ${i + 1} of question ${questionNumber} must score between 0 and ${sub.maxMarks}.`;
+    }
+  }
+  if (Math.abs(input.reduce((sum, sub) => sum + Number(sub.score), 0) - total) > 0.001) {
+    return `The score for question ${questionNumber} must equal the sum of its sub-question scores.`;
+  }
+  return null;
+}
+
+// Applies checked sub-scores, marking the ones the teacher changed as manual.
+function applySubScores(current: SubQuestionScore[], input: NonNullable<GradeOverrideInput['subScores']>): SubQuestionScore[] {
+  return current.map((sub, i) => {
+    const score = Number(input[i].score);
+    const feedback = typeof input[i].feedback === 'string' ? input[i].feedback! : sub.feedback;
+    return score === sub.score && feedback === sub.feedback ? sub : { ...sub, score, feedback, source: 'manual' as const };
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { role } = user.user_metadata;
+    if (role !== 'teacher' && role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Permission denied. User is not a teacher or admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Validate the request body.
+    // `gradeVersion` is the version of the submission the teacher was looking at.
+    const { resultId, overrides, gradeVersion } = await req.json() as { resultId?: string; overrides?: GradeOverrideInput[]; gradeVersion?: number };
+    if (!resultId || !Array.isArray(overrides) || overrides.length === 0 || !Number.isInteger(gradeVersion)) {
+        return new Response(JSON.stringify({ error: 'Request must include a resultId, a gradeVersion and at least one override.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // 3. Load the submission and verify the teacher owns its test.
+    const { data: result, error: resultError } = await adminClient
+        .from('test_results')
+        .select('*')
+        .eq('id', resultId)
+        .single();
+
+    if (resultError) {
+      if (resultError.code === 'PGRST116') {
+        return new Response(JSON.stringify({ error: 'Submission not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      throw resultError;
+    }
+
+    const { data: testData, error: testError } = await adminClient
+        .from('tests')
+        .select('created_by')
+        .eq('id', result.test_id)
+        .single();
+    if (testError) throw testError;
+
+    if (role === 'teacher' && testData.created_by !== user.id) {
+        return new Response(JSON.stringify({ error: 'Permission denied. You do not own this test.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const staleMessage = 'This submission was regraded by someone else while you were editing. Reload it and try again.';
+    if ((result.grade_version ?? 0) !== gradeVersion) {
+        return new Response(JSON.stringify({ error: staleMessage }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 4. Apply each override and record it in the history.
+    const evaluation: EvaluationResult = result.evaluation;
+    const questionScores: QuestionScore[] = [...evaluation.questionScores];
+    const history: GradeOverride[] = Array.isArray(result.grade_history) ? [...result.grade_history] : [];
+    const changedAt = new Date().toISOString();
+    const changedByName = user.user_metadata?.full_name || user.user_metadata?.username || 'Unknown teacher';
+
+    for (const override of overrides) {
+      const current = questionScores[override.questionIndex];
+      if (!current) {
+        return new Response(JSON.stringify({ error: `Question ${override.questionIndex + 1} does not exist on this submission.` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      const maxMarks = current.maxMarks ?? 0;
+      const newScore = Number(override.score);
+      if (!Number.isFinite(newScore) || newScore < 0 || newScore > maxMarks) {
+        return new Response(JSON.stringify({ error: `Score for question ${override.questionIndex + 1} must be between 0 and ${maxMarks}.` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      if (!override.reason || !override.reason.trim()) {
+        return new Response(JSON.stringify({ error: `A reason is required to change the score for question ${override.questionIndex + 1}.` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      // Sub-scores stay only when the teacher re-scored them or left the total unchanged.
+      let subScores = newScore === current.score ? current.subScores : undefined;
+      if (Array.isArray(override.subScores)) {
+        const problem = getSubScoresProblem(current.subScores, override.subScores, newScore, override.questionIndex + 1);
+        if (problem) {
+          return new Response(JSON.stringify({ error: problem }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+        subScores = applySubScores(current.subScores!, override.subScores);
+      }
+
+      // The first recorded change for a question holds its original evaluated score.
+      const firstChange = history.find(h => h.questionIndex === override.questionIndex);
+      const newFeedback = typeof override.feedback === 'string' ? override.feedback : current.feedback;
+
+      history.push({
+        questionIndex: override.questionIndex,
+        originalScore: firstChange ? firstChange.originalScore : current.score,
+        previousScore: current.score,
+        newScore,
+        previousFeedback: current.feedback,
+        newFeedback,
+        reason: override.reason.trim(),
+        changedBy: user.id,
+        changedByName,
+        changedAt,
+      });
+
+      // Rubric levels from before the change no longer explain the score unless the teacher re-picked them.
+      const { criterionScores: _previousLevels, subScores: _previousSubScores, ...rest } = current;
+      const criterionScores = sanitizeCriterionScores(override.criterionScores);
+      questionScores[override.questionIndex] = {
+        ...rest,
+        score: newScore,
+        feedback: newFeedback,
+        source: 'manual',
+        ...(criterionScores ? { criterionScores } : {}),
+        ...(subScores ? { subScores } : {}),
+      };
+    }
+
+    // 5. Recompute totals and save, unless someone else saved this submission in the meantime.
+    const totalPossibleMarks = evaluation.totalPossibleMarks ?? questionScores.reduce((sum, s) => sum + (s.maxMarks || 0), 0);
+    const updatedEvaluation: EvaluationResult = {
+      ...evaluation,
+      questionScores,
+      ...summarizeScores(questionScores, totalPossibleMarks),
+    };
+
+    const { data: updatedRows, error: updateError } = await adminClient
+        .from('test_results')
+        .update({ evaluation: updatedEvaluation, grade_history: history, grade_version: gradeVersion! + 1 })
+        .eq('id', resultId)
+        .eq('grade_version', gradeVersion)
+        .select();
+
+    if (updateError) throw updateError;
+    if (!updatedRows || updatedRows.length === 0) {
+        return new Response(JSON.stringify({ error: staleMessage }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    return new Response(JSON.stringify(updatedRows[0]), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in override-grade function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
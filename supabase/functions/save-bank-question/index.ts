@@ -0,0 +1,160 @@
+// supabase/functions/save-bank-question/index.ts
+// Adds a question to the caller's bank, or updates one they own (admins may update any).
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizeQuestion } from '../_shared/questions.ts';
+import type { BankQuestionInput, Question } from '../../../types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+const VALID_DIFFICULTIES = ['easy', 'medium', 'hard'];
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+// Tags are compared case-insensitively when filtering, so store them lower-cased and de-duplicated.
+function normalizeTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  const tags = raw
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
+
+// The bank keeps the question content only; IDs tying it to a particular test are dropped.
+// Drawn questions go to students as stored, so they get the same checks as a test's questions.
+function toBankContent(question: Question): Question {
+  const { id: _id, test_id: _testId, bank_question_id: _bankId, ...content } = question;
+  return normalizeQuestion(content, 'The question');
+}
+
+const trimOrNull = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { role } = user.user_metadata;
+    if (role !== 'teacher' && role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Permission denied. User is not a teacher or admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Validate the request body.
+    const input = await req.json() as BankQuestionInput;
+    const question = input?.question;
+    if (!question || typeof question !== 'object' || !question.type) {
+        return new Response(JSON.stringify({ error: 'A question is required.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    if (!question.text?.trim() && !question.passage?.trim()) {
+        return new Response(JSON.stringify({ error: 'Questions need some text before they can be saved to the bank.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    const difficulty = input.difficulty || null;
+    if (difficulty !== null && !VALID_DIFFICULTIES.includes(difficulty)) {
+        return new Response(JSON.stringify({ error: `Invalid difficulty "${difficulty}".` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    let content: Question;
+    try {
+      content = toBankContent(question);
+    } catch (validationError) {
+      return new Response(JSON.stringify({ error: validationError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const fields = {
+      question: content,
+      topic: trimOrNull(input.topic),
+      difficulty,
+      learning_objective: trimOrNull(input.learning_objective),
+      tags: normalizeTags(input.tags),
+      is_shared: input.is_shared === true,
+      updated_at: new Date().toISOString(),
+    };
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    if (input.id) {
+      // Verify the teacher owns the question; an admin can manage any question.
+      const { data: existing, error: fetchError } = await adminClient.from('question_bank').select('owner_id').eq('id', input.id).single();
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          return new Response(JSON.stringify({ error: 'Bank question not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+        throw fetchError;
+      }
+      if (role !== 'admin' && existing.owner_id !== user.id) {
+        return new Response(JSON.stringify({ error: 'Permission denied. You do not own this question.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      const { data: updated, error: updateError } = await adminClient
+        .from('question_bank')
+        .update(fields)
+        .eq('id', input.id)
+        .select()
+        .single();
+      if (updateError) throw updateError;
+      return new Response(JSON.stringify(updated), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 3. Create the bank entry.
+    const { data: created, error: insertError } = await adminClient
+      .from('question_bank')
+      .insert([{
+        ...fields,
+        owner_id: user.id,
+        owner_name: user.user_metadata?.full_name || user.user_metadata?.username || null,
+      }])
+      .select()
+      .single();
+    if (insertError) throw insertError;
+
+    return new Response(JSON.stringify({ ...created, usage: [] }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in save-bank-question function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
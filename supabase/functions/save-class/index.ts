@@ -0,0 +1,118 @@
+// supabase/functions/save-class/index.ts
+// Creates a class (with a fresh join code) or renames an existing one.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+// Unambiguous characters only, so codes can be read aloud or copied from a board.
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+function generateJoinCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(JOIN_CODE_LENGTH));
+  return Array.from(bytes, b => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join('');
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { role } = user.user_metadata;
+    if (role !== 'teacher' && role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Permission denied. User is not a teacher or admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Validate the request body.
+    const { id: classId, name } = await req.json() as { id?: string; name?: string };
+    if (!name || !name.trim()) {
+        return new Response(JSON.stringify({ error: 'Class name is required.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    if (classId) {
+      // Verify the teacher owns the class; an admin can manage any class.
+      const { data: existingClass, error: fetchError } = await adminClient.from('classes').select('*').eq('id', classId).single();
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          return new Response(JSON.stringify({ error: 'Class not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+        throw fetchError;
+      }
+      if (role !== 'admin' && existingClass.teacher_id !== user.id) {
+        return new Response(JSON.stringify({ error: 'Permission denied. You do not own this class.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      const { data: renamed, error: renameError } = await adminClient
+        .from('classes')
+        .update({ name: name.trim() })
+        .eq('id', classId)
+        .select()
+        .single();
+      if (renameError) throw renameError;
+      return new Response(JSON.stringify(renamed), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 3. Create the class, retrying on the rare join code collision.
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const { data: created, error: insertError } = await adminClient
+        .from('classes')
+        .insert([{ name: name.trim(), teacher_id: user.id, join_code: generateJoinCode() }])
+        .select()
+        .single();
+      if (!insertError) {
+        return new Response(JSON.stringify({ ...created, student_ids: [] }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      // 23505 is a unique violation; anything else is a real failure.
+      if (insertError.code !== '23505') throw insertError;
+    }
+    throw new Error('Could not generate a unique join code. Please try again.');
+
+  } catch (error) {
+    console.error('Error in save-class function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
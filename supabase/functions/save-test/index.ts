@@ -1,6 +1,9 @@
 // supabase/functions/save-test/index.ts
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { findPoolShortfalls } from '../../../src/utils/pools.ts';
+import { getPoolCandidates, normalizeQuestion, writeExtendedQuestionFields } from '../_shared/questions.ts';
+import type { QuestionPoolSection } from '../../../types.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,6 +19,33 @@ function getRequiredEnv(key: string): string {
   return value;
 }
 
+const VALID_STATUSES = ['draft', 'published', 'closed', 'archived'];
+const VALID_SCORING_POLICIES = ['best', 'latest', 'average'];
+const VALID_DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+// Coerces the random-draw sections from the payload, rejecting ones that cannot be drawn.
+function normalizePoolSections(raw: unknown): QuestionPoolSection[] {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) throw new Error('Invalid random-draw sections.');
+  return raw.map((section: any, i: number) => {
+    const label = section?.title?.trim() || `Section ${i + 1}`;
+    const count = Number(section?.count);
+    const marks = Number(section?.marks);
+    if (!Number.isInteger(count) || count < 1) throw new Error(`"${label}" must draw at least 1 question.`);
+    if (!Number.isFinite(marks) || marks < 0) throw new Error(`Marks for "${label}" must be zero or more.`);
+    if (section?.difficulty && !VALID_DIFFICULTIES.includes(section.difficulty)) throw new Error(`Invalid difficulty for "${label}".`);
+    return {
+      id: String(section?.id || crypto.randomUUID()),
+      title: label,
+      topic: typeof section?.topic === 'string' && section.topic.trim() ? section.topic.trim() : null,
+      difficulty: section?.difficulty || null,
+      tags: Array.isArray(section?.tags) ? section.tags.filter((t: unknown) => typeof t === 'string' && t.trim()).map((t: string) => t.trim().toLowerCase()) : [],
+      count,
+      marks,
+    };
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -44,6 +74,32 @@ serve(async (req) => {
     const test = await req.json();
     if (!test || !test.title || !test.questions) throw new Error('Invalid test payload. Missing title or questions.');
 
+    // Validate the schedule before touching the database.
+    const status = test.status || 'published';
+    if (!VALID_STATUSES.includes(status)) throw new Error(`Invalid test status "${status}".`);
+    if (test.opens_at && test.closes_at && new Date(test.closes_at) <= new Date(test.opens_at)) {
+      throw new Error('The closing date must be after the opening date.');
+    }
+
+    // Retake rules: empty limits mean unlimited attempts and no cooldown.
+    const maxAttempts = test.max_attempts == null ? null : Number(test.max_attempts);
+    const cooldownMinutes = test.attempt_cooldown_minutes == null ? null : Number(test.attempt_cooldown_minutes);
+    const scoringPolicy = test.scoring_policy || 'latest';
+    if (maxAttempts !== null && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) throw new Error('Maximum attempts must be a whole number of at least 1.');
+    if (cooldownMinutes !== null && (!Number.isInteger(cooldownMinutes) || cooldownMinutes < 0)) throw new Error('The cooldown must be a whole number of minutes.');
+    if (!VALID_SCORING_POLICIES.includes(scoringPolicy)) throw new Error(`Invalid scoring policy "${scoringPolicy}".`);
+
+    const lockdownEnabled = test.lockdown_enabled === true;
+    const lockdownMaxViolations = lockdownEnabled && test.lockdown_max_violations != null ? Number(test.lockdown_max_violations) : null;
+    if (lockdownMaxViolations !== null && (!Number.isInteger(lockdownMaxViolations) || lockdownMaxViolations < 1)) {
+      throw new Error('The lockdown violation limit must be a whole number of at least 1.');
+    }
+
+    const poolSections = normalizePoolSections(test.pool_sections);
+
+    // Every question is validated and normalized the same way as a bank question.
+    test.questions = (test.questions as any[]).map((q, i) => normalizeQuestion(q, `Question ${i + 1}`));
+
     // Create a service role client to call the database function
     // We use the service role key because the RPC needs to bypass RLS.
     // The security is handled inside the RPC function itself.
@@ -52,6 +108,35 @@ serve(async (req) => {
       auth: { autoRefreshToken: false, persistSession: false }
     });
     
+    // Every section must be able to fill its draw from the test owner's bank, or attempts could not start.
+    if (poolSections.length > 0) {
+      let ownerId = user.id;
+      if (test.id) {
+        const { data: existingTest, error: ownerError } = await adminClient.from('tests').select('created_by').eq('id', test.id).single();
+        if (ownerError && ownerError.code !== 'PGRST116') throw ownerError;
+        if (existingTest?.created_by) ownerId = existingTest.created_by;
+      }
+      const shortfalls = findPoolShortfalls(poolSections, await getPoolCandidates(adminClient, ownerId));
+      if (shortfalls.length > 0) {
+        const { section, available } = shortfalls[0];
+        throw new Error(`"${section.title}" draws ${section.count} questions, but only ${available} matching questions are in the bank.`);
+      }
+    }
+
+    // Keep links only to bank questions that exist; they record where each bank question is used.
+    const requestedBankIds = [...new Set(
+      (test.questions as { bank_question_id?: string | null }[])
+        .map(q => q.bank_question_id)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0)
+    )];
+    let bankQuestionIds: string[] = [];
+    if (requestedBankIds.length > 0) {
+      const { data: bankRows, error: bankError } = await adminClient.from('question_bank').select('id').in('id', requestedBankIds);
+      if (bankError) throw new Error(`Failed to check question bank links: ${bankError.message}`);
+      bankQuestionIds = (bankRows || []).map((row: { id: string }) => row.id);
+    }
+    test.questions = (test.questions as any[]).map(q => ({ ...q, bank_question_id: bankQuestionIds.includes(q?.bank_question_id) ? q.bank_question_id : null }));
+
     // Call the database function to handle the upsert transactionally
     const { data: testId, error: rpcError } = await adminClient.rpc('create_or_update_test', {
       p_test_id: test.id || null,
@@ -68,9 +153,76 @@ serve(async (req) => {
         throw new Error(rpcError.message || 'Database operation failed.');
     }
 
+    await writeExtendedQuestionFields(adminClient, testId, test.questions);
+
+    // Scheduling, retake, lockdown, shuffle and pool columns are not part of the RPC signature, so they are written separately.
+    const { error: scheduleError } = await adminClient
+      .from('tests')
+      .update({
+        status,
+        opens_at: test.opens_at || null,
+        closes_at: test.closes_at || null,
+        max_attempts: maxAttempts,
+        attempt_cooldown_minutes: cooldownMinutes,
+        scoring_policy: scoringPolicy,
+        lockdown_enabled: lockdownEnabled,
+        lockdown_max_violations: lockdownMaxViolations,
+        shuffle_questions: test.shuffle_questions === true,
+        shuffle_options: test.shuffle_options === true,
+        pool_sections: poolSections,
+      })
+      .eq('id', testId);
+    if (scheduleError) throw new Error(`Failed to save test settings: ${scheduleError.message}`);
+
+    // Replace the test's class assignments, but only with classes this teacher owns (admins may use any).
+    const requestedClassIds: string[] = Array.isArray(test.class_ids) ? test.class_ids : [];
+    let classIds: string[] = [];
+    if (requestedClassIds.length > 0) {
+      let classQuery = adminClient.from('classes').select('id').in('id', requestedClassIds);
+      if (role !== 'admin') classQuery = classQuery.eq('teacher_id', user.id);
+      const { data: ownedClasses, error: classesError } = await classQuery;
+      if (classesError) throw new Error(`Failed to verify classes: ${classesError.message}`);
+      classIds = (ownedClasses || []).map((c: { id: string }) => c.id);
+    }
+
+    const { error: clearError } = await adminClient.from('test_classes').delete().eq('test_id', testId);
+    if (clearError) throw new Error(`Failed to update class assignments: ${clearError.message}`);
+    if (classIds.length > 0) {
+      const { error: assignError } = await adminClient
+        .from('test_classes')
+        .insert(classIds.map(classId => ({ test_id: testId, class_id: classId })));
+      if (assignError) throw new Error(`Failed to update class assignments: ${assignError.message}`);
+    }
+
+    // Bank usage mirrors the bank questions the test now contains. Rows that are kept
+    // keep their original `added_at`.
+    let pruneQuery = adminClient.from('question_bank_usage').delete().eq('test_id', testId);
+    if (bankQuestionIds.length > 0) pruneQuery = pruneQuery.not('bank_question_id', 'in', `(${bankQuestionIds.join(',')})`);
+    const { error: pruneError } = await pruneQuery;
+    if (pruneError) throw new Error(`Failed to update question bank usage: ${pruneError.message}`);
+    if (bankQuestionIds.length > 0) {
+      const { error: usageError } = await adminClient
+        .from('question_bank_usage')
+        .upsert(bankQuestionIds.map(id => ({ bank_question_id: id, test_id: testId })), { ignoreDuplicates: true });
+      if (usageError) throw new Error(`Failed to record question bank usage: ${usageError.message}`);
+    }
+
     // The RPC returns the test ID. We can return the original test payload
     // with the new/updated ID for consistency with the old API.
-    const finalTest = { ...test, id: testId };
+    const finalTest = {
+      ...test,
+      id: testId,
+      status,
+      class_ids: classIds,
+      max_attempts: maxAttempts,
+      attempt_cooldown_minutes: cooldownMinutes,
+      scoring_policy: scoringPolicy,
+      lockdown_enabled: lockdownEnabled,
+      lockdown_max_violations: lockdownMaxViolations,
+      shuffle_questions: test.shuffle_questions === true,
+      shuffle_options: test.shuffle_options === true,
+      pool_sections: poolSections,
+    };
 
     return new Response(JSON.stringify(finalTest), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
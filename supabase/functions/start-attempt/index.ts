@@ -0,0 +1,193 @@
+// supabase/functions/start-attempt/index.ts
+// Records when a student starts a test and derives the deadline on the server, so
+// the countdown no longer depends on anything the browser stores. An unfinished
+// attempt that is still within its deadline is resumed rather than restarted; one
+// past its deadline is marked expired and counts as a used attempt.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getTestAvailability } from '../../../src/utils/availability.ts';
+import { getAttemptStatus, getAttemptDeadline, isResumableAttempt } from '../../../src/utils/attempts.ts';
+import { createShuffleSeed } from '../../../src/utils/shuffle.ts';
+import { drawPoolQuestions, findPoolShortfalls } from '../../../src/utils/pools.ts';
+import { getTestClassIds, getEnrolledClassIds, isAssignedToStudent } from '../_shared/classes.ts';
+import { getPreviousAttempts } from '../_shared/attempts.ts';
+import { getPoolCandidates, sanitizeQuestionForStudent } from '../_shared/questions.ts';
+import type { Question, QuestionPoolSection, StartedAttempt } from '../../../types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+const ATTEMPT_COLUMNS = 'id, started_at, deadline_at, shuffle_seed, drawn_questions';
+
+// Drawn questions go back to the browser without their answer keys.
+function toStartedAttempt(attempt: { id: string; started_at: string; deadline_at: string | null; shuffle_seed: number | null; drawn_questions: Question[] | null }): StartedAttempt {
+  return {
+    attemptId: attempt.id,
+    startedAt: attempt.started_at,
+    deadlineAt: attempt.deadline_at,
+    serverTime: Date.now(),
+    shuffleSeed: attempt.shuffle_seed,
+    drawnQuestions: (attempt.drawn_questions || []).map(sanitizeQuestionForStudent),
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate the student.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { testId } = await req.json();
+    if (!testId) {
+        return new Response(JSON.stringify({ error: 'Missing testId in request body.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // 2. Load the test.
+    const { data: test, error: testError } = await adminClient
+        .from('tests')
+        .select('*')
+        .eq('id', testId)
+        .single();
+
+    if (testError) {
+      if (testError.code === 'PGRST116') {
+        return new Response(JSON.stringify({ error: 'Test not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      throw testError;
+    }
+
+    // 3. Students may only take tests assigned to one of their classes, and only while the test
+    // is open. Like `get-tests`, anyone who is not a teacher or admin is treated as a student.
+    const now = Date.now();
+    const role = user.user_metadata?.role;
+    if (role !== 'teacher' && role !== 'admin') {
+      const classIdsByTestId = await getTestClassIds(adminClient, [test.id]);
+      const enrolledClassIds = await getEnrolledClassIds(adminClient, user.id);
+      if (!isAssignedToStudent(classIdsByTestId.get(test.id), enrolledClassIds)) {
+        return new Response(JSON.stringify({ error: 'This test is not assigned to any of your classes.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+    }
+
+    const availability = getTestAvailability(test, now);
+    if (availability.state !== 'open') {
+      const message = availability.state === 'scheduled'
+        ? `This test is not open yet (${availability.label.toLowerCase()}).`
+        : 'This test is closed and no longer accepts submissions.';
+      return new Response(JSON.stringify({ error: message }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 4. Resume an unfinished attempt while it can still be submitted on time.
+    const { data: openAttempts, error: openError } = await adminClient
+      .from('test_attempts')
+      .select(ATTEMPT_COLUMNS)
+      .eq('test_id', test.id)
+      .eq('student_id', user.id)
+      .is('submitted_at', null)
+      .is('expired_at', null)
+      .order('started_at', { ascending: false });
+    if (openError) throw openError;
+
+    const openAttempt = (openAttempts || []).find((attempt: { deadline_at: string | null }) => isResumableAttempt(attempt, now));
+    if (openAttempt) {
+      return new Response(JSON.stringify(toStartedAttempt(openAttempt)), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // Attempts past their deadline are closed before starting another; if one is still submitted, it is flagged late.
+    const expiredIds = (openAttempts || []).map((attempt: { id: string }) => attempt.id);
+    if (expiredIds.length > 0) {
+      const { error: expireError } = await adminClient
+        .from('test_attempts')
+        .update({ expired_at: new Date(now).toISOString() })
+        .in('id', expiredIds)
+        .is('submitted_at', null);
+      if (expireError) throw expireError;
+    }
+
+    // 5. Attempt limits count every started attempt; the cooldown runs from the last submission.
+    const previousAttempts = await getPreviousAttempts(adminClient, test.id, user.id);
+    const attemptStatus = getAttemptStatus(test, previousAttempts, now);
+    if (!attemptStatus.canAttempt) {
+      const message = attemptStatus.attemptsRemaining === 0
+        ? 'You have used all your attempts for this test.'
+        : `You can retake this test after a short wait (${attemptStatus.label.toLowerCase()}).`;
+      return new Response(JSON.stringify({ error: message }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 6. Draw this attempt's questions from the pool sections. The draw is stored with the attempt,
+    // so resuming shows the same questions and grading uses exactly these.
+    const poolSections: QuestionPoolSection[] = Array.isArray(test.pool_sections) ? test.pool_sections : [];
+    let drawnQuestions: Question[] | null = null;
+    if (poolSections.length > 0) {
+      const candidates = await getPoolCandidates(adminClient, test.created_by);
+      if (findPoolShortfalls(poolSections, candidates).length > 0) {
+        return new Response(JSON.stringify({ error: 'This test cannot be started because its question pool has too few questions. Please let your teacher know.' }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      drawnQuestions = drawPoolQuestions(poolSections, candidates);
+    }
+
+    // 7. Record the attempt with a server-side start time and deadline.
+    const deadline = getAttemptDeadline(test, now);
+    const { data: attempt, error: insertError } = await adminClient
+      .from('test_attempts')
+      .insert([{
+        test_id: test.id,
+        student_id: user.id,
+        started_at: new Date(now).toISOString(),
+        deadline_at: deadline === null ? null : new Date(deadline).toISOString(),
+        shuffle_seed: createShuffleSeed(),
+        drawn_questions: drawnQuestions,
+      }])
+      .select(ATTEMPT_COLUMNS)
+      .single();
+    if (insertError) throw insertError;
+
+    return new Response(JSON.stringify(toStartedAttempt(attempt)), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in start-attempt function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,247 @@
+// supabase/functions/submit-test/index.ts
+// Grades a student's attempt entirely on the server. The client sends only the
+// raw answers; the answer keys, scores and totals never come from the browser.
+// Access rules are checked when the attempt is started (see `start-attempt`); here
+// the submission is matched to that attempt, timed against its deadline, and the
+// test's status and attempt limits are checked again.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizeAnswers, planGrading, mergeEvaluation, toEvaluatorPayload } from '../../../src/utils/grading.ts';
+import { getAttemptStatus, isAcceptingSubmissions, LATE_GRACE_SECONDS } from '../../../src/utils/attempts.ts';
+import { getViolationLimitReachedAt, sanitizeIntegrityEvents } from '../../../src/utils/integrity.ts';
+import { getPaperQuestions } from '../../../src/utils/pools.ts';
+import { ANSWER_UPLOAD_BUCKET, getFileUploadProblem, isOwnUploadPath } from '../../../src/utils/uploads.ts';
+import { sanitizeQuestionForStudent } from '../_shared/questions.ts';
+import { getPreviousAttempts } from '../_shared/attempts.ts';
+import { getOwnRecordingPath, transcribeAudioAnswers } from '../_shared/transcription.ts';
+import type { Question, EvaluationResult } from '../../../types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+// The evaluator may hand back the JSON as a (possibly fenced) string.
+function parseEvaluation(data: unknown): EvaluationResult {
+  if (typeof data !== 'string') return data as EvaluationResult;
+  try {
+    return JSON.parse(data.replace(/^```json\s*|```$/g, '').trim());
+  } catch (_e) {
+    throw new Error('AI returned an invalid response format. Please try submitting again.');
+  }
+}
+
+// Whether an uploaded answer file exists and meets the question's type and size limits.
+// The browser checks this before uploading; here the stored object's metadata decides.
+async function isAcceptableUpload(adminClient: any, question: Question, path: string): Promise<boolean> {
+  const separator = path.lastIndexOf('/');
+  const name = path.slice(separator + 1);
+  const { data: objects, error } = await adminClient.storage.from(ANSWER_UPLOAD_BUCKET).list(path.slice(0, separator), { search: name });
+  if (error) throw error;
+  const object = (objects || []).find((o: any) => o.name === name);
+  return !!object && getFileUploadProblem(question, { type: object.metadata?.mimetype ?? '', size: Number(object.metadata?.size) || 0 }) === null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate the student.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Only the test ID, the started attempt, raw answers and the integrity log are accepted from the client.
+    const { testId, attemptId, answers, integrityEvents } = await req.json();
+    if (!testId || !attemptId) {
+        return new Response(JSON.stringify({ error: 'Missing testId or attemptId in request body.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    const receivedAt = Date.now();
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // 3. Load the test and its answer keys server-side.
+    const { data: test, error: testError } = await adminClient
+        .from('tests')
+        .select('*')
+        .eq('id', testId)
+        .single();
+
+    if (testError) {
+      if (testError.code === 'PGRST116') {
+        return new Response(JSON.stringify({ error: 'Test not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      throw testError;
+    }
+
+    // The attempt must be this student's own, unsubmitted attempt at this test.
+    const { data: attempt, error: attemptError } = await adminClient
+      .from('test_attempts')
+      .select('*')
+      .eq('id', attemptId)
+      .single();
+    if (attemptError && attemptError.code !== 'PGRST116') throw attemptError;
+    if (!attempt || attempt.student_id !== user.id || attempt.test_id !== test.id) {
+      return new Response(JSON.stringify({ error: 'This attempt was not found. Please start the test again.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    if (attempt.submitted_at) {
+      return new Response(JSON.stringify({ error: 'This attempt has already been submitted.' }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // Late submissions are graded and kept, but flagged for the teacher. An attempt that was
+    // expired when the student started another one is late too.
+    const deadline = attempt.deadline_at ? new Date(attempt.deadline_at).getTime() : null;
+    const isLate = Boolean(attempt.expired_at) || (deadline !== null && receivedAt > deadline + LATE_GRACE_SECONDS * 1000);
+    const lateBySeconds = isLate && deadline !== null ? Math.max(0, Math.round((receivedAt - deadline) / 1000)) : null;
+    if (!isAcceptingSubmissions(test)) {
+      return new Response(JSON.stringify({ error: 'This test is closed and no longer accepts submissions.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // A lockdown attempt ends at the violation that reaches the limit. One submitted well after
+    // that (say, after a reload that lost the browser's count) is closed like an expired attempt.
+    const integrity = sanitizeIntegrityEvents(integrityEvents);
+    const limitReachedAt = test.lockdown_enabled ? getViolationLimitReachedAt(integrity, test.lockdown_max_violations) : null;
+    if (limitReachedAt !== null && receivedAt > limitReachedAt + LATE_GRACE_SECONDS * 1000) {
+      await adminClient.from('test_attempts').update({ expired_at: new Date(receivedAt).toISOString() }).eq('id', attempt.id).is('submitted_at', null);
+      return new Response(JSON.stringify({ error: 'This attempt was ended by too many lockdown violations and can no longer be submitted.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // Limits are checked again: other attempts may have been submitted since this one started.
+    const attemptStatus = getAttemptStatus(test, await getPreviousAttempts(adminClient, test.id, user.id, attempt.id), receivedAt);
+    if (!attemptStatus.canAttempt) {
+      const message = attemptStatus.attemptsRemaining === 0
+        ? 'You have used all your attempts for this test.'
+        : `This attempt cannot be submitted so soon after your last one (${attemptStatus.label.toLowerCase()}).`;
+      return new Response(JSON.stringify({ error: message }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { data: questionsData, error: questionsError } = await adminClient
+      .from('questions')
+      .select('*')
+      .eq('test_id', testId)
+      .order('position')
+      .order('id');
+
+    if (questionsError) throw questionsError;
+
+    // Questions drawn for this attempt are graded along with the test's own.
+    const questions: Question[] = getPaperQuestions(questionsData || [], attempt.drawn_questions);
+    const studentAnswers = normalizeAnswers(questions, answers);
+    // A recording must be the student's own upload; any other URL counts as no answer.
+    questions.forEach((question, index) => {
+      if (question.type === 'audio-response' && !getOwnRecordingPath(studentAnswers[index], user.id)) studentAnswers[index] = '';
+    });
+    // Uploaded files must sit in the student's folder for this test and meet the question's limits.
+    for (const [index, question] of questions.entries()) {
+      if (question.type !== 'file-upload' || !studentAnswers[index]) continue;
+      const path = studentAnswers[index];
+      if (!isOwnUploadPath(path, user.id, test.id) || !(await isAcceptableUpload(adminClient, question, path))) studentAnswers[index] = '';
+    }
+
+    // 4. Mark objective items locally and send only the subjective ones to the evaluator, as plain text.
+    // Recordings marked for AI scoring are transcribed first; the rest wait for the teacher.
+    const transcripts = await transcribeAudioAnswers(questions, studentAnswers, supabaseUrl, user.id);
+    const plan = planGrading(questions, studentAnswers, transcripts);
+    let aiEvaluation: EvaluationResult | null = null;
+
+    if (plan.pending.questions.length > 0) {
+      const { data, error } = await adminClient.functions.invoke('clever-endpoint', {
+        body: toEvaluatorPayload(plan.pending),
+      });
+      if (error) throw new Error(`AI evaluation failed: ${error.message}`);
+      if (!data) throw new Error('AI evaluation returned no data.');
+      aiEvaluation = parseEvaluation(data);
+    }
+
+    // 5. Totals and the overall percentage are computed here, never by the client.
+    const evaluation = mergeEvaluation(questions, plan, aiEvaluation);
+
+    // 6. Claim the attempt before saving so a double submit cannot create two results.
+    const { data: claimed, error: claimError } = await adminClient
+      .from('test_attempts')
+      .update({ submitted_at: new Date(receivedAt).toISOString() })
+      .eq('id', attempt.id)
+      .is('submitted_at', null)
+      .select('id');
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) {
+      return new Response(JSON.stringify({ error: 'This attempt has already been submitted.' }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { data: savedResult, error: insertError } = await adminClient
+        .from('test_results')
+        .insert([{
+          test_id: test.id,
+          test_title: test.title,
+          student_id: user.id,
+          student_name: user.user_metadata?.full_name || user.user_metadata?.username || 'Unknown student',
+          answers: studentAnswers,
+          evaluation,
+          attempt_id: attempt.id,
+          started_at: attempt.started_at,
+          is_late: isLate,
+          late_by_seconds: lateBySeconds,
+          integrity_events: integrity,
+          shuffle_seed: attempt.shuffle_seed,
+          drawn_questions: attempt.drawn_questions,
+        }])
+        .select()
+        .single();
+
+    if (insertError) {
+      // Release the attempt so the student can retry the submission.
+      await adminClient.from('test_attempts').update({ submitted_at: null }).eq('id', attempt.id);
+      throw insertError;
+    }
+
+    const { error: linkError } = await adminClient.from('test_attempts').update({ result_id: savedResult.id }).eq('id', attempt.id);
+    if (linkError) console.error('Failed to link attempt to result:', linkError.message);
+
+    const studentResult = {
+      ...savedResult,
+      drawn_questions: Array.isArray(savedResult.drawn_questions) ? savedResult.drawn_questions.map(sanitizeQuestionForStudent) : savedResult.drawn_questions,
+    };
+
+    return new Response(JSON.stringify(studentResult), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in submit-test function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,118 @@
+// supabase/functions/update-enrolments/index.ts
+// Adds students to and removes students from a class roster.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+declare const Deno: any;
+
+function getRequiredEnv(key: string): string {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`Function failed: Missing required environment variable "${key}".`);
+  }
+  return value;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = getRequiredEnv('SUPABASE_URL');
+    const supabaseAnonKey = getRequiredEnv('SUPABASE_ANON_KEY');
+    const serviceRoleKey = getRequiredEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 1. Authenticate user and check role.
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { role } = user.user_metadata;
+    if (role !== 'teacher' && role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Permission denied. User is not a teacher or admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 2. Validate the request body.
+    const { classId, addStudentIds = [], removeStudentIds = [] } = await req.json() as { classId?: string; addStudentIds?: string[]; removeStudentIds?: string[] };
+    if (!classId || !Array.isArray(addStudentIds) || !Array.isArray(removeStudentIds)) {
+        return new Response(JSON.stringify({ error: 'Request must include a classId and lists of student IDs.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // Verify the teacher owns the class; an admin can manage any class.
+    const { data: existingClass, error: fetchError } = await adminClient.from('classes').select('*').eq('id', classId).single();
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return new Response(JSON.stringify({ error: 'Class not found.' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      throw fetchError;
+    }
+    if (role !== 'admin' && existingClass.teacher_id !== user.id) {
+      return new Response(JSON.stringify({ error: 'Permission denied. You do not own this class.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // 3. Only student accounts can be enrolled.
+    if (addStudentIds.length > 0) {
+      for (const studentId of addStudentIds) {
+        const { data: { user: student }, error: studentError } = await adminClient.auth.admin.getUserById(studentId);
+        if (studentError || !student || student.user_metadata?.role !== 'student') {
+          return new Response(JSON.stringify({ error: 'Only student accounts can be enrolled in a class.' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+      }
+
+      const { error: addError } = await adminClient
+        .from('class_enrolments')
+        .upsert(addStudentIds.map(studentId => ({ class_id: classId, student_id: studentId })), { onConflict: 'class_id,student_id', ignoreDuplicates: true });
+      if (addError) throw new Error(`Failed to enrol students: ${addError.message}`);
+    }
+
+    if (removeStudentIds.length > 0) {
+      const { error: removeError } = await adminClient
+        .from('class_enrolments')
+        .delete()
+        .eq('class_id', classId)
+        .in('student_id', removeStudentIds);
+      if (removeError) throw new Error(`Failed to remove students: ${removeError.message}`);
+    }
+
+    // 4. Return the updated roster.
+    const { data: roster, error: rosterError } = await adminClient
+      .from('class_enrolments')
+      .select('student_id')
+      .eq('class_id', classId);
+    if (rosterError) throw rosterError;
+
+    return new Response(JSON.stringify({ ...existingClass, student_ids: (roster || []).map((r: { student_id: string }) => r.student_id) }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in update-enrolments function:', error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,3 @@
+-- Test results are now written exclusively by the `submit-test` edge function,
+-- which uses the service role. Browsers may no longer insert rows directly.
+revoke insert on table public.test_results from anon, authenticated;
@@ -0,0 +1,4 @@
+-- Questions (including their answer keys) are only served through the
+-- `get-tests` edge function, which strips keys for students. Block direct
+-- table reads from the browser so the keys cannot be fetched around it.
+revoke select on table public.questions from anon, authenticated;
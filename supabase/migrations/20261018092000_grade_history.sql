@@ -0,0 +1,6 @@
+-- Audit trail of teacher grade overrides, written by the `override-grade` edge function.
+alter table public.test_results
+  add column if not exists grade_history jsonb not null default '[]'::jsonb;
+
+-- Scores may only change through `override-grade`, which records who changed what.
+revoke update on table public.test_results from anon, authenticated;
@@ -0,0 +1,12 @@
+-- Availability windows and lifecycle status for tests. Existing tests stay
+-- published with no window so students keep seeing them.
+alter table public.tests
+  add column if not exists status text not null default 'published',
+  add column if not exists opens_at timestamptz,
+  add column if not exists closes_at timestamptz;
+
+alter table public.tests
+  drop constraint if exists tests_status_check,
+  add constraint tests_status_check check (status in ('draft', 'published', 'closed', 'archived')),
+  drop constraint if exists tests_window_check,
+  add constraint tests_window_check check (opens_at is null or closes_at is null or closes_at > opens_at);
@@ -0,0 +1,30 @@
+-- Class rosters: teachers own classes, students are enrolled in them (directly or
+-- with a join code), and tests can be assigned to one or more classes.
+create table if not exists public.classes (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  teacher_id uuid not null references auth.users (id) on delete cascade,
+  join_code text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.class_enrolments (
+  class_id uuid not null references public.classes (id) on delete cascade,
+  student_id uuid not null references auth.users (id) on delete cascade,
+  enrolled_at timestamptz not null default now(),
+  primary key (class_id, student_id)
+);
+
+create table if not exists public.test_classes (
+  test_id uuid not null references public.tests (id) on delete cascade,
+  class_id uuid not null references public.classes (id) on delete cascade,
+  primary key (test_id, class_id)
+);
+
+create index if not exists class_enrolments_student_id_idx on public.class_enrolments (student_id);
+create index if not exists test_classes_class_id_idx on public.test_classes (class_id);
+
+-- All access goes through edge functions using the service role.
+alter table public.classes enable row level security;
+alter table public.class_enrolments enable row level security;
+alter table public.test_classes enable row level security;
@@ -0,0 +1,16 @@
+-- Per-test retake rules. Existing tests keep unlimited attempts with no cooldown,
+-- and the latest attempt counts, matching what students saw before.
+alter table public.tests
+  add column if not exists max_attempts integer,
+  add column if not exists attempt_cooldown_minutes integer,
+  add column if not exists scoring_policy text not null default 'latest';
+
+alter table public.tests
+  drop constraint if exists tests_max_attempts_check,
+  add constraint tests_max_attempts_check check (max_attempts is null or max_attempts >= 1),
+  drop constraint if exists tests_attempt_cooldown_check,
+  add constraint tests_attempt_cooldown_check check (attempt_cooldown_minutes is null or attempt_cooldown_minutes >= 0),
+  drop constraint if exists tests_scoring_policy_check,
+  add constraint tests_scoring_policy_check check (scoring_policy in ('best', 'latest', 'average'));
+
+create index if not exists test_results_test_student_idx on public.test_results (test_id, student_id);
@@ -0,0 +1,23 @@
+-- Server-recorded attempts. `start-attempt` stamps the start time and deadline,
+-- and `submit-test` checks the submission against them instead of trusting the
+-- browser's clock.
+create table if not exists public.test_attempts (
+  id uuid primary key default gen_random_uuid(),
+  test_id uuid not null references public.tests (id) on delete cascade,
+  student_id uuid not null references auth.users (id) on delete cascade,
+  started_at timestamptz not null default now(),
+  deadline_at timestamptz,
+  submitted_at timestamptz,
+  result_id uuid references public.test_results (id) on delete set null
+);
+
+create index if not exists test_attempts_test_student_idx on public.test_attempts (test_id, student_id);
+
+-- All access goes through edge functions using the service role.
+alter table public.test_attempts enable row level security;
+
+alter table public.test_results
+  add column if not exists attempt_id uuid references public.test_attempts (id) on delete set null,
+  add column if not exists started_at timestamptz,
+  add column if not exists is_late boolean not null default false,
+  add column if not exists late_by_seconds integer;
@@ -0,0 +1,4 @@
+-- Integrity events (tab switches, paste attempts, idle stretches, ...) recorded in the
+-- browser during an attempt and submitted with it.
+alter table public.test_results
+  add column if not exists integrity_events jsonb not null default '[]'::jsonb;
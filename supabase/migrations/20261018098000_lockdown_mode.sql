@@ -0,0 +1,9 @@
+-- Opt-in fullscreen lockdown per test. `lockdown_max_violations` is the number of
+-- violations that triggers an automatic submission; null only warns.
+alter table public.tests
+  add column if not exists lockdown_enabled boolean not null default false,
+  add column if not exists lockdown_max_violations integer;
+
+alter table public.tests
+  drop constraint if exists tests_lockdown_max_violations_check,
+  add constraint tests_lockdown_max_violations_check check (lockdown_max_violations is null or lockdown_max_violations >= 1);
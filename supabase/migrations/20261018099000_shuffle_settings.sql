@@ -0,0 +1,12 @@
+-- Per-test shuffling of question order and multiple-choice options. Each attempt
+-- gets its own seed so the layout survives a reload; the seed is copied onto the
+-- result so the order a student saw can be reproduced later.
+alter table public.tests
+  add column if not exists shuffle_questions boolean not null default false,
+  add column if not exists shuffle_options boolean not null default false;
+
+alter table public.test_attempts
+  add column if not exists shuffle_seed integer;
+
+alter table public.test_results
+  add column if not exists shuffle_seed integer;
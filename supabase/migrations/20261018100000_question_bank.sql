@@ -0,0 +1,31 @@
+-- Question bank: teachers save reusable questions with tags, optionally share them
+-- with other teachers, and insert them into tests. `question_bank_usage` records
+-- which tests a bank question has been saved into.
+create table if not exists public.question_bank (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  owner_name text,
+  question jsonb not null,
+  topic text,
+  difficulty text check (difficulty in ('easy', 'medium', 'hard')),
+  learning_objective text,
+  tags text[] not null default '{}',
+  is_shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.question_bank_usage (
+  bank_question_id uuid not null references public.question_bank (id) on delete cascade,
+  test_id uuid not null references public.tests (id) on delete cascade,
+  added_at timestamptz not null default now(),
+  primary key (bank_question_id, test_id)
+);
+
+create index if not exists question_bank_owner_id_idx on public.question_bank (owner_id);
+create index if not exists question_bank_topic_idx on public.question_bank (topic);
+create index if not exists question_bank_usage_test_id_idx on public.question_bank_usage (test_id);
+
+-- All access goes through edge functions using the service role.
+alter table public.question_bank enable row level security;
+alter table public.question_bank_usage enable row level security;
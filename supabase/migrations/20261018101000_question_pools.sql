@@ -0,0 +1,11 @@
+-- Random-draw sections: a test can append questions drawn from the question bank.
+-- The draw is made when an attempt starts and copied onto the result, so grading
+-- and review use exactly the questions that student saw.
+alter table public.tests
+  add column if not exists pool_sections jsonb not null default '[]'::jsonb;
+
+alter table public.test_attempts
+  add column if not exists drawn_questions jsonb;
+
+alter table public.test_results
+  add column if not exists drawn_questions jsonb;
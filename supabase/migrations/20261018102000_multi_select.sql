@@ -0,0 +1,7 @@
+-- Multi-select questions keep their answer key in `correct_answer` as comma-separated
+-- letters ("A,C"); only the scoring mode needs a new column.
+alter table public.questions
+  add column if not exists multi_select_scoring text,
+  drop constraint if exists questions_multi_select_scoring_check,
+  add constraint questions_multi_select_scoring_check
+    check (multi_select_scoring is null or multi_select_scoring in ('all-or-nothing', 'per-option', 'per-option-penalty'));
@@ -0,0 +1,4 @@
+-- Choice questions may have 2-10 options. Pinned options (e.g. "None of the above")
+-- keep their position when a test shuffles options.
+alter table public.questions
+  add column if not exists pinned_options integer[];
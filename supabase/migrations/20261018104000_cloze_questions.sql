@@ -0,0 +1,5 @@
+-- Fill-in-the-blank questions keep their text in `text` with numbered "[[n]]" markers.
+-- Each blank's accepted answers, pattern and marks live in `cloze_blanks`.
+alter table public.questions
+  add column if not exists cloze_blanks jsonb,
+  add column if not exists cloze_ai_fallback boolean;
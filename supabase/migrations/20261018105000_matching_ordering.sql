@@ -0,0 +1,8 @@
+-- Matching and ordering questions keep their items in `options` and their key in
+-- `correct_answer`; matching adds the left-hand prompts, and both pick a scoring rule.
+alter table public.questions
+  add column if not exists match_prompts text[],
+  add column if not exists arrangement_scoring text,
+  drop constraint if exists questions_arrangement_scoring_check,
+  add constraint questions_arrangement_scoring_check
+    check (arrangement_scoring is null or arrangement_scoring in ('all-or-nothing', 'per-item', 'adjacent-pairs'));
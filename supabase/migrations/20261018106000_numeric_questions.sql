@@ -0,0 +1,4 @@
+-- Numeric questions keep their key (value, tolerance, units and significant figures) in
+-- `numeric_answer`. It is an answer key, so it is never selected for students.
+alter table public.questions
+  add column if not exists numeric_answer jsonb;
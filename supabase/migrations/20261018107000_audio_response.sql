@@ -0,0 +1,6 @@
+-- Audio-response questions: students record a spoken answer, stored in the `media`
+-- bucket, and the answer is the recording's URL. A teacher grades it against the
+-- rubric in `marking_scheme` unless `audio_ai_scoring` sends a transcript to the AI evaluator.
+alter table public.questions
+  add column if not exists max_recording_seconds integer,
+  add column if not exists audio_ai_scoring boolean;
@@ -0,0 +1,18 @@
+-- File-upload questions: students upload a document or a photo of their work. Files go
+-- to the private `answer-uploads` bucket under `<student id>/<test id>/`, and the answer
+-- is the object's path. Teachers and the student open them through short-lived signed
+-- URLs from the `get-answer-file` edge function, then grade against `marking_scheme`.
+alter table public.questions
+  add column if not exists allowed_file_types text[],
+  add column if not exists max_file_size_mb integer;
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('answer-uploads', 'answer-uploads', false, 52428800)
+on conflict (id) do nothing;
+
+-- Students may only add files to their own folder. There is no read policy: downloads
+-- go through signed URLs created with the service role.
+drop policy if exists "Students upload answer files to their own folder" on storage.objects;
+create policy "Students upload answer files to their own folder"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'answer-uploads' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,6 @@
+-- Structured rubrics for subjective questions: a JSON array of criteria, each with
+-- performance levels ({ label, points, descriptor }). Comprehension sub-questions keep
+-- theirs inside `comprehension_questions`. Rubrics are shown to students, unlike
+-- `marking_scheme`, which stays as free-text notes for questions without a rubric.
+alter table public.questions
+  add column if not exists rubric jsonb;
@@ -0,0 +1,5 @@
+-- Attempts that ran past their deadline without a submission. `start-attempt` marks
+-- them before starting a new one, so an expired attempt can no longer be resumed or
+-- submitted, but still counts towards the test's attempt limit.
+alter table public.test_attempts
+  add column if not exists expired_at timestamptz;
@@ -0,0 +1,18 @@
+-- Each question's place in its test. Answers are stored by position, so questions are
+-- always read back in this order.
+alter table public.questions
+  add column if not exists position integer;
+
+-- Existing rows get the order they were read back in before this column existed, which
+-- is the order they were inserted in (the table's physical order), so the answers of
+-- earlier submissions keep lining up with their questions.
+update public.questions q
+set position = numbered.position
+from (
+  select ctid, row_number() over (partition by test_id order by ctid) - 1 as position
+  from public.questions
+  where position is null
+) numbered
+where q.ctid = numbered.ctid;
+
+create index if not exists questions_test_position_idx on public.questions (test_id, position);
@@ -0,0 +1,6 @@
+-- Questions inserted from the bank keep a link to it, so `save-test` can replace a
+-- test's `question_bank_usage` rows with the bank questions it still contains.
+-- Questions saved before this column existed have no link; saving their test again
+-- drops usage rows that can no longer be traced to a question.
+alter table public.questions
+  add column if not exists bank_question_id uuid references public.question_bank (id) on delete set null;
@@ -0,0 +1,5 @@
+-- Bumped by `override-grade` on every save. The update only applies when the version
+-- is still the one that was read, so two teachers saving at once cannot overwrite
+-- each other's scores or history entries.
+alter table public.test_results
+  add column if not exists grade_version integer not null default 0;
@@ -10,21 +10,78 @@ export interface UserProfile {
 
 export type QuestionType =
   | 'multiple-choice'
+  | 'multi-select'
   | 'true-false'
   | 'short-answer'
   | 'long-answer'
-  | 'reading-comprehension';
+  | 'reading-comprehension'
+  | 'cloze'
+  | 'matching'
+  | 'ordering'
+  | 'numeric'
+  | 'audio-response'
+  | 'file-upload';
 
 export interface ComprehensionQuestion {
   question: string;
   sample_answer?: string;
   type: 'short-answer' | 'multiple-choice' | 'true-false';
   marks: number;
+  /** Free-text marking notes, used by the evaluator only when there is no `rubric`. */
   marking_scheme?: string | null;
+  rubric?: RubricCriterion[] | null;
   options?: string[];
   correct_answer?: string;
 }
 
+// A rubric is a list of criteria, each with performance levels from best to worst. A
+// question's score is the sum of the chosen levels' points, scaled to its marks.
+export interface RubricLevel {
+  label: string;
+  points: number;
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  name: string;
+  levels: RubricLevel[];
+}
+
+// The level chosen for one criterion; both are indexes into the question's rubric.
+export interface CriterionScore {
+  criterion: number;
+  level: number;
+  points: number;
+  feedback?: string;
+}
+
+// The answer key for one numbered blank in a cloze question. Answers are compared
+// ignoring case and extra spaces; `pattern` is an optional regular expression.
+export interface ClozeBlank {
+  accepted_answers: string[];
+  pattern?: string | null;
+  marks: number;
+}
+
+// The key for a numeric question. Relative tolerance is a percentage of `value`. With
+// `sig_figs` set, an answer written to a different number of significant figures earns half marks.
+export interface NumericAnswerKey {
+  value: number;
+  tolerance: number;
+  tolerance_type: 'absolute' | 'relative';
+  units: string[];
+  unit_required: boolean;
+  sig_figs: number | null;
+}
+
+// How matching and ordering questions give partial credit. `adjacent-pairs` applies to
+// ordering only: credit for each neighbouring pair of items kept in the right order.
+export type ArrangementScoring = 'all-or-nothing' | 'per-item' | 'adjacent-pairs';
+
+// How a multi-select question is marked: full marks only for the exact set, a share of
+// the marks per correct option picked, or that share minus one per wrong pick.
+export type MultiSelectScoring = 'all-or-nothing' | 'per-option' | 'per-option-penalty';
+
 export interface Question {
   id?: string;
   test_id?: string;
@@ -37,19 +94,130 @@ export interface Question {
     audio?: string | null;
   };
   options?: string[];
+  // A letter for multiple-choice, 'True'/'False', or comma-separated letters ("A,C") for multi-select.
+  // Matching and ordering use a letter sequence; see src/utils/arrangement.ts.
   correct_answer?: string;
+  multi_select_scoring?: MultiSelectScoring | null;
+  /** Option indexes that keep their position when options are shuffled, e.g. "None of the above". */
+  pinned_options?: number[] | null;
+  /** Left-hand items of a matching question; `options` holds the right-hand items. */
+  match_prompts?: string[] | null;
+  arrangement_scoring?: ArrangementScoring | null;
   passage?: string;
+  numeric_answer?: NumericAnswerKey | null;
+  /** Cloze answer keys; `text` marks blank n as "[[n]]". */
+  cloze_blanks?: ClozeBlank[] | null;
+  /** Let the AI evaluator decide on cloze answers that miss every accepted answer, e.g. misspellings. */
+  cloze_ai_fallback?: boolean | null;
   comprehension_questions?: ComprehensionQuestion[];
   expected_word_limit?: number | null;
+  /** Longest recording a student may make for an audio-response question. */
+  max_recording_seconds?: number | null;
+  /** Score audio responses with the AI evaluator from a transcript; otherwise a teacher grades them. */
+  audio_ai_scoring?: boolean | null;
+  /** MIME types a file-upload question accepts; see src/utils/uploads.ts. */
+  allowed_file_types?: string[] | null;
+  /** Largest file, in megabytes, a file-upload question accepts. */
+  max_file_size_mb?: number | null;
+  /** Free-text marking notes, used only when there is no `rubric`. */
   marking_scheme?: string | null;
+  /** Structured rubric for subjective questions; see src/utils/rubrics.ts. */
+  rubric?: RubricCriterion[] | null;
   sample_answer?: string | null;
+  /** Set while editing when the question was inserted from the question bank, and on drawn questions. */
+  bank_question_id?: string | null;
+  /** The random-draw section a drawn question came from. */
+  pool_section_id?: string | null;
+}
+
+// One line of the requested question mix for AI generation, e.g. 5 MCQs at 1 mark each.
+export interface QuestionMixItem {
+  type: QuestionType;
+  count: number;
+  marks: number;
+}
+
+export interface QuestionGenerationRequest {
+  topic: string;
+  gradeLevel: string;
+  sourceText?: string;
+  questionMix: QuestionMixItem[];
+}
+
+// A teacher-owned class. Students join with `join_code` or are enrolled by the teacher.
+// `student_ids` is only populated for the class's teacher (or an admin).
+export interface ClassGroup {
+  id: string;
+  name: string;
+  teacher_id: string;
+  join_code: string;
+  created_at?: string;
+  student_ids: string[];
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+// A reusable question in a teacher's bank. Shared questions are visible to every
+// teacher, but only the owner (or an admin) may edit or delete them.
+export interface BankQuestion {
+  id: string;
+  owner_id: string;
+  owner_name?: string | null;
+  question: Question;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  learning_objective: string | null;
+  tags: string[];
+  is_shared: boolean;
+  created_at?: string;
+  updated_at?: string;
+  /** Tests this question has been saved into. */
+  usage: { test_id: string; test_title: string }[];
+}
+
+// Draws `count` random questions, each worth `marks`, from the bank questions that
+// match every filter that is set. Each attempt gets its own draw.
+export interface QuestionPoolSection {
+  id: string;
+  title: string;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  tags: string[];
+  count: number;
+  marks: number;
 }
 
+export type BankQuestionInput = Pick<BankQuestion, 'question' | 'topic' | 'difficulty' | 'learning_objective' | 'tags' | 'is_shared'> & { id?: string };
+
+// Lifecycle chosen by the teacher. Students never see 'draft' or 'archived' tests.
+export type TestStatus = 'draft' | 'published' | 'closed' | 'archived';
+
+// Which of a student's attempts counts towards their grade.
+export type ScoringPolicy = 'best' | 'latest' | 'average';
+
 export interface Test {
   id?: string;
   title: string;
   class: string;
   timer: number | null;
+  status?: TestStatus;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  // Classes the test is assigned to. An empty list keeps the test open to every student.
+  class_ids?: string[];
+  // `null` allows unlimited attempts / no wait between attempts.
+  max_attempts?: number | null;
+  attempt_cooldown_minutes?: number | null;
+  scoring_policy?: ScoringPolicy;
+  // Fullscreen lockdown: questions stay hidden outside fullscreen, paste is blocked, and
+  // the attempt is auto-submitted after `lockdown_max_violations` violations (`null` only warns).
+  lockdown_enabled?: boolean;
+  lockdown_max_violations?: number | null;
+  // Shuffle per attempt; answers and scores always stay in the canonical order.
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
+  // Random-draw sections appended after `questions`; `total_marks` includes them.
+  pool_sections?: QuestionPoolSection[];
   total_marks: number;
   questions: Question[];
   created_by?: string;
@@ -57,10 +225,28 @@ export interface Test {
   total_questions: number;
 }
 
+// How a question's score was produced: marked against the answer key ('auto'),
+// by the AI evaluator ('ai'), a mix of both for comprehension questions, or
+// overridden by a teacher ('manual'). 'pending' scores are placeholders (0 marks)
+// until a teacher grades the answer, e.g. an audio response.
+export type ScoreSource = 'auto' | 'ai' | 'mixed' | 'manual' | 'pending';
+
 export interface QuestionScore {
     score: number;
     feedback: string;
     maxMarks?: number;
+    source?: ScoreSource;
+    // Present when the question was scored against its rubric.
+    criterionScores?: CriterionScore[];
+    // Reading comprehension only: one entry per sub-question, summing to `score`.
+    subScores?: SubQuestionScore[];
+}
+
+export interface SubQuestionScore {
+    score: number;
+    feedback: string;
+    maxMarks: number;
+    source?: 'auto' | 'ai' | 'manual';
 }
 
 export interface EvaluationResult {
@@ -74,6 +260,32 @@ export interface EvaluationResult {
     totalPossibleMarks?: number;
 }
 
+// A teacher's change to one question's score, as sent to `override-grade`.
+export interface GradeOverrideInput {
+    questionIndex: number;
+    score: number;
+    feedback?: string;
+    reason: string;
+    // Rubric levels the teacher picked; `score` is derived from them.
+    criterionScores?: CriterionScore[];
+    // Reading comprehension: the score for each sub-question; `score` must be their sum.
+    subScores?: { score: number; feedback?: string }[];
+}
+
+// One audit entry in a submission's grade history.
+export interface GradeOverride {
+    questionIndex: number;
+    originalScore: number;
+    previousScore: number;
+    newScore: number;
+    previousFeedback: string;
+    newFeedback: string;
+    reason: string;
+    changedBy: string;
+    changedByName: string;
+    changedAt: string;
+}
+
 export interface TestResult {
     id?: string;
     test_id: string;
@@ -82,9 +294,54 @@ export interface TestResult {
     student_name: string;
     answers: (string | Record<number, string>)[];
     evaluation: EvaluationResult;
+    grade_history?: GradeOverride[];
+    // Incremented on every grade override, so concurrent overrides cannot overwrite each other.
+    grade_version?: number;
     submitted_at?: string;
+    attempt_id?: string | null;
+    started_at?: string | null;
+    // Set when the submission reached the server after the attempt's deadline plus the grace period.
+    is_late?: boolean;
+    late_by_seconds?: number | null;
+    integrity_events?: IntegrityEvent[];
+    shuffle_seed?: number | null;
+    // Questions drawn from pool sections for this attempt, appended after the test's own questions.
+    drawn_questions?: Question[] | null;
+}
+
+export type IntegrityEventType = 'tab-hidden' | 'window-blur' | 'fullscreen-exit' | 'paste-attempt' | 'devtools-suspected' | 'idle';
+
+// Something the browser noticed during an attempt that a teacher may want to review.
+export interface IntegrityEvent {
+    type: IntegrityEventType;
+    at: string;
+    detail?: string;
+    // How long the student was away or inactive, when known.
+    durationMs?: number;
+}
+
+// A started attempt as returned by `start-attempt`. `deadlineAt` is `null` for
+// untimed tests without a closing date.
+export interface StartedAttempt {
+    attemptId: string;
+    startedAt: string;
+    deadlineAt: string | null;
+    serverTime: number;
+    // Seed for `buildAttemptLayout`, fixed for the life of the attempt.
+    shuffleSeed: number | null;
+    // This attempt's draw from the test's pool sections, without answer keys.
+    drawnQuestions: Question[];
 }
 
+// A started attempt that was never submitted, as returned by `get-my-attempts`. These
+// count towards the test's attempt limit, but a resumable one can always be continued.
+export interface UnsubmittedAttempt {
+    test_id: string;
+    started_at: string;
+    is_resumable: boolean;
+}
+
+// Averages use one score per student per test, chosen by the test's scoring policy.
 export interface AnalyticsData {
   overallStats: {
     averageScore: number;
@@ -95,12 +352,22 @@ export interface AnalyticsData {
     testTitle: string;
     averageScore: number;
     submissionCount: number;
+    studentCount: number;
   }[];
   mostDifficultQuestions: {
     questionText: string;
     testTitle: string;
     averageSuccessRate: number;
   }[];
+  // Reading comprehension sub-questions, weakest first.
+  subQuestionPerformance: {
+    questionText: string;
+    subQuestionNumber: number;
+    subQuestionText: string;
+    testTitle: string;
+    averageSuccessRate: number;
+    count: number;
+  }[];
   performanceTrend: {
     date: string;
     testTitle: string;
@@ -5,6 +5,8 @@ import { dataService } from '../services/dataService';
 import { useToast } from '../contexts/ToastContext';
 import type { AnalyticsData } from '../types';
 import { SkeletonLine } from '../components/SkeletonLoader';
+import { MathText } from '../components/MathText';
+import { richTextToPlainText } from '../src/utils/richText';
 
 interface AnalyticsProps {
   navigateTo: (view: 'dashboard') => void;
@@ -110,7 +112,10 @@ const AnalyticsView: React.FC<AnalyticsProps> = ({ navigateTo }) => {
                 {analyticsData.performanceByTest.map(test => (
                     <div key={test.testTitle}>
                         <div className="flex justify-between items-center text-sm mb-1">
-                            <span className="font-medium text-gray-700 dark:text-slate-300">{test.testTitle}</span>
+                            <span className="font-medium text-gray-700 dark:text-slate-300">
+                                {test.testTitle}
+                                <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{test.studentCount} students · {test.submissionCount} attempts</span>
+                            </span>
                             <span className="font-semibold text-gray-800 dark:text-slate-200">{test.averageScore.toFixed(1)}%</span>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2.5 dark:bg-slate-700">
@@ -148,6 +153,37 @@ const AnalyticsView: React.FC<AnalyticsProps> = ({ navigateTo }) => {
         </div>
       </div>
       
+       {/* Reading Comprehension Sub-questions */}
+      {analyticsData.subQuestionPerformance.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+          <h3 className="text-xl font-bold text-gray-800 dark:text-slate-100 mb-1">Reading Comprehension Sub-questions</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">How students did on each sub-question, weakest first.</p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b dark:border-slate-700">
+                <tr>
+                  <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Sub-question</th>
+                  <th className="py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Answers</th>
+                  <th className="py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Success Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analyticsData.subQuestionPerformance.slice(0, 10).map((sub, i) => (
+                  <tr key={i} className="border-b dark:border-slate-700">
+                    <td className="py-3 pr-2">
+                      <p className="text-sm font-medium text-gray-800 dark:text-slate-200">{sub.subQuestionNumber}. <MathText text={sub.subQuestionText} /></p>
+                      <p className="text-xs text-gray-500 truncate dark:text-gray-400" title={richTextToPlainText(sub.questionText)}>{sub.testTitle} · {richTextToPlainText(sub.questionText)}</p>
+                    </td>
+                    <td className="py-3 text-right text-sm text-gray-600 dark:text-gray-400">{sub.count}</td>
+                    <td className={`py-3 text-right text-sm font-bold ${sub.averageSuccessRate >= 80 ? 'text-green-600 dark:text-green-400' : sub.averageSuccessRate >= 60 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-500 dark:text-red-400'}`}>{sub.averageSuccessRate.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
        {/* Performance Trend */}
       {analyticsData.performanceTrend.length > 1 && (
         <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
@@ -2,9 +2,24 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { dataService } from '../services/dataService';
+import { aiService } from '../services/aiService';
 import { useToast } from '../contexts/ToastContext';
 import { v4 as uuidv4 } from 'uuid';
-import type { Question, QuestionType, ComprehensionQuestion, Test, UserProfile } from '../types';
+import { SCORING_POLICY_LABELS } from '../src/utils/attempts';
+import { MULTI_SELECT_SCORING_LABELS, parseChoiceSet, toggleChoice } from '../src/utils/grading';
+import { optionLetter } from '../src/utils/shuffle';
+import { blankMarker, countClozeBlanks, getClozeBlankProblem, getClozeMarks, syncClozeBlanks } from '../src/utils/cloze';
+import { ARRANGEMENT_SCORING_LABELS, getMatchingPairs, getOrderingItems, toMatchingFields, toOrderingFields, type MatchingPair } from '../src/utils/arrangement';
+import { getNumericKeyProblem } from '../src/utils/numeric';
+import { DEFAULT_RECORDING_SECONDS, MAX_RECORDING_SECONDS, MIN_RECORDING_SECONDS } from '../src/utils/audio';
+import { DEFAULT_ALLOWED_FILE_TYPES, DEFAULT_MAX_FILE_SIZE_MB, FILE_TYPE_CHOICES, MAX_FILE_SIZE_MB, getAllowedFileTypes } from '../src/utils/uploads';
+import { MAX_OPTIONS, MIN_OPTIONS, addOption, hasValidChoiceKey, moveOption, removeOption, togglePinnedOption, type ChoiceFields } from '../src/utils/options';
+import { MathText } from '../components/MathText';
+import { RubricBuilder } from '../components/RubricBuilder';
+import { EquationAid } from '../components/EquationAid';
+import { RichTextPreview, RichTextToolbar } from '../components/RichTextToolbar';
+import { findPoolShortfalls, getSectionsMarks, getSectionsQuestionCount, matchesSection } from '../src/utils/pools';
+import type { Question, QuestionType, ComprehensionQuestion, Test, TestStatus, UserProfile, QuestionMixItem, ClassGroup, ScoringPolicy, BankQuestion, QuestionDifficulty, QuestionPoolSection, MultiSelectScoring, ClozeBlank, ArrangementScoring, NumericAnswerKey } from '../types';
 
 interface TempQuestion extends Question {
     tempId: string;
@@ -16,16 +31,6 @@ interface CreateTestViewProps {
   onPreviewTest: (test: Test) => void;
 }
 
-const MiniToolbar: React.FC<{ onFormat: (tag: 'b' | 'i' | 'u') => void }> = ({ onFormat }) => {
-    return (
-        <div className="flex space-x-1 mb-1">
-            <button type="button" onClick={() => onFormat('b')} className="px-2 py-0.5 text-sm bg-gray-200 dark:bg-slate-600 rounded font-bold" aria-label="Bold">B</button>
-            <button type="button" onClick={() => onFormat('i')} className="px-2 py-0.5 text-sm bg-gray-200 dark:bg-slate-600 rounded italic" aria-label="Italic">I</button>
-            <button type="button" onClick={() => onFormat('u')} className="px-2 py-0.5 text-sm bg-gray-200 dark:bg-slate-600 rounded underline" aria-label="Underline">U</button>
-        </div>
-    );
-};
-
 const WordCounter: React.FC<{ text: string }> = ({ text }) => {
     const wordCount = text.trim() === '' ? 0 : text.trim().split(/\s+/).length;
     return (
@@ -35,15 +40,41 @@ const WordCounter: React.FC<{ text: string }> = ({ text }) => {
     );
 };
 
+// `datetime-local` inputs work in local time without a zone, while tests store ISO timestamps.
+const toDateTimeInputValue = (iso?: string | null) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromDateTimeInputValue = (value: string) => (value ? new Date(value).toISOString() : null);
+
 const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit, onPreviewTest }) => {
     const { profile } = useAuth();
     const { addToast } = useToast();
     const [title, setTitle] = useState('');
     const [testClass, setTestClass] = useState('');
     const [timer, setTimer] = useState<number | null>(null);
+    const [status, setStatus] = useState<TestStatus>('published');
+    const [opensAt, setOpensAt] = useState<string | null>(null);
+    const [closesAt, setClosesAt] = useState<string | null>(null);
+    const [classIds, setClassIds] = useState<string[]>([]);
+    const [maxAttempts, setMaxAttempts] = useState<number | null>(null);
+    const [cooldownMinutes, setCooldownMinutes] = useState<number | null>(null);
+    const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy>('latest');
+    const [lockdownEnabled, setLockdownEnabled] = useState(false);
+    const [lockdownMaxViolations, setLockdownMaxViolations] = useState<number | null>(3);
+    const [shuffleQuestions, setShuffleQuestions] = useState(false);
+    const [shuffleOptions, setShuffleOptions] = useState(false);
+    const [availableClasses, setAvailableClasses] = useState<ClassGroup[]>([]);
     const [questions, setQuestions] = useState<TempQuestion[]>([]);
+    const [poolSections, setPoolSections] = useState<QuestionPoolSection[]>([]);
+    // Bank questions the sections can draw from, loaded once the first section exists.
+    const [poolCandidates, setPoolCandidates] = useState<BankQuestion[] | null>(null);
     const [loading, setLoading] = useState(false);
     const [mediaModal, setMediaModal] = useState<{ isOpen: boolean; questionId: string | null }>({ isOpen: false, questionId: null });
+    const [isAiModalOpen, setIsAiModalOpen] = useState(false);
+    const [isBankModalOpen, setIsBankModalOpen] = useState(false);
+    const [questionForBank, setQuestionForBank] = useState<TempQuestion | null>(null);
 
     const isEditMode = !!testToEdit;
     const autoSaveKey = `smartest-autosave-create-${profile?.id}-${testToEdit?.id || 'new'}`;
@@ -60,7 +91,19 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
               setTitle(parsedData.title || '');
               setTestClass(parsedData.testClass || '');
               setTimer(parsedData.timer || null);
+              setStatus(parsedData.status || 'published');
+              setOpensAt(parsedData.opensAt || null);
+              setClosesAt(parsedData.closesAt || null);
+              setClassIds(parsedData.classIds || []);
+              setMaxAttempts(parsedData.maxAttempts ?? null);
+              setCooldownMinutes(parsedData.cooldownMinutes ?? null);
+              setScoringPolicy(parsedData.scoringPolicy || 'latest');
+              setLockdownEnabled(!!parsedData.lockdownEnabled);
+              setLockdownMaxViolations(parsedData.lockdownMaxViolations ?? null);
+              setShuffleQuestions(!!parsedData.shuffleQuestions);
+              setShuffleOptions(!!parsedData.shuffleOptions);
               setQuestions(parsedData.questions || []);
+              setPoolSections(parsedData.poolSections || []);
               if (!hasShownToast.current) {
                 addToast('Your unsaved progress has been restored.', 'info');
                 hasShownToast.current = true;
@@ -77,24 +120,58 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
         setTitle(testToEdit.title);
         setTestClass(testToEdit.class);
         setTimer(testToEdit.timer);
+        setStatus(testToEdit.status || 'published');
+        setOpensAt(testToEdit.opens_at || null);
+        setClosesAt(testToEdit.closes_at || null);
+        setClassIds(testToEdit.class_ids || []);
+        setMaxAttempts(testToEdit.max_attempts ?? null);
+        setCooldownMinutes(testToEdit.attempt_cooldown_minutes ?? null);
+        setScoringPolicy(testToEdit.scoring_policy || 'latest');
+        setLockdownEnabled(!!testToEdit.lockdown_enabled);
+        setLockdownMaxViolations(testToEdit.lockdown_max_violations ?? null);
+        setShuffleQuestions(!!testToEdit.shuffle_questions);
+        setShuffleOptions(!!testToEdit.shuffle_options);
         setQuestions(testToEdit.questions.map(q => ({ ...q, tempId: uuidv4() })));
+        setPoolSections(testToEdit.pool_sections || []);
       } else {
       // 3. Otherwise, it's a new test, so ensure state is clear.
         setTitle('');
         setTestClass('');
         setTimer(null);
+        setStatus('published');
+        setOpensAt(null);
+        setClosesAt(null);
+        setClassIds([]);
+        setMaxAttempts(null);
+        setCooldownMinutes(null);
+        setScoringPolicy('latest');
+        setLockdownEnabled(false);
+        setLockdownMaxViolations(3);
+        setShuffleQuestions(false);
+        setShuffleOptions(false);
         setQuestions([]);
+        setPoolSections([]);
       }
     }, [isEditMode, testToEdit, addToast, autoSaveKey]);
+
+    useEffect(() => {
+        dataService.getClasses()
+            .then(data => setAvailableClasses(data || []))
+            .catch(err => addToast(`Failed to load classes: ${err.message}`, 'error'));
+    }, [addToast]);
+
+    const toggleClassId = (classId: string) => {
+        setClassIds(prev => (prev.includes(classId) ? prev.filter(id => id !== classId) : [...prev, classId]));
+    };
     
     // Auto-save logic
-    const currentStateRef = useRef({ title, testClass, timer, questions });
-    currentStateRef.current = { title, testClass, timer, questions };
+    const currentStateRef = useRef({ title, testClass, timer, status, opensAt, closesAt, classIds, maxAttempts, cooldownMinutes, scoringPolicy, lockdownEnabled, lockdownMaxViolations, shuffleQuestions, shuffleOptions, questions, poolSections });
+    currentStateRef.current = { title, testClass, timer, status, opensAt, closesAt, classIds, maxAttempts, cooldownMinutes, scoringPolicy, lockdownEnabled, lockdownMaxViolations, shuffleQuestions, shuffleOptions, questions, poolSections };
 
     useEffect(() => {
         const intervalId = setInterval(() => {
-            const { title, questions } = currentStateRef.current;
-            if (!title.trim() && questions.length === 0) {
+            const { title, questions, poolSections } = currentStateRef.current;
+            if (!title.trim() && questions.length === 0 && poolSections.length === 0) {
                 return; // Don't save an empty test
             }
 
@@ -118,7 +195,16 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
         return total + q.comprehension_questions.reduce((compTotal, compQ) => compTotal + (compQ.marks || 0), 0);
       }
       return total + (q.marks || 0);
-    }, 0);
+    }, getSectionsMarks(poolSections));
+    const totalQuestions = questions.length + getSectionsQuestionCount(poolSections);
+    const poolShortfalls = poolCandidates ? findPoolShortfalls(poolSections, poolCandidates) : [];
+
+    useEffect(() => {
+        if (poolSections.length === 0 || poolCandidates !== null) return;
+        dataService.getQuestionBank()
+            .then(data => setPoolCandidates(data || []))
+            .catch(err => addToast(`Failed to load the question bank: ${err.message}`, 'error'));
+    }, [poolSections.length, poolCandidates, addToast]);
 
     const addQuestion = () => {
         const newQuestion: TempQuestion = {
@@ -132,6 +218,28 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
         setQuestions([...questions, newQuestion]);
     };
     
+    const acceptGeneratedQuestions = (drafts: Question[]) => {
+        setQuestions(prev => [...prev, ...drafts.map(q => ({ ...q, tempId: uuidv4() }))]);
+    };
+
+    // Bank questions are copied in; `bank_question_id` lets save-test record where they were used.
+    const insertBankQuestions = (bankQuestions: BankQuestion[]) => {
+        setQuestions(prev => [...prev, ...bankQuestions.map(b => ({ ...b.question, bank_question_id: b.id, tempId: uuidv4() }))]);
+        addToast(`${bankQuestions.length} ${bankQuestions.length === 1 ? 'question' : 'questions'} added from the bank.`, 'success');
+    };
+
+    const addPoolSection = () => {
+        setPoolSections(prev => [...prev, { id: uuidv4(), title: `Random Section ${prev.length + 1}`, topic: title.trim() || null, difficulty: null, tags: [], count: 5, marks: 1 }]);
+    };
+
+    const updatePoolSection = (id: string, field: Partial<QuestionPoolSection>) => {
+        setPoolSections(prev => prev.map(section => (section.id === id ? { ...section, ...field } : section)));
+    };
+
+    const removePoolSection = (id: string) => {
+        setPoolSections(prev => prev.filter(section => section.id !== id));
+    };
+
     const updateQuestion = useCallback((tempId: string, updatedField: Partial<TempQuestion>) => {
         setQuestions(prev => prev.map(q => q.tempId === tempId ? { ...q, ...updatedField } : q));
     }, []);
@@ -145,10 +253,50 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
             addToast('Please enter a test title.', 'error');
             return;
         }
-        if (questions.length === 0) {
-            addToast('Please add at least one question.', 'error');
+        if (questions.length === 0 && poolSections.length === 0) {
+            addToast('Please add at least one question or random-draw section.', 'error');
+            return;
+        }
+        if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+            addToast('The closing date must be after the opening date.', 'error');
             return;
         }
+        // Removing an option can drop the answer key, so check every choice question still has one.
+        const isChoice = (type: string) => type === 'multiple-choice' || type === 'multi-select';
+        for (const [i, q] of questions.entries()) {
+            if (isChoice(q.type) && !hasValidChoiceKey(q)) {
+                addToast(q.type === 'multi-select' ? `Question ${i + 1} needs at least one correct option.` : `Question ${i + 1} needs a correct option.`, 'error');
+                return;
+            }
+            if (q.type === 'cloze') {
+                if (countClozeBlanks(q.text) === 0) {
+                    addToast(`Question ${i + 1} needs at least one blank, e.g. [[1]].`, 'error');
+                    return;
+                }
+                const blankIndex = (q.cloze_blanks || []).findIndex(blank => getClozeBlankProblem(blank));
+                if (blankIndex !== -1) {
+                    addToast(`Blank ${blankIndex + 1} of question ${i + 1} ${getClozeBlankProblem(q.cloze_blanks![blankIndex])}.`, 'error');
+                    return;
+                }
+            }
+            if (q.type === 'matching' && getMatchingPairs(q).pairs.some(pair => !pair.prompt.trim() || !pair.answer.trim())) {
+                addToast(`Question ${i + 1} needs text on both sides of every pair.`, 'error');
+                return;
+            }
+            if (q.type === 'numeric' && getNumericKeyProblem(q.numeric_answer)) {
+                addToast(`Question ${i + 1} ${getNumericKeyProblem(q.numeric_answer)}.`, 'error');
+                return;
+            }
+            if (q.type === 'ordering' && getOrderingItems(q).some(item => !item.trim())) {
+                addToast(`Question ${i + 1} has an empty item to order.`, 'error');
+                return;
+            }
+            const subIndex = (q.type === 'reading-comprehension' ? q.comprehension_questions || [] : []).findIndex(cq => isChoice(cq.type) && !hasValidChoiceKey(cq));
+            if (subIndex !== -1) {
+                addToast(`Sub-question ${subIndex + 1} of question ${i + 1} needs a correct option.`, 'error');
+                return;
+            }
+        }
 
         setLoading(true);
 
@@ -157,10 +305,22 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
             title,
             class: testClass,
             timer,
+            status,
+            opens_at: opensAt,
+            closes_at: closesAt,
+            class_ids: classIds,
+            max_attempts: maxAttempts,
+            attempt_cooldown_minutes: cooldownMinutes,
+            scoring_policy: scoringPolicy,
+            lockdown_enabled: lockdownEnabled,
+            lockdown_max_violations: lockdownEnabled ? lockdownMaxViolations : null,
+            shuffle_questions: shuffleQuestions,
+            shuffle_options: shuffleOptions,
+            pool_sections: poolSections,
             total_marks: totalMarks,
             questions: questions.map(({ tempId, ...q }) => q), // Remove temp fields
             created_by: profile?.id,
-            total_questions: questions.length,
+            total_questions: totalQuestions,
         };
 
         try {
@@ -181,7 +341,7 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
     };
     
     const handlePreview = () => {
-        if (!title.trim() || questions.length === 0) {
+        if (!title.trim() || (questions.length === 0 && poolSections.length === 0)) {
             addToast('Please add a title and at least one question to preview.', 'error');
             return;
         }
@@ -189,9 +349,10 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
             title,
             class: testClass,
             timer,
+            pool_sections: poolSections,
             total_marks: totalMarks,
             questions: questions.map(({ tempId, ...q }) => q),
-            total_questions: questions.length,
+            total_questions: totalQuestions,
         };
         onPreviewTest(testToPreview);
     };
@@ -225,8 +386,77 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
                     <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Time Limit (minutes)</label>
                     <input type="number" value={timer === null ? '' : timer} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTimer(e.target.value ? parseInt(e.target.value) : null)} className="w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600" placeholder="Optional" />
                 </div>
-                <div className="md:col-span-2 flex items-center justify-start text-sm text-gray-600 dark:text-gray-400">
-                    <span className="mr-4">Total Questions: <span className="font-bold text-gray-800 dark:text-slate-200">{questions.length}</span></span>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Status</label>
+                    <select value={status} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStatus(e.target.value as TestStatus)} className="w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                        <option value="draft">Draft (hidden from students)</option>
+                        <option value="published">Published</option>
+                        <option value="closed">Closed</option>
+                        <option value="archived">Archived</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Opens At</label>
+                    <input type="datetime-local" value={toDateTimeInputValue(opensAt)} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOpensAt(fromDateTimeInputValue(e.target.value))} className="w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Closes At</label>
+                    <input type="datetime-local" value={toDateTimeInputValue(closesAt)} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClosesAt(fromDateTimeInputValue(e.target.value))} className="w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Maximum Attempts</label>
+                    <input type="number" min={1} value={maxAttempts === null ? '' : maxAttempts} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxAttempts(e.target.value ? Math.max(1, parseInt(e.target.value)) : null)} className="w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600" placeholder="Unlimited" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Wait Between Attempts (minutes)</label>
+                    <input type="number" min={0} value={cooldownMinutes === null ? '' : cooldownMinutes} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCooldownMinutes(e.target.value ? Math.max(0, parseInt(e.target.value)) : null)} className="w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600" placeholder="None" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Attempt That Counts</label>
+                    <select value={scoringPolicy} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setScoringPolicy(e.target.value as ScoringPolicy)} className="w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                        {(Object.keys(SCORING_POLICY_LABELS) as ScoringPolicy[]).map(policy => (
+                            <option key={policy} value={policy}>{SCORING_POLICY_LABELS[policy]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="md:col-span-2 flex items-center">
+                    <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={lockdownEnabled} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLockdownEnabled(e.target.checked)} className="mr-2 h-4 w-4" />
+                        🔒 Fullscreen lockdown (questions are hidden outside fullscreen and pasting is blocked)
+                    </label>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Auto-submit After Violations</label>
+                    <input type="number" min={1} disabled={!lockdownEnabled} value={lockdownMaxViolations === null ? '' : lockdownMaxViolations} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLockdownMaxViolations(e.target.value ? Math.max(1, parseInt(e.target.value)) : null)} className="w-full p-2 border rounded-md disabled:opacity-50 dark:bg-slate-700 dark:border-slate-600" placeholder="Never (warn only)" />
+                </div>
+                <div className="md:col-span-3 flex flex-wrap gap-x-6 gap-y-2">
+                    <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={shuffleQuestions} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setShuffleQuestions(e.target.checked)} className="mr-2 h-4 w-4" />
+                        🔀 Shuffle question order for each student
+                    </label>
+                    <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={shuffleOptions} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setShuffleOptions(e.target.checked)} className="mr-2 h-4 w-4" />
+                        🔀 Shuffle multiple-choice options (📌 pinned options stay in place)
+                    </label>
+                </div>
+                <div className="md:col-span-3">
+                    <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Assign to Classes</label>
+                    {availableClasses.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">No classes yet. Without an assignment, every student can see this test.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-x-4 gap-y-2">
+                            {availableClasses.map(c => (
+                                <label key={c.id} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                                    <input type="checkbox" checked={classIds.includes(c.id)} onChange={() => toggleClassId(c.id)} className="mr-2 h-4 w-4" />
+                                    {c.name}
+                                </label>
+                            ))}
+                            {classIds.length === 0 && <span className="text-xs text-gray-500 dark:text-gray-400">Leave all unchecked to make the test available to every student.</span>}
+                        </div>
+                    )}
+                </div>
+                <div className="md:col-span-3 flex items-center justify-start text-sm text-gray-600 dark:text-gray-400">
+                    <span className="mr-4">Total Questions: <span className="font-bold text-gray-800 dark:text-slate-200">{totalQuestions}</span></span>
                     <span>Total Marks: <span className="font-bold text-gray-800 dark:text-slate-200">{totalMarks}</span></span>
                 </div>
             </div>
@@ -240,6 +470,17 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
                         updateQuestion={updateQuestion}
                         removeQuestion={removeQuestion}
                         onOpenMediaModal={(id) => setMediaModal({ isOpen: true, questionId: id })}
+                        onSaveToBank={setQuestionForBank}
+                    />
+                ))}
+                {poolSections.map(section => (
+                    <PoolSectionEditor
+                        key={section.id}
+                        section={section}
+                        candidates={poolCandidates}
+                        shortfall={poolShortfalls.find(s => s.section.id === section.id)?.available ?? null}
+                        updateSection={updatePoolSection}
+                        removeSection={removePoolSection}
                     />
                 ))}
             </div>
@@ -248,6 +489,9 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
                 <div className="max-w-7xl mx-auto flex flex-wrap items-center justify-between">
                     <div className="space-x-2 mb-2 md:mb-0">
                         <button onClick={addQuestion} className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg">➕ Add Question</button>
+                        <button onClick={() => setIsAiModalOpen(true)} className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg">✨ Generate with AI</button>
+                        <button onClick={addPoolSection} className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg">🎲 Add Random Section</button>
+                        <button onClick={() => setIsBankModalOpen(true)} className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg">📚 Insert from Bank</button>
                     </div>
                     <div className="space-x-2">
                         <button onClick={handlePreview} className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg">👁️ Preview</button>
@@ -266,6 +510,432 @@ const CreateTestView: React.FC<CreateTestViewProps> = ({ navigateTo, testToEdit,
                     onSave={handleSaveMedia}
                 />
             )}
+
+            {isAiModalOpen && (
+                <AiGenerateModal
+                    defaultTopic={title}
+                    defaultGradeLevel={testClass}
+                    onAccept={acceptGeneratedQuestions}
+                    onClose={() => setIsAiModalOpen(false)}
+                />
+            )}
+
+            {isBankModalOpen && (
+                <QuestionBankModal
+                    onInsert={insertBankQuestions}
+                    onClose={() => setIsBankModalOpen(false)}
+                />
+            )}
+
+            {questionForBank && (
+                <SaveToBankModal
+                    question={questionForBank}
+                    defaultTopic={title}
+                    onClose={() => setQuestionForBank(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+    'multiple-choice': 'Multiple Choice',
+    'multi-select': 'Multiple Select',
+    'true-false': 'True/False',
+    'short-answer': 'Short Answer',
+    'long-answer': 'Long Answer',
+    'reading-comprehension': 'Reading Comprehension',
+    'cloze': 'Fill in the Blanks',
+    'matching': 'Matching',
+    'ordering': 'Ordering',
+    'numeric': 'Numeric',
+    'audio-response': 'Audio Response',
+    'file-upload': 'File Upload',
+};
+
+// Types the question generator can draft.
+const AI_GENERATABLE_TYPES: QuestionType[] = ['multiple-choice', 'multi-select', 'true-false', 'short-answer', 'long-answer', 'reading-comprehension'];
+
+interface AiGenerateModalProps {
+    defaultTopic: string;
+    defaultGradeLevel: string;
+    onAccept: (drafts: Question[]) => void;
+    onClose: () => void;
+}
+
+const AiGenerateModal: React.FC<AiGenerateModalProps> = ({ defaultTopic, defaultGradeLevel, onAccept, onClose }) => {
+    const { addToast } = useToast();
+    const [topic, setTopic] = useState(defaultTopic);
+    const [gradeLevel, setGradeLevel] = useState(defaultGradeLevel);
+    const [sourceText, setSourceText] = useState('');
+    const [questionMix, setQuestionMix] = useState<QuestionMixItem[]>([
+        { type: 'multiple-choice', count: 5, marks: 1 },
+        { type: 'short-answer', count: 2, marks: 3 },
+    ]);
+    const [drafts, setDrafts] = useState<{ id: string; question: Question }[]>([]);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const commonInputClasses = "w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600";
+
+    const updateMixItem = (mixIndex: number, field: Partial<QuestionMixItem>) => {
+        setQuestionMix(prev => prev.map((item, i) => (i === mixIndex ? { ...item, ...field } : item)));
+    };
+
+    const handleGenerate = async () => {
+        if (!topic.trim() && !sourceText.trim()) {
+            addToast('Please enter a topic or paste some notes.', 'error');
+            return;
+        }
+        if (!questionMix.some(item => item.count > 0)) {
+            addToast('Please request at least one question.', 'error');
+            return;
+        }
+        setIsGenerating(true);
+        try {
+            const generated = await aiService.generateQuestions({ topic, gradeLevel, sourceText, questionMix });
+            setDrafts(generated.map(question => ({ id: uuidv4(), question })));
+            addToast(`${generated.length} draft questions generated. Review and accept the ones you want.`, 'success');
+        } catch (error: any) {
+            addToast(`Question generation failed: ${error.message}`, 'error');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const acceptDraft = (id: string) => {
+        const draft = drafts.find(d => d.id === id);
+        if (!draft) return;
+        onAccept([draft.question]);
+        setDrafts(prev => prev.filter(d => d.id !== id));
+    };
+
+    const acceptAll = () => {
+        onAccept(drafts.map(d => d.question));
+        setDrafts([]);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
+            <div className="bg-white p-8 rounded-lg shadow-2xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto dark:bg-slate-800">
+                <h3 className="text-2xl font-bold text-gray-900 mb-4 dark:text-slate-100">✨ Generate Questions with AI</h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Topic</label>
+                        <input type="text" value={topic} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTopic(e.target.value)} className={commonInputClasses} placeholder="e.g., Photosynthesis" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Grade Level</label>
+                        <input type="text" value={gradeLevel} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGradeLevel(e.target.value)} className={commonInputClasses} placeholder="e.g., Grade 8" />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Notes or Passage (Optional)</label>
+                        <textarea value={sourceText} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSourceText(e.target.value)} className={commonInputClasses} rows={5} placeholder="Paste lesson notes or a passage to base the questions on." />
+                    </div>
+                </div>
+
+                <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-300">Question Mix</label>
+                    <div className="space-y-2">
+                        {questionMix.map((item, mixIndex) => (
+                            <div key={mixIndex} className="flex items-center gap-2">
+                                <select value={item.type} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateMixItem(mixIndex, { type: e.target.value as QuestionType })} className={`${commonInputClasses} !w-56`}>
+                                    {AI_GENERATABLE_TYPES.map(type => <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>)}
+                                </select>
+                                <input type="number" min={0} value={item.count} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateMixItem(mixIndex, { count: parseInt(e.target.value, 10) || 0 })} className={`${commonInputClasses} !w-20`} aria-label="Number of questions" />
+                                <span className="text-sm text-gray-600 dark:text-gray-400">questions ×</span>
+                                <input type="number" min={0} value={item.marks} disabled={item.type === 'reading-comprehension'} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateMixItem(mixIndex, { marks: parseInt(e.target.value, 10) || 0 })} className={`${commonInputClasses} !w-20`} aria-label="Marks per question" />
+                                <span className="text-sm text-gray-600 dark:text-gray-400">marks</span>
+                                <button onClick={() => setQuestionMix(prev => prev.filter((_, i) => i !== mixIndex))} className="text-xs text-red-500 hover:text-red-700">remove</button>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => setQuestionMix(prev => [...prev, { type: 'multiple-choice', count: 1, marks: 1 }])} className="mt-2 text-sm bg-gray-200 px-2 py-1 rounded dark:bg-slate-700">Add Row</button>
+                </div>
+
+                {drafts.length > 0 && (
+                    <div className="mt-6 space-y-3">
+                        <h4 className="font-semibold text-gray-800 dark:text-slate-200">Drafts ({drafts.length})</h4>
+                        {drafts.map(({ id, question }) => (
+                            <div key={id} className="p-3 border rounded-lg bg-gray-50 dark:bg-slate-900/50 dark:border-slate-700">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div className="text-sm">
+                                        <p className="text-xs font-medium text-purple-700 dark:text-purple-300">{QUESTION_TYPE_LABELS[question.type]} · {question.type === 'reading-comprehension' ? `${(question.comprehension_questions || []).length} sub-questions` : `${question.marks} marks`}</p>
+                                        <MathText text={question.text} html as="p" className="font-medium text-gray-800 dark:text-slate-200" />
+                                        {question.options && (question.type === 'multiple-choice' || question.type === 'multi-select') && (
+                                            <ul className="mt-1 space-y-0.5">
+                                                {question.options.map((opt, i) => (
+                                                    <li key={i} className={parseChoiceSet(question.correct_answer).includes(optionLetter(i)) ? 'text-green-700 font-semibold dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}>
+                                                        {optionLetter(i)}. <MathText text={opt} />
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        {question.type === 'true-false' && <p className="mt-1 text-green-700 dark:text-green-400">Answer: {question.correct_answer}</p>}
+                                        {question.marking_scheme && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Marking scheme: {question.marking_scheme}</p>}
+                                    </div>
+                                    <div className="flex flex-col space-y-1 shrink-0">
+                                        <button onClick={() => acceptDraft(id)} className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm">Accept</button>
+                                        <button onClick={() => setDrafts(prev => prev.filter(d => d.id !== id))} className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded text-sm dark:bg-slate-600 dark:hover:bg-slate-500 dark:text-slate-100">Discard</button>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex justify-end space-x-3 pt-6">
+                    <button type="button" onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold px-6 py-2 rounded-lg dark:bg-slate-600 dark:hover:bg-slate-500 dark:text-slate-100">Close</button>
+                    {drafts.length > 0 && (
+                        <button type="button" onClick={acceptAll} className="bg-green-600 hover:bg-green-700 text-white font-semibold px-6 py-2 rounded-lg">Accept All</button>
+                    )}
+                    <button type="button" onClick={handleGenerate} disabled={isGenerating} className="bg-purple-600 hover:bg-purple-700 text-white font-semibold px-6 py-2 rounded-lg disabled:bg-purple-400">
+                        {isGenerating ? 'Generating...' : drafts.length > 0 ? 'Regenerate' : 'Generate'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard',
+};
+
+const parseTags = (value: string) => value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+
+interface SaveToBankModalProps {
+    question: TempQuestion;
+    defaultTopic: string;
+    onClose: () => void;
+}
+
+const SaveToBankModal: React.FC<SaveToBankModalProps> = ({ question, defaultTopic, onClose }) => {
+    const { addToast } = useToast();
+    const [topic, setTopic] = useState(defaultTopic);
+    const [difficulty, setDifficulty] = useState<QuestionDifficulty | ''>('');
+    const [learningObjective, setLearningObjective] = useState('');
+    const [tags, setTags] = useState('');
+    const [isShared, setIsShared] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const commonInputClasses = "w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600";
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const { tempId, ...content } = question;
+            await dataService.saveBankQuestion({
+                question: content,
+                topic: topic.trim() || null,
+                difficulty: difficulty || null,
+                learning_objective: learningObjective.trim() || null,
+                tags: parseTags(tags),
+                is_shared: isShared,
+            });
+            addToast('Question saved to your bank.', 'success');
+            onClose();
+        } catch (error: any) {
+            addToast(`Failed to save question: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
+            <div className="bg-white p-8 rounded-lg shadow-2xl max-w-lg w-full mx-4 dark:bg-slate-800">
+                <h3 className="text-2xl font-bold text-gray-900 mb-1 dark:text-slate-100">📚 Save to Question Bank</h3>
+                <p className="text-sm text-gray-600 mb-4 truncate dark:text-gray-400">{QUESTION_TYPE_LABELS[question.type]} · {question.text || question.passage || 'Untitled question'}</p>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Topic</label>
+                        <input type="text" value={topic} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTopic(e.target.value)} className={commonInputClasses} placeholder="e.g., Photosynthesis" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Difficulty</label>
+                        <select value={difficulty} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDifficulty(e.target.value as QuestionDifficulty | '')} className={commonInputClasses}>
+                            <option value="">Not set</option>
+                            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Learning Objective</label>
+                        <input type="text" value={learningObjective} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLearningObjective(e.target.value)} className={commonInputClasses} placeholder="e.g., Explain the role of chlorophyll" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">Tags</label>
+                        <input type="text" value={tags} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTags(e.target.value)} className={commonInputClasses} placeholder="Comma separated, e.g., biology, plants" />
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={isShared} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIsShared(e.target.checked)} />
+                        <span>Share with other teachers</span>
+                    </label>
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-6">
+                    <button type="button" onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold px-6 py-2 rounded-lg dark:bg-slate-600 dark:hover:bg-slate-500 dark:text-slate-100">Cancel</button>
+                    <button type="button" onClick={handleSave} disabled={isSaving} className="bg-teal-600 hover:bg-teal-700 text-white font-semibold px-6 py-2 rounded-lg disabled:bg-teal-400">
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface QuestionBankModalProps {
+    onInsert: (questions: BankQuestion[]) => void;
+    onClose: () => void;
+}
+
+const QuestionBankModal: React.FC<QuestionBankModalProps> = ({ onInsert, onClose }) => {
+    const { profile } = useAuth();
+    const { addToast } = useToast();
+    const [bank, setBank] = useState<BankQuestion[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [search, setSearch] = useState('');
+    const [topicFilter, setTopicFilter] = useState('');
+    const [difficultyFilter, setDifficultyFilter] = useState<QuestionDifficulty | ''>('');
+    const [typeFilter, setTypeFilter] = useState<QuestionType | ''>('');
+    const [tagFilter, setTagFilter] = useState('');
+    const [scope, setScope] = useState<'all' | 'mine' | 'shared'>('all');
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [questionToDelete, setQuestionToDelete] = useState<BankQuestion | null>(null);
+    const commonInputClasses = "w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600";
+
+    useEffect(() => {
+        dataService.getQuestionBank()
+            .then(data => setBank(data || []))
+            .catch(err => addToast(`Failed to load the question bank: ${err.message}`, 'error'))
+            .finally(() => setIsLoading(false));
+    }, [addToast]);
+
+    const topics = [...new Set(bank.map(b => b.topic).filter((t): t is string => !!t))].sort();
+    const wantedTags = parseTags(tagFilter);
+    const query = search.trim().toLowerCase();
+
+    const filtered = bank.filter(b => {
+        if (scope === 'mine' && b.owner_id !== profile?.id) return false;
+        if (scope === 'shared' && b.owner_id === profile?.id) return false;
+        if (topicFilter && b.topic !== topicFilter) return false;
+        if (difficultyFilter && b.difficulty !== difficultyFilter) return false;
+        if (typeFilter && b.question.type !== typeFilter) return false;
+        if (wantedTags.some(tag => !b.tags.includes(tag))) return false;
+        if (query) {
+            const haystack = [b.question.text, b.question.passage, b.topic, b.learning_objective, ...b.tags].filter(Boolean).join(' ').toLowerCase();
+            if (!haystack.includes(query)) return false;
+        }
+        return true;
+    });
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+    };
+
+    const handleInsert = () => {
+        onInsert(bank.filter(b => selectedIds.includes(b.id)));
+        onClose();
+    };
+
+    const handleDelete = async () => {
+        if (!questionToDelete) return;
+        try {
+            await dataService.deleteBankQuestion(questionToDelete.id);
+            setBank(prev => prev.filter(b => b.id !== questionToDelete.id));
+            setSelectedIds(prev => prev.filter(id => id !== questionToDelete.id));
+            addToast('Question removed from the bank.', 'success');
+        } catch (error: any) {
+            addToast(`Failed to delete question: ${error.message}`, 'error');
+        } finally {
+            setQuestionToDelete(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
+            <div className="bg-white p-8 rounded-lg shadow-2xl max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto dark:bg-slate-800">
+                <h3 className="text-2xl font-bold text-gray-900 mb-4 dark:text-slate-100">📚 Question Bank</h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input type="search" value={search} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)} className={`${commonInputClasses} md:col-span-2`} placeholder="Search question text, topics and objectives..." />
+                    <select value={scope} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setScope(e.target.value as 'all' | 'mine' | 'shared')} className={commonInputClasses} aria-label="Owner">
+                        <option value="all">My and shared questions</option>
+                        <option value="mine">My questions</option>
+                        <option value="shared">Shared by others</option>
+                    </select>
+                    <select value={topicFilter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTopicFilter(e.target.value)} className={commonInputClasses} aria-label="Topic">
+                        <option value="">All topics</option>
+                        {topics.map(topic => <option key={topic} value={topic}>{topic}</option>)}
+                    </select>
+                    <select value={difficultyFilter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDifficultyFilter(e.target.value as QuestionDifficulty | '')} className={commonInputClasses} aria-label="Difficulty">
+                        <option value="">Any difficulty</option>
+                        {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                    <select value={typeFilter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTypeFilter(e.target.value as QuestionType | '')} className={commonInputClasses} aria-label="Question type">
+                        <option value="">Any type</option>
+                        {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                    <input type="text" value={tagFilter} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTagFilter(e.target.value)} className={`${commonInputClasses} md:col-span-3`} placeholder="Filter by tags, comma separated" />
+                </div>
+
+                <div className="mt-4 space-y-3">
+                    {isLoading ? (
+                        <p className="text-center text-gray-500 py-8 dark:text-gray-400">Loading question bank...</p>
+                    ) : filtered.length === 0 ? (
+                        <p className="text-center text-gray-500 py-8 dark:text-gray-400">{bank.length === 0 ? 'Your bank is empty. Use 📚 on a question to save it here.' : 'No questions match these filters.'}</p>
+                    ) : filtered.map(b => (
+                        <div key={b.id} className={`p-3 border rounded-lg dark:border-slate-700 ${selectedIds.includes(b.id) ? 'bg-teal-50 border-teal-400 dark:bg-teal-900/30' : 'bg-gray-50 dark:bg-slate-900/50'}`}>
+                            <div className="flex items-start gap-3">
+                                <input type="checkbox" className="mt-1" checked={selectedIds.includes(b.id)} onChange={() => toggleSelected(b.id)} aria-label="Select question" />
+                                <div className="flex-1 text-sm">
+                                    <p className="text-xs font-medium text-teal-700 dark:text-teal-300">
+                                        {QUESTION_TYPE_LABELS[b.question.type]}
+                                        {b.topic && ` · ${b.topic}`}
+                                        {b.difficulty && ` · ${DIFFICULTY_LABELS[b.difficulty]}`}
+                                        {b.owner_id !== profile?.id && ` · Shared by ${b.owner_name || 'another teacher'}`}
+                                    </p>
+                                    <MathText text={b.question.text || b.question.passage} html as="p" className="font-medium text-gray-800 dark:text-slate-200" />
+                                    {b.learning_objective && <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">Objective: {b.learning_objective}</p>}
+                                    {b.tags.length > 0 && (
+                                        <div className="mt-1 flex flex-wrap gap-1">
+                                            {b.tags.map(tag => <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-200 text-gray-700 dark:bg-slate-700 dark:text-gray-300">{tag}</span>)}
+                                        </div>
+                                    )}
+                                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                        {b.usage.length === 0 ? 'Not used in any tests yet' : `Used in ${b.usage.length} ${b.usage.length === 1 ? 'test' : 'tests'}: ${b.usage.map(u => u.test_title).join(', ')}`}
+                                    </p>
+                                </div>
+                                {(b.owner_id === profile?.id || profile?.role === 'admin') && (
+                                    <button onClick={() => setQuestionToDelete(b)} className="text-red-500 hover:text-red-700 shrink-0" title="Delete from Bank">🗑️</button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-6">
+                    <button type="button" onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold px-6 py-2 rounded-lg dark:bg-slate-600 dark:hover:bg-slate-500 dark:text-slate-100">Close</button>
+                    <button type="button" onClick={handleInsert} disabled={selectedIds.length === 0} className="bg-teal-600 hover:bg-teal-700 text-white font-semibold px-6 py-2 rounded-lg disabled:bg-teal-400">
+                        Insert {selectedIds.length > 0 ? selectedIds.length : ''} {selectedIds.length === 1 ? 'Question' : 'Questions'}
+                    </button>
+                </div>
+            </div>
+
+            {questionToDelete && (
+                <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
+                    <div className="bg-white p-6 rounded-lg shadow-2xl max-w-md w-full mx-4 dark:bg-slate-800">
+                        <h4 className="text-lg font-bold text-gray-900 mb-2 dark:text-slate-100">Delete from bank?</h4>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">This removes the question from the bank. Tests that already include it keep their copy.</p>
+                        <div className="flex justify-end space-x-3 pt-4">
+                            <button type="button" onClick={() => setQuestionToDelete(null)} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold px-4 py-2 rounded-lg dark:bg-slate-600 dark:hover:bg-slate-500 dark:text-slate-100">Cancel</button>
+                            <button type="button" onClick={handleDelete} className="bg-red-600 hover:bg-red-700 text-white font-semibold px-4 py-2 rounded-lg">Delete</button>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -406,24 +1076,197 @@ const MediaModal: React.FC<MediaModalProps> = ({ profile, initialMedia, onClose,
     );
 };
 
+interface PoolSectionEditorProps {
+    section: QuestionPoolSection;
+    // `null` while the bank is still loading.
+    candidates: BankQuestion[] | null;
+    // How many questions the pool can actually supply, when that is fewer than the section draws.
+    shortfall: number | null;
+    updateSection: (id: string, field: Partial<QuestionPoolSection>) => void;
+    removeSection: (id: string) => void;
+}
+
+const PoolSectionEditor: React.FC<PoolSectionEditorProps> = ({ section, candidates, shortfall, updateSection, removeSection }) => {
+    const [tagsText, setTagsText] = useState(section.tags.join(', '));
+    const commonInputClasses = "w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600";
+    const matchingCount = candidates ? candidates.filter(c => matchesSection(c, section)).length : null;
+
+    return (
+        <div className="p-4 border-2 border-dashed border-orange-300 rounded-lg bg-orange-50/50 dark:bg-slate-900/50 dark:border-orange-800 relative">
+            <div className="absolute top-2 right-2">
+                <button onClick={() => removeSection(section.id)} className="text-red-500 hover:text-red-700" title="Delete Section">🗑️</button>
+            </div>
+            <h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">🎲 Random-Draw Section</h4>
+            <p className="text-xs text-gray-600 mb-3 dark:text-gray-400">Each student gets a different random set of matching bank questions, drawn when they start the test.</p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="md:col-span-2">
+                    <label className="block text-sm font-medium dark:text-gray-300">Section Title</label>
+                    <input type="text" value={section.title} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSection(section.id, { title: e.target.value })} className={commonInputClasses} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium dark:text-gray-300">Questions to Draw</label>
+                    <input type="number" min={1} value={section.count} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSection(section.id, { count: Math.max(1, parseInt(e.target.value, 10) || 1) })} className={commonInputClasses} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium dark:text-gray-300">Marks Each</label>
+                    <input type="number" min={0} value={section.marks} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSection(section.id, { marks: Math.max(0, parseInt(e.target.value, 10) || 0) })} className={commonInputClasses} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium dark:text-gray-300">Topic</label>
+                    <input type="text" value={section.topic || ''} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSection(section.id, { topic: e.target.value || null })} className={commonInputClasses} placeholder="Any topic" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium dark:text-gray-300">Difficulty</label>
+                    <select value={section.difficulty || ''} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateSection(section.id, { difficulty: (e.target.value || null) as QuestionDifficulty | null })} className={commonInputClasses}>
+                        <option value="">Any difficulty</option>
+                        {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                </div>
+                <div className="md:col-span-2">
+                    <label className="block text-sm font-medium dark:text-gray-300">Tags (all required)</label>
+                    <input type="text" value={tagsText} onChange={(e: React.ChangeEvent<HTMLInputElement>) => { setTagsText(e.target.value); updateSection(section.id, { tags: parseTags(e.target.value) }); }} className={commonInputClasses} placeholder="Comma separated" />
+                </div>
+            </div>
+            <p className={`mt-3 text-sm ${shortfall !== null ? 'text-red-600 font-medium dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                {matchingCount === null
+                    ? 'Checking the question bank...'
+                    : shortfall !== null
+                        ? `Only ${shortfall} matching ${shortfall === 1 ? 'question is' : 'questions are'} available for this section. Add more to the bank or draw fewer.`
+                        : `${matchingCount} matching ${matchingCount === 1 ? 'question' : 'questions'} in the bank · ${section.count * section.marks} marks per paper`}
+            </p>
+        </div>
+    );
+};
+
+interface OptionListEditorProps {
+    fields: ChoiceFields;
+    /** Radio group name for single-answer questions. */
+    name: string;
+    onChange: (changes: Partial<ChoiceFields>) => void;
+    allowPinning?: boolean;
+    compact?: boolean;
+}
+
+// Options for a choice question. Moving or removing an option goes through the option
+// helpers, so the answer key and pins follow the option rather than its letter.
+const OptionListEditor: React.FC<OptionListEditorProps> = ({ fields, name, onChange, allowPinning = false, compact = false }) => {
+    const options = fields.options || [];
+    const isMulti = fields.type === 'multi-select';
+    const inputClasses = `w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600 ${compact ? 'text-sm' : ''}`;
+    const iconButtonClasses = 'px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed dark:text-gray-400 dark:hover:text-gray-200';
+
+    return (
+        <div className={compact ? 'space-y-1' : ''}>
+            {options.map((opt, i) => {
+                const letter = optionLetter(i);
+                const isPinned = (fields.pinned_options || []).includes(i);
+                return (
+                    <div key={i} className={`flex items-center space-x-2 ${compact ? '' : 'mb-2'}`}>
+                        {isMulti ? (
+                            <input type="checkbox" checked={parseChoiceSet(fields.correct_answer).includes(letter)} onChange={() => onChange({ correct_answer: toggleChoice(fields.correct_answer, letter) })} aria-label={`Option ${letter} is correct`} />
+                        ) : (
+                            <input type="radio" name={name} value={letter} checked={fields.correct_answer === letter} onChange={() => onChange({ correct_answer: letter })} aria-label={`Option ${letter} is correct`} />
+                        )}
+                        <span className={`font-mono ${compact ? 'text-sm' : ''}`}>{letter}.</span>
+                        <input type="text" value={opt} onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            const newOptions = [...options]; newOptions[i] = e.target.value;
+                            onChange({ options: newOptions });
+                        }} className={inputClasses} placeholder={`Option ${i + 1}`} />
+                        {allowPinning && (
+                            <button type="button" onClick={() => onChange(togglePinnedOption(fields, i))} className={`${iconButtonClasses} ${isPinned ? '' : 'opacity-40'}`} title={isPinned ? 'Pinned: stays in place when options are shuffled' : 'Pin in place when options are shuffled'} aria-pressed={isPinned}>📌</button>
+                        )}
+                        <button type="button" onClick={() => onChange(moveOption(fields, i, i - 1))} disabled={i === 0} className={iconButtonClasses} title="Move up">↑</button>
+                        <button type="button" onClick={() => onChange(moveOption(fields, i, i + 1))} disabled={i === options.length - 1} className={iconButtonClasses} title="Move down">↓</button>
+                        <button type="button" onClick={() => onChange(removeOption(fields, i))} disabled={options.length <= MIN_OPTIONS} className={`${iconButtonClasses} hover:text-red-600`} title="Remove option">✕</button>
+                    </div>
+                );
+            })}
+            <button type="button" onClick={() => onChange(addOption(fields))} disabled={options.length >= MAX_OPTIONS} className="mt-1 text-sm text-indigo-600 hover:underline disabled:opacity-50 disabled:no-underline dark:text-indigo-400">
+                + Add Option {options.length >= MAX_OPTIONS ? `(max ${MAX_OPTIONS})` : ''}
+            </button>
+        </div>
+    );
+};
+
+const DEFAULT_NUMERIC_KEY: NumericAnswerKey = { value: 0, tolerance: 0, tolerance_type: 'absolute', units: [], unit_required: false, sig_figs: null };
+
+// The value and units are edited as text, so "6.02e" or "m/" can be typed on the way to a valid key.
+const NumericKeyEditor: React.FC<{ numericKey: NumericAnswerKey; onChange: (numericKey: NumericAnswerKey) => void }> = ({ numericKey, onChange }) => {
+    const [valueText, setValueText] = useState(String(numericKey.value));
+    const [unitsText, setUnitsText] = useState(numericKey.units.join(', '));
+    const commonInputClasses = "w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600";
+    const problem = getNumericKeyProblem(numericKey);
+
+    return (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+                <label className="block text-sm font-medium dark:text-gray-300">Correct Value</label>
+                <input type="text" inputMode="decimal" value={valueText} onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    setValueText(e.target.value);
+                    const value = e.target.value.trim() === '' ? NaN : Number(e.target.value);
+                    onChange({ ...numericKey, value });
+                }} className={commonInputClasses} placeholder="e.g. 9.81 or 6.02e23" />
+            </div>
+            <div>
+                <label className="block text-sm font-medium dark:text-gray-300">Tolerance</label>
+                <div className="flex gap-2">
+                    <input type="number" min={0} step="any" value={numericKey.tolerance} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...numericKey, tolerance: Math.max(0, Number(e.target.value) || 0) })} className={commonInputClasses} />
+                    <select value={numericKey.tolerance_type} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange({ ...numericKey, tolerance_type: e.target.value as NumericAnswerKey['tolerance_type'] })} className={`${commonInputClasses} !w-20`} aria-label="Tolerance type">
+                        <option value="absolute">±</option>
+                        <option value="relative">%</option>
+                    </select>
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium dark:text-gray-300">Accepted Units</label>
+                <input type="text" value={unitsText} onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    setUnitsText(e.target.value);
+                    onChange({ ...numericKey, units: e.target.value.split(',').map(unit => unit.trim()).filter(Boolean) });
+                }} className={commonInputClasses} placeholder="e.g. m/s, m s^-1" />
+                <label className="mt-1 flex items-center text-xs text-gray-600 dark:text-gray-400">
+                    <input type="checkbox" checked={numericKey.unit_required} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...numericKey, unit_required: e.target.checked })} className="mr-1.5" />
+                    Unit required
+                </label>
+            </div>
+            <div>
+                <label className="block text-sm font-medium dark:text-gray-300">Significant Figures</label>
+                <input type="number" min={1} max={15} value={numericKey.sig_figs ?? ''} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...numericKey, sig_figs: e.target.value ? parseInt(e.target.value, 10) : null })} className={commonInputClasses} placeholder="Any" />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Half marks if the value is right but the figures are not.</p>
+            </div>
+            {problem && <p className="md:col-span-4 text-xs text-red-600 dark:text-red-400">This question {problem}.</p>}
+        </div>
+    );
+};
+
 interface QuestionEditorProps {
     question: TempQuestion;
     index: number;
     updateQuestion: (tempId: string, updatedField: Partial<TempQuestion>) => void;
     removeQuestion: (tempId: string) => void;
     onOpenMediaModal: (tempId: string) => void;
+    onSaveToBank: (question: TempQuestion) => void;
 }
 
-const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, updateQuestion, removeQuestion, onOpenMediaModal }) => {
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, updateQuestion, removeQuestion, onOpenMediaModal, onSaveToBank }) => {
     const commonInputClasses = "w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600";
+    const questionTextRef = useRef<HTMLTextAreaElement>(null);
+    const passageRef = useRef<HTMLTextAreaElement>(null);
 
     const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const newType = e.target.value as QuestionType;
-        const updatedFields: Partial<TempQuestion> = { type: newType };
+        const updatedFields: Partial<TempQuestion> = { type: newType, multi_select_scoring: null, pinned_options: null, cloze_blanks: null, cloze_ai_fallback: null, match_prompts: null, arrangement_scoring: null, numeric_answer: null, max_recording_seconds: null, audio_ai_scoring: null, allowed_file_types: null, max_file_size_mb: null };
+        // Options and pins carry over between the two choice types; anything else starts fresh.
+        const keepsOptions = (question.type === 'multiple-choice' || question.type === 'multi-select') && !!question.options;
         // Set defaults for new type
         if (newType === 'multiple-choice') {
-            updatedFields.options = ['', '', '', ''];
-            updatedFields.correct_answer = 'A';
+            updatedFields.options = keepsOptions ? question.options : ['', '', '', ''];
+            updatedFields.pinned_options = keepsOptions ? question.pinned_options ?? null : null;
+            updatedFields.correct_answer = keepsOptions ? parseChoiceSet(question.correct_answer)[0] || 'A' : 'A';
+        } else if (newType === 'multi-select') {
+            updatedFields.options = keepsOptions ? question.options : ['', '', '', ''];
+            updatedFields.pinned_options = keepsOptions ? question.pinned_options ?? null : null;
+            updatedFields.correct_answer = keepsOptions ? question.correct_answer : '';
+            updatedFields.multi_select_scoring = 'all-or-nothing';
         } else if (newType === 'true-false') {
             updatedFields.options = ['True', 'False'];
             updatedFields.correct_answer = 'True';
@@ -431,6 +1274,28 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
             updatedFields.passage = '';
             updatedFields.comprehension_questions = [];
             updatedFields.marks = 0; // Marks will be sum of sub-questions
+        } else if (newType === 'matching') {
+            Object.assign(updatedFields, toMatchingFields([{ prompt: '', answer: '' }, { prompt: '', answer: '' }], []));
+            updatedFields.arrangement_scoring = 'per-item';
+        } else if (newType === 'ordering') {
+            Object.assign(updatedFields, toOrderingFields(['', '', '']));
+            updatedFields.arrangement_scoring = 'all-or-nothing';
+        } else if (newType === 'numeric') {
+            delete updatedFields.options;
+            updatedFields.numeric_answer = { ...DEFAULT_NUMERIC_KEY };
+        } else if (newType === 'audio-response') {
+            delete updatedFields.options;
+            updatedFields.max_recording_seconds = DEFAULT_RECORDING_SECONDS;
+            updatedFields.audio_ai_scoring = false;
+        } else if (newType === 'file-upload') {
+            delete updatedFields.options;
+            updatedFields.allowed_file_types = DEFAULT_ALLOWED_FILE_TYPES;
+            updatedFields.max_file_size_mb = DEFAULT_MAX_FILE_SIZE_MB;
+        } else if (newType === 'cloze') {
+            delete updatedFields.options;
+            updatedFields.cloze_blanks = syncClozeBlanks(question.text, null);
+            updatedFields.cloze_ai_fallback = false;
+            updatedFields.marks = getClozeMarks(updatedFields.cloze_blanks); // Marks will be sum of blanks
         } else {
             delete updatedFields.options;
             delete updatedFields.comprehension_questions;
@@ -438,6 +1303,41 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
         updateQuestion(question.tempId, updatedFields);
     };
 
+    // Cloze blanks follow the [[n]] markers in the text; the question is worth the sum of its blanks.
+    const handleTextChange = (text: string) => {
+        if (question.type !== 'cloze') {
+            updateQuestion(question.tempId, { text });
+            return;
+        }
+        const clozeBlanks = syncClozeBlanks(text, question.cloze_blanks);
+        updateQuestion(question.tempId, { text, cloze_blanks: clozeBlanks, marks: getClozeMarks(clozeBlanks) });
+    };
+
+    const updateClozeBlank = (blankIndex: number, changes: Partial<ClozeBlank>) => {
+        const clozeBlanks = (question.cloze_blanks || []).map((blank, i) => (i === blankIndex ? { ...blank, ...changes } : blank));
+        updateQuestion(question.tempId, { cloze_blanks: clozeBlanks, marks: getClozeMarks(clozeBlanks) });
+    };
+
+    const insertClozeBlank = () => {
+        const textarea = questionTextRef.current;
+        const position = textarea ? textarea.selectionEnd : question.text.length;
+        const marker = blankMarker(countClozeBlanks(question.text));
+        handleTextChange(`${question.text.slice(0, position)}${marker}${question.text.slice(position)}`);
+    };
+
+    // Matching and ordering are edited as pairs / items in their correct order; the helpers
+    // turn them back into options plus a letter key. save-test scrambles the stored order.
+    const matching = question.type === 'matching' ? getMatchingPairs(question) : { pairs: [], distractors: [] };
+    const setMatching = (pairs: MatchingPair[], distractors: string[]) => updateQuestion(question.tempId, toMatchingFields(pairs, distractors));
+    const orderingItems = question.type === 'ordering' ? getOrderingItems(question) : [];
+    const setOrderingItems = (items: string[]) => updateQuestion(question.tempId, toOrderingFields(items));
+    const moveOrderingItem = (from: number, to: number) => {
+        const items = [...orderingItems];
+        const [moved] = items.splice(from, 1);
+        items.splice(to, 0, moved);
+        setOrderingItems(items);
+    };
+
     const addComprehensionQuestion = () => {
         const newCompQ: ComprehensionQuestion = { question: '', type: 'short-answer', marks: 1, sample_answer: '' };
         updateQuestion(question.tempId, { comprehension_questions: [...(question.comprehension_questions || []), newCompQ] });
@@ -448,6 +1348,11 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
         updateQuestion(question.tempId, { comprehension_questions: updatedCompQs });
     };
     
+    const patchComprehensionQuestion = (compIndex: number, changes: Partial<ComprehensionQuestion>) => {
+        const updatedCompQs = (question.comprehension_questions || []).map((q, i) => (i === compIndex ? { ...q, ...changes } : q));
+        updateQuestion(question.tempId, { comprehension_questions: updatedCompQs });
+    };
+
     const removeComprehensionQuestion = (compIndex: number) => {
         const updatedCompQs = (question.comprehension_questions || []).filter((_, i) => i !== compIndex);
         updateQuestion(question.tempId, { comprehension_questions: updatedCompQs });
@@ -459,8 +1364,8 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
 
         // Set defaults for the new type
         if (newType === 'multiple-choice') {
-            updatedCompQ.options = updatedCompQ.options?.length === 4 ? updatedCompQ.options : ['', '', '', ''];
-            updatedCompQ.correct_answer = updatedCompQ.correct_answer || 'A';
+            updatedCompQ.options = ['', '', '', ''];
+            updatedCompQ.correct_answer = 'A';
         } else if (newType === 'true-false') {
             updatedCompQ.options = ['True', 'False'];
             updatedCompQ.correct_answer = updatedCompQ.correct_answer || 'True';
@@ -488,23 +1393,33 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
         <div className="p-4 border rounded-lg bg-gray-50 dark:bg-slate-900/50 dark:border-slate-700 relative">
             <div className="absolute top-2 right-2 flex items-center space-x-2">
                  <button onClick={() => onOpenMediaModal(question.tempId)} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200" title="Add Media">📎</button>
+                <button onClick={() => onSaveToBank(question)} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200" title="Save to Question Bank">📚</button>
                 <button onClick={() => removeQuestion(question.tempId)} className="text-red-500 hover:text-red-700" title="Delete Question">🗑️</button>
             </div>
             <h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-2">Question {index + 1}</h4>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="md:col-span-3">
                     <label className="block text-sm font-medium dark:text-gray-300">Question Text</label>
-                     <MiniToolbar onFormat={(tag) => {/* ... */}} />
-                    <textarea value={question.text} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateQuestion(question.tempId, { text: e.target.value })} className={commonInputClasses} rows={2} />
+                    <RichTextToolbar textareaRef={questionTextRef} value={question.text} onChange={handleTextChange} />
+                    <textarea ref={questionTextRef} value={question.text} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleTextChange(e.target.value)} className={commonInputClasses} rows={question.type === 'cloze' ? 4 : 2} />
+                    <EquationAid textareaRef={questionTextRef} value={question.text} onChange={handleTextChange} />
+                    <RichTextPreview value={question.text} />
                 </div>
                 <div>
                     <label className="block text-sm font-medium dark:text-gray-300">Type</label>
                     <select value={question.type} onChange={handleTypeChange} className={commonInputClasses}>
                         <option value="multiple-choice">Multiple Choice</option>
+                        <option value="multi-select">Multiple Select (choose all that apply)</option>
                         <option value="true-false">True/False</option>
                         <option value="short-answer">Short Answer</option>
                         <option value="long-answer">Long Answer</option>
                         <option value="reading-comprehension">Reading Comprehension</option>
+                        <option value="cloze">Fill in the Blanks</option>
+                        <option value="matching">Matching</option>
+                        <option value="ordering">Ordering</option>
+                        <option value="numeric">Numeric</option>
+                        <option value="audio-response">Audio Response (spoken answer)</option>
+                        <option value="file-upload">File Upload (document or photo)</option>
                     </select>
                 </div>
             </div>
@@ -512,16 +1427,21 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
             {/* Type-specific fields */}
             {question.type === 'multiple-choice' && (
                 <div className="mt-4">
-                    {question.options?.map((opt, i) => (
-                        <div key={i} className="flex items-center space-x-2 mb-2">
-                             <input type="radio" name={`correct-${question.tempId}`} value={String.fromCharCode(65 + i)} checked={question.correct_answer === String.fromCharCode(65 + i)} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateQuestion(question.tempId, { correct_answer: e.target.value })} />
-                            <span className="font-mono">{String.fromCharCode(65 + i)}.</span>
-                            <input type="text" value={opt} onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-                                const newOptions = [...question.options!]; newOptions[i] = e.target.value;
-                                updateQuestion(question.tempId, { options: newOptions });
-                            }} className={commonInputClasses} placeholder={`Option ${i+1}`} />
-                        </div>
-                    ))}
+                    <OptionListEditor fields={question} name={`correct-${question.tempId}`} onChange={changes => updateQuestion(question.tempId, changes)} allowPinning />
+                </div>
+            )}
+            {question.type === 'multi-select' && (
+                <div className="mt-4">
+                    <p className="text-xs text-gray-500 mb-2 dark:text-gray-400">Tick every correct option.</p>
+                    <OptionListEditor fields={question} name={`correct-${question.tempId}`} onChange={changes => updateQuestion(question.tempId, changes)} allowPinning />
+                    <div className="mt-2 max-w-sm">
+                        <label className="block text-sm font-medium dark:text-gray-300">Scoring</label>
+                        <select value={question.multi_select_scoring || 'all-or-nothing'} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateQuestion(question.tempId, { multi_select_scoring: e.target.value as MultiSelectScoring })} className={commonInputClasses}>
+                            {(Object.keys(MULTI_SELECT_SCORING_LABELS) as MultiSelectScoring[]).map(mode => (
+                                <option key={mode} value={mode}>{MULTI_SELECT_SCORING_LABELS[mode]}</option>
+                            ))}
+                        </select>
+                    </div>
                 </div>
             )}
              {question.type === 'true-false' && (
@@ -534,7 +1454,9 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
                  <div className="mt-4 space-y-4">
                      <div>
                          <label className="block text-sm font-medium dark:text-gray-300">Reading Passage</label>
-                         <textarea value={question.passage} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateQuestion(question.tempId, { passage: e.target.value })} className={commonInputClasses} rows={5} />
+                         <RichTextToolbar textareaRef={passageRef} value={question.passage || ''} onChange={passage => updateQuestion(question.tempId, { passage })} />
+                         <textarea ref={passageRef} value={question.passage} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateQuestion(question.tempId, { passage: e.target.value })} className={commonInputClasses} rows={5} />
+                         <RichTextPreview value={question.passage || ''} />
                      </div>
                      <div className="space-y-3">
                         {question.comprehension_questions?.map((cq, cqIndex) => (
@@ -568,31 +1490,26 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
                                     </div>
                                 </div>
 
-                                <textarea
-                                    value={cq.marking_scheme ?? ''}
-                                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateComprehensionQuestion(cqIndex, 'marking_scheme', e.target.value)}
-                                    className={`${commonInputClasses} text-sm`}
-                                    rows={2}
-                                    placeholder="Optional: Marking scheme for this sub-question"
-                                />
+                                {cq.type === 'short-answer' && (
+                                    <RubricBuilder rubric={cq.rubric} marks={cq.marks} onChange={rubric => updateComprehensionQuestion(cqIndex, 'rubric', rubric)} />
+                                )}
+                                {cq.marking_scheme && (
+                                    <textarea
+                                        value={cq.marking_scheme}
+                                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateComprehensionQuestion(cqIndex, 'marking_scheme', e.target.value)}
+                                        className={`${commonInputClasses} text-sm`}
+                                        rows={2}
+                                        placeholder="Marking notes, used only when there is no rubric"
+                                    />
+                                )}
                                 
                                 {cq.type === 'short-answer' && (
                                     <textarea value={cq.sample_answer ?? ''} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateComprehensionQuestion(cqIndex, 'sample_answer', e.target.value)} className={`${commonInputClasses} text-sm`} rows={2} placeholder="Sample answer for AI evaluation" />
                                 )}
                                 
                                 {cq.type === 'multiple-choice' && (
-                                    <div className="mt-2 pl-4 space-y-1">
-                                        {cq.options?.map((opt, optIndex) => (
-                                            <div key={optIndex} className="flex items-center space-x-2">
-                                                <input type="radio" name={`correct-sub-${question.tempId}-${cqIndex}`} value={String.fromCharCode(65 + optIndex)} checked={cq.correct_answer === String.fromCharCode(65 + optIndex)} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateComprehensionQuestion(cqIndex, 'correct_answer', e.target.value)} />
-                                                <span className="font-mono text-sm">{String.fromCharCode(65 + optIndex)}.</span>
-                                                <input type="text" value={opt} onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-                                                    const newOptions = [...(cq.options || [])];
-                                                    newOptions[optIndex] = e.target.value;
-                                                    updateComprehensionQuestion(cqIndex, 'options', newOptions);
-                                                }} className={`${commonInputClasses} text-sm`} placeholder={`Option ${optIndex + 1}`} />
-                                            </div>
-                                        ))}
+                                    <div className="mt-2 pl-4">
+                                        <OptionListEditor fields={cq} name={`correct-sub-${question.tempId}-${cqIndex}`} onChange={changes => patchComprehensionQuestion(cqIndex, changes as Partial<ComprehensionQuestion>)} compact />
                                     </div>
                                 )}
                                 {cq.type === 'true-false' && (
@@ -608,6 +1525,132 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
                  </div>
              )}
 
+             {question.type === 'matching' && (
+                 <div className="mt-4 space-y-2">
+                     <p className="text-xs text-gray-500 dark:text-gray-400">Write each pair as it should be matched. Students see the right-hand items shuffled, along with any distractors.</p>
+                     {matching.pairs.map((pair, pairIndex) => (
+                         <div key={pairIndex} className="flex items-center space-x-2">
+                             <input type="text" value={pair.prompt} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMatching(matching.pairs.map((p, i) => (i === pairIndex ? { ...p, prompt: e.target.value } : p)), matching.distractors)} className={commonInputClasses} placeholder={`Item ${pairIndex + 1}`} />
+                             <span className="text-gray-500 dark:text-gray-400">↔</span>
+                             <input type="text" value={pair.answer} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMatching(matching.pairs.map((p, i) => (i === pairIndex ? { ...p, answer: e.target.value } : p)), matching.distractors)} className={commonInputClasses} placeholder={`Match for item ${pairIndex + 1}`} />
+                             <button type="button" onClick={() => setMatching(matching.pairs.filter((_, i) => i !== pairIndex), matching.distractors)} disabled={matching.pairs.length <= MIN_OPTIONS} className="px-1.5 text-gray-500 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed dark:text-gray-400" title="Remove pair">✕</button>
+                         </div>
+                     ))}
+                     {matching.distractors.map((distractor, distractorIndex) => (
+                         <div key={`distractor-${distractorIndex}`} className="flex items-center space-x-2">
+                             <span className="w-full text-right text-xs text-gray-500 dark:text-gray-400">Distractor (matches nothing)</span>
+                             <span className="text-gray-500 dark:text-gray-400">↔</span>
+                             <input type="text" value={distractor} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMatching(matching.pairs, matching.distractors.map((d, i) => (i === distractorIndex ? e.target.value : d)))} className={commonInputClasses} placeholder="Extra option" />
+                             <button type="button" onClick={() => setMatching(matching.pairs, matching.distractors.filter((_, i) => i !== distractorIndex))} className="px-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400" title="Remove distractor">✕</button>
+                         </div>
+                     ))}
+                     <div className="flex gap-4">
+                         <button type="button" onClick={() => setMatching([...matching.pairs, { prompt: '', answer: '' }], matching.distractors)} disabled={matching.pairs.length >= MAX_OPTIONS || (question.options?.length || 0) >= MAX_OPTIONS} className="text-sm text-indigo-600 hover:underline disabled:opacity-50 disabled:no-underline dark:text-indigo-400">+ Add Pair</button>
+                         <button type="button" onClick={() => setMatching(matching.pairs, [...matching.distractors, ''])} disabled={(question.options?.length || 0) >= MAX_OPTIONS} className="text-sm text-indigo-600 hover:underline disabled:opacity-50 disabled:no-underline dark:text-indigo-400">+ Add Distractor</button>
+                     </div>
+                     <div className="max-w-sm">
+                         <label className="block text-sm font-medium dark:text-gray-300">Scoring</label>
+                         <select value={question.arrangement_scoring || 'all-or-nothing'} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateQuestion(question.tempId, { arrangement_scoring: e.target.value as ArrangementScoring })} className={commonInputClasses}>
+                             <option value="all-or-nothing">{ARRANGEMENT_SCORING_LABELS['all-or-nothing']}</option>
+                             <option value="per-item">{ARRANGEMENT_SCORING_LABELS['per-item']}</option>
+                         </select>
+                     </div>
+                 </div>
+             )}
+             {question.type === 'ordering' && (
+                 <div className="mt-4 space-y-2">
+                     <p className="text-xs text-gray-500 dark:text-gray-400">List the items in the correct order. Students see them shuffled.</p>
+                     {orderingItems.map((item, itemIndex) => (
+                         <div key={itemIndex} className="flex items-center space-x-2">
+                             <span className="font-mono w-6 text-right">{itemIndex + 1}.</span>
+                             <input type="text" value={item} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOrderingItems(orderingItems.map((it, i) => (i === itemIndex ? e.target.value : it)))} className={commonInputClasses} placeholder={`Step ${itemIndex + 1}`} />
+                             <button type="button" onClick={() => moveOrderingItem(itemIndex, itemIndex - 1)} disabled={itemIndex === 0} className="px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed dark:text-gray-400" title="Move up">↑</button>
+                             <button type="button" onClick={() => moveOrderingItem(itemIndex, itemIndex + 1)} disabled={itemIndex === orderingItems.length - 1} className="px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed dark:text-gray-400" title="Move down">↓</button>
+                             <button type="button" onClick={() => setOrderingItems(orderingItems.filter((_, i) => i !== itemIndex))} disabled={orderingItems.length <= MIN_OPTIONS} className="px-1.5 text-gray-500 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed dark:text-gray-400" title="Remove item">✕</button>
+                         </div>
+                     ))}
+                     <button type="button" onClick={() => setOrderingItems([...orderingItems, ''])} disabled={orderingItems.length >= MAX_OPTIONS} className="text-sm text-indigo-600 hover:underline disabled:opacity-50 disabled:no-underline dark:text-indigo-400">+ Add Item</button>
+                     <div className="max-w-sm">
+                         <label className="block text-sm font-medium dark:text-gray-300">Scoring</label>
+                         <select value={question.arrangement_scoring || 'all-or-nothing'} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateQuestion(question.tempId, { arrangement_scoring: e.target.value as ArrangementScoring })} className={commonInputClasses}>
+                             {(Object.keys(ARRANGEMENT_SCORING_LABELS) as ArrangementScoring[]).map(mode => (
+                                 <option key={mode} value={mode}>{ARRANGEMENT_SCORING_LABELS[mode]}</option>
+                             ))}
+                         </select>
+                     </div>
+                 </div>
+             )}
+             {question.type === 'numeric' && (
+                 <NumericKeyEditor numericKey={question.numeric_answer || DEFAULT_NUMERIC_KEY} onChange={numericAnswer => updateQuestion(question.tempId, { numeric_answer: numericAnswer })} />
+             )}
+             {question.type === 'audio-response' && (
+                 <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                     <div>
+                         <label className="block text-sm font-medium dark:text-gray-300">Longest recording (seconds)</label>
+                         <input type="number" min={MIN_RECORDING_SECONDS} max={MAX_RECORDING_SECONDS} value={question.max_recording_seconds ?? DEFAULT_RECORDING_SECONDS} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateQuestion(question.tempId, { max_recording_seconds: parseInt(e.target.value, 10) || null })} className={commonInputClasses} />
+                     </div>
+                     <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                         <input type="checkbox" checked={!!question.audio_ai_scoring} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateQuestion(question.tempId, { audio_ai_scoring: e.target.checked })} className="mr-2 h-4 w-4" />
+                         Let the AI evaluator score a transcript of the recording (you can still adjust it)
+                     </label>
+                     <p className="md:col-span-2 text-xs text-gray-500 dark:text-gray-400">Students record their answer in the browser. Without AI scoring, you grade each recording against the rubric below.</p>
+                 </div>
+             )}
+             {question.type === 'file-upload' && (
+                 <div className="mt-4 space-y-3">
+                     <div>
+                         <p className="block text-sm font-medium dark:text-gray-300">Accepted file types</p>
+                         <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                             {FILE_TYPE_CHOICES.map(choice => {
+                                 const allowed = getAllowedFileTypes(question);
+                                 const isChecked = allowed.includes(choice.mime);
+                                 return (
+                                     <label key={choice.mime} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                                         <input type="checkbox" checked={isChecked} disabled={isChecked && allowed.length === 1} onChange={() => updateQuestion(question.tempId, { allowed_file_types: isChecked ? allowed.filter(mime => mime !== choice.mime) : [...allowed, choice.mime] })} className="mr-2 h-4 w-4" />
+                                         {choice.label}
+                                     </label>
+                                 );
+                             })}
+                         </div>
+                     </div>
+                     <div className="max-w-xs">
+                         <label className="block text-sm font-medium dark:text-gray-300">Largest file (MB)</label>
+                         <input type="number" min={1} max={MAX_FILE_SIZE_MB} value={question.max_file_size_mb ?? DEFAULT_MAX_FILE_SIZE_MB} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateQuestion(question.tempId, { max_file_size_mb: parseInt(e.target.value, 10) || null })} className={commonInputClasses} />
+                     </div>
+                     <p className="text-xs text-gray-500 dark:text-gray-400">Students upload one file, such as a photo of handwritten work. Files are private to the student and you; you grade each one against the rubric below.</p>
+                 </div>
+             )}
+             {question.type === 'cloze' && (
+                 <div className="mt-4 space-y-3">
+                     <div className="flex items-center justify-between gap-2">
+                         <p className="text-xs text-gray-500 dark:text-gray-400">Write [[1]], [[2]], ... in the question text where each blank goes. Answers ignore case and extra spaces.</p>
+                         <button type="button" onClick={insertClozeBlank} className="text-sm bg-gray-200 px-2 py-1 rounded whitespace-nowrap dark:bg-slate-700">+ Insert Blank</button>
+                     </div>
+                     {(question.cloze_blanks || []).map((blank, blankIndex) => (
+                         <div key={blankIndex} className="p-3 border rounded bg-white dark:bg-slate-800 grid grid-cols-1 md:grid-cols-6 gap-2">
+                             <p className="md:col-span-6 font-medium text-sm text-gray-600 dark:text-gray-300">Blank {blankMarker(blankIndex)}</p>
+                             <div className="md:col-span-3">
+                                 <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">Accepted answers (one per line)</label>
+                                 <textarea value={(blank.accepted_answers || []).join('\n')} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateClozeBlank(blankIndex, { accepted_answers: e.target.value.split('\n') })} className={`${commonInputClasses} text-sm`} rows={2} placeholder={'colour\ncolor'} />
+                             </div>
+                             <div className="md:col-span-2">
+                                 <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">Pattern (optional regex)</label>
+                                 <input type="text" value={blank.pattern ?? ''} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateClozeBlank(blankIndex, { pattern: e.target.value || null })} className={`${commonInputClasses} text-sm font-mono`} placeholder="e.g. colou?r" />
+                             </div>
+                             <div>
+                                 <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">Marks</label>
+                                 <input type="number" min={0} value={blank.marks} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateClozeBlank(blankIndex, { marks: Math.max(0, parseInt(e.target.value, 10) || 0) })} className={`${commonInputClasses} text-sm`} />
+                             </div>
+                             {getClozeBlankProblem(blank) && <p className="md:col-span-6 text-xs text-red-600 dark:text-red-400">This blank {getClozeBlankProblem(blank)}.</p>}
+                         </div>
+                     ))}
+                     <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                         <input type="checkbox" checked={!!question.cloze_ai_fallback} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateQuestion(question.tempId, { cloze_ai_fallback: e.target.checked })} className="mr-2 h-4 w-4" />
+                         Let the AI evaluator accept near misses, such as small misspellings
+                     </label>
+                 </div>
+             )}
+
             <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                     <label className="block text-sm font-medium dark:text-gray-300">Marks</label>
@@ -615,7 +1658,7 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
                         const rawValue = e.target.value;
                         const marks = rawValue === '' ? 0 : parseInt(rawValue, 10);
                         updateQuestion(question.tempId, { marks: isNaN(marks) ? 0 : marks });
-                    }} className={commonInputClasses} disabled={question.type === 'reading-comprehension'} />
+                    }} className={commonInputClasses} disabled={question.type === 'reading-comprehension' || question.type === 'cloze'} />
                 </div>
                  <div>
                     <label className="block text-sm font-medium dark:text-gray-300">Word Limit (Optional)</label>
@@ -629,11 +1672,17 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, update
                         placeholder="e.g., 100"
                     />
                 </div>
-                {(question.type === 'short-answer' || question.type === 'long-answer') ? (
+                {(question.type === 'short-answer' || question.type === 'long-answer' || question.type === 'audio-response' || question.type === 'file-upload') ? (
                     <>
-                        <div>
-                             <label className="block text-sm font-medium dark:text-gray-300">Marking Scheme (Optional)</label>
-                             <textarea value={question.marking_scheme ?? ''} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateQuestion(question.tempId, { marking_scheme: e.target.value })} className={commonInputClasses} rows={3} placeholder="e.g., 1 mark for definition..." />
+                        <div className="md:col-span-2">
+                             <label className="block text-sm font-medium mb-1 dark:text-gray-300">Rubric{question.type === 'audio-response' || question.type === 'file-upload' ? '' : ' (Optional)'}</label>
+                             <RubricBuilder rubric={question.rubric} marks={question.marks} onChange={rubric => updateQuestion(question.tempId, { rubric })} />
+                             {question.marking_scheme && (
+                                 <div className="mt-2">
+                                     <label className="block text-sm font-medium dark:text-gray-300">Marking notes (used only when there is no rubric)</label>
+                                     <textarea value={question.marking_scheme} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateQuestion(question.tempId, { marking_scheme: e.target.value })} className={commonInputClasses} rows={2} />
+                                 </div>
+                             )}
                         </div>
                         <div>
                              <label className="block text-sm font-medium dark:text-gray-300">Sample Answer (Optional)</label>
@@ -5,8 +5,10 @@ import { useTheme } from '../contexts/ThemeContext';
 import { authService } from '../services/authService';
 import { dataService } from '../services/dataService';
 import { useToast } from '../contexts/ToastContext';
-import type { Test, TestResult } from '../types';
+import type { Test, TestResult, UnsubmittedAttempt } from '../types';
 import { SkeletonCard } from '../components/SkeletonLoader';
+import { getTestAvailability, type AvailabilityState } from '../src/utils/availability';
+import { getAttemptStatus, getCountedScore, getScoringPolicy } from '../src/utils/attempts';
 
 interface DashboardProps {
   navigateTo: (view: 'create-test' | 'edit-test' | 'take-test' | 'submissions' | 'user-management' | 'analytics') => void;
@@ -16,6 +18,19 @@ interface DashboardProps {
   onViewResultDetails: (result: TestResult, test: Test) => void;
 }
 
+const availabilityBadgeClass: Record<AvailabilityState, string> = {
+  open: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+  scheduled: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+  closed: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+  draft: 'bg-gray-200 text-gray-700 dark:bg-slate-600 dark:text-slate-200',
+  archived: 'bg-gray-200 text-gray-500 dark:bg-slate-600 dark:text-slate-400',
+};
+
+const AvailabilityBadge: React.FC<{ test: Test }> = ({ test }) => {
+  const { state, label } = getTestAvailability(test);
+  return <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium align-middle ${availabilityBadgeClass[state]}`}>{label}</span>;
+};
+
 interface ProgressData {
   subject: string;
   averageScore: number;
@@ -28,10 +43,13 @@ const DashboardView: React.FC<DashboardProps> = ({ navigateTo, onStartTest, onEd
   const { addToast } = useToast();
   const [tests, setTests] = useState<Test[]>([]);
   const [mySubmissions, setMySubmissions] = useState<TestResult[]>([]);
+  const [myUnsubmittedAttempts, setMyUnsubmittedAttempts] = useState<UnsubmittedAttempt[]>([]);
   const [isLoadingTests, setIsLoadingTests] = useState(true);
   const [testToDelete, setTestToDelete] = useState<Test | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [selectedClass, setSelectedClass] = useState('all');
+  const [joinCode, setJoinCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
 
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -41,8 +59,9 @@ const DashboardView: React.FC<DashboardProps> = ({ navigateTo, onStartTest, onEd
             setTests(testsData);
 
             if (profile?.role === 'student' && profile.id) {
-                const submissionsData = await dataService.getMyTestResults();
+                const [submissionsData, unsubmittedData] = await Promise.all([dataService.getMyTestResults(), dataService.getMyUnsubmittedAttempts()]);
                 setMySubmissions(submissionsData);
+                setMyUnsubmittedAttempts(unsubmittedData || []);
             }
         } catch (err: any) {
             addToast('Failed to load dashboard data: ' + err.message, 'error');
@@ -61,25 +80,19 @@ const DashboardView: React.FC<DashboardProps> = ({ navigateTo, onStartTest, onEd
       return [];
     }
 
-    const testIdToClassMap = new Map<string, string>();
-    tests.forEach(test => {
-      if (test.id && test.class) {
-        testIdToClassMap.set(test.id, test.class);
-      }
-    });
-
     const progressBySubject = new Map<string, { sum: number; count: number }>();
 
-    mySubmissions.forEach(submission => {
-      const subject = testIdToClassMap.get(submission.test_id);
-      if (subject) {
-        if (!progressBySubject.has(subject)) {
-          progressBySubject.set(subject, { sum: 0, count: 0 });
-        }
-        const current = progressBySubject.get(subject)!;
-        current.sum += submission.evaluation.overallScore;
-        current.count += 1;
+    // Each test contributes one score, picked from the student's attempts by the test's scoring policy.
+    tests.forEach(test => {
+      if (!test.id || !test.class) return;
+      const score = getCountedScore(getScoringPolicy(test), mySubmissions.filter(s => s.test_id === test.id));
+      if (score === null) return;
+      if (!progressBySubject.has(test.class)) {
+        progressBySubject.set(test.class, { sum: 0, count: 0 });
       }
+      const current = progressBySubject.get(test.class)!;
+      current.sum += score;
+      current.count += 1;
     });
 
     const calculatedProgress: ProgressData[] = [];
@@ -119,6 +132,23 @@ const DashboardView: React.FC<DashboardProps> = ({ navigateTo, onStartTest, onEd
     }
   };
   
+  const handleJoinClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+    setIsJoining(true);
+    try {
+        const joined = await dataService.joinClass(joinCode);
+        // Tests assigned to the new class only show up after a refetch.
+        setTests(await dataService.getTests());
+        setJoinCode('');
+        addToast(`You joined ${joined.name}.`, 'success');
+    } catch (error: any) {
+        addToast(`Failed to join class: ${error.message}`, 'error');
+    } finally {
+        setIsJoining(false);
+    }
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleString();
@@ -295,6 +325,19 @@ const DashboardView: React.FC<DashboardProps> = ({ navigateTo, onStartTest, onEd
                     </div>
                 )}
             </div>
+            <form onSubmit={handleJoinClass} className="flex gap-2 mb-4">
+                <input
+                    type="text"
+                    value={joinCode}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setJoinCode(e.target.value.toUpperCase())}
+                    placeholder="Class join code"
+                    maxLength={6}
+                    className="flex-grow p-2 border border-gray-300 rounded-lg font-mono tracking-widest uppercase focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                />
+                <button type="submit" disabled={isJoining || !joinCode.trim()} className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg disabled:bg-indigo-400">
+                    {isJoining ? 'Joining...' : 'Join Class'}
+                </button>
+            </form>
             {isLoadingTests ? (
                 <div className="space-y-4">
                     <SkeletonCard />
@@ -302,17 +345,25 @@ const DashboardView: React.FC<DashboardProps> = ({ navigateTo, onStartTest, onEd
                 </div>
             ) : (
               <div className="space-y-4">
-                {filteredTestsForStudent.length > 0 ? filteredTestsForStudent.map(test => (
-                  <div key={test.id} className="flex justify-between items-center p-4 bg-gray-50 rounded-lg border dark:bg-slate-700 dark:border-slate-600">
-                    <div>
-                      <h3 className="font-semibold text-lg text-gray-900 dark:text-slate-100">{test.title}</h3>
-                      <p className="text-sm text-gray-600 dark:text-gray-400">
-                        Class: {test.class || 'All'} | Questions: {test.total_questions} | Marks: {test.total_marks} | Time: {test.timer ? `${test.timer} min` : 'N/A'}
-                      </p>
+                {filteredTestsForStudent.length > 0 ? filteredTestsForStudent.map(test => {
+                  const isOpen = getTestAvailability(test).state === 'open';
+                  // Unsubmitted attempts count towards the limit, as they do in `start-attempt`, which
+                  // still lets a student continue one that has not run out of time.
+                  const attemptStatus = getAttemptStatus(test, [...mySubmissions, ...myUnsubmittedAttempts].filter(s => s.test_id === test.id));
+                  const canResume = myUnsubmittedAttempts.some(attempt => attempt.test_id === test.id && attempt.is_resumable);
+                  return (
+                    <div key={test.id} className="flex justify-between items-center p-4 bg-gray-50 rounded-lg border dark:bg-slate-700 dark:border-slate-600">
+                      <div>
+                        <h3 className="font-semibold text-lg text-gray-900 dark:text-slate-100">{test.title}<AvailabilityBadge test={test} /></h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Class: {test.class || 'All'} | Questions: {test.total_questions} | Marks: {test.total_marks} | Time: {test.timer ? `${test.timer} min` : 'N/A'}
+                        </p>
+                        {attemptStatus.label && <p className="text-xs text-gray-500 mt-1 dark:text-gray-400">{attemptStatus.label}</p>}
+                      </div>
+                      <button onClick={() => onStartTest(test)} disabled={!isOpen || !(attemptStatus.canAttempt || canResume)} className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg disabled:bg-gray-400 disabled:cursor-not-allowed">{canResume ? 'Resume Test' : 'Start Test'}</button>
                     </div>
-                    <button onClick={() => onStartTest(test)} className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg">Start Test</button>
-                  </div>
-                )) : <p className="dark:text-gray-400">No tests available for the selected class.</p>}
+                  );
+                }) : <p className="dark:text-gray-400">No tests available for the selected class.</p>}
               </div>
             )}
           </div>
@@ -355,7 +406,7 @@ const DashboardView: React.FC<DashboardProps> = ({ navigateTo, onStartTest, onEd
               {myTests.length > 0 ? myTests.map(test => (
                 <div key={test.id} className="flex justify-between items-center p-4 bg-gray-50 rounded-lg border dark:bg-slate-700 dark:border-slate-600">
                   <div>
-                    <h3 className="font-semibold text-lg text-gray-900 dark:text-slate-100">{test.title}</h3>
+                    <h3 className="font-semibold text-lg text-gray-900 dark:text-slate-100">{test.title}<AvailabilityBadge test={test} /></h3>
                     <p className="text-sm text-gray-600 dark:text-gray-400">
                       Class: {test.class || 'All'} | Questions: {test.total_questions} | Marks: {test.total_marks}
                     </p>
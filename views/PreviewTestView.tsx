@@ -1,5 +1,9 @@
 import React from 'react';
 import type { Test, Question } from '../types';
+import { splitClozeText } from '../src/utils/cloze';
+import { formatRecordingTime, getRecordingLimit } from '../src/utils/audio';
+import { describeAllowedFileTypes, getMaxFileSizeMb } from '../src/utils/uploads';
+import { MathText } from '../components/MathText';
 
 interface PreviewTestProps {
   test: Test;
@@ -38,6 +42,11 @@ const PreviewTestView: React.FC<PreviewTestProps> = ({ test, onBack }) => {
                 {test.questions.map((q, index) => (
                     <PreviewQuestionDisplay key={index} question={q} index={index} />
                 ))}
+                {(test.pool_sections || []).map(section => (
+                    <div key={section.id} className="p-4 border-2 border-dashed border-orange-300 rounded-lg text-sm text-gray-700 dark:border-orange-800 dark:text-gray-300">
+                        <span className="font-semibold">🎲 {section.title}:</span> {section.count} {section.count === 1 ? 'question' : 'questions'} drawn at random for each student ({section.marks} {section.marks === 1 ? 'mark' : 'marks'} each).
+                    </div>
+                ))}
             </div>
 
             <div className="mt-8 text-center">
@@ -60,7 +69,20 @@ const PreviewQuestionDisplay: React.FC<{ question: Question; index: number; }> =
                     {question.options?.map((opt, i) => (
                         <label key={i} className="flex items-center space-x-2 p-2 rounded cursor-not-allowed">
                             <input type="radio" name={`preview-question-${index}`} disabled className="text-blue-600 focus:ring-indigo-500 dark:text-indigo-400 cursor-not-allowed" />
-                            <span className="dark:text-slate-200" dangerouslySetInnerHTML={{ __html: `${String.fromCharCode(65 + i)}. ${opt}` }}></span>
+                            <MathText text={`${String.fromCharCode(65 + i)}. ${opt}`} html className="dark:text-slate-200" />
+                        </label>
+                    ))}
+                </div>
+            );
+            break;
+        case 'multi-select':
+            answerInput = (
+                <div className="space-y-2">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Select all that apply.</p>
+                    {question.options?.map((opt, i) => (
+                        <label key={i} className="flex items-center space-x-2 p-2 rounded cursor-not-allowed">
+                            <input type="checkbox" disabled className="text-blue-600 focus:ring-indigo-500 dark:text-indigo-400 cursor-not-allowed" />
+                            <MathText text={`${String.fromCharCode(65 + i)}. ${opt}`} html className="dark:text-slate-200" />
                         </label>
                     ))}
                 </div>
@@ -110,7 +132,7 @@ const PreviewQuestionDisplay: React.FC<{ question: Question; index: number; }> =
                     {question.passage &&
                         <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg mb-4 dark:bg-blue-900/30 dark:border-blue-800">
                             <h5 className="font-semibold text-blue-800 mb-2 dark:text-blue-300">📖 Reading Passage</h5>
-                            <div className="text-gray-700 whitespace-pre-wrap dark:text-slate-300" dangerouslySetInnerHTML={{ __html: question.passage }} />
+                            <MathText text={question.passage} html as="div" className="text-gray-700 whitespace-pre-wrap dark:text-slate-300" />
                         </div>
                     }
                     <h5 className="font-semibold text-gray-800 mb-2 dark:text-slate-200">Comprehension Questions:</h5>
@@ -123,7 +145,7 @@ const PreviewQuestionDisplay: React.FC<{ question: Question; index: number; }> =
                                         {compQ.options?.map((opt, i) => (
                                             <label key={i} className="flex items-center space-x-2 p-1 rounded cursor-not-allowed">
                                                 <input type="radio" name={`preview-question-${index}-${compIndex}`} disabled className="cursor-not-allowed" />
-                                                <span className="dark:text-slate-300 text-sm">{String.fromCharCode(65 + i)}. {opt}</span>
+                                                <span className="dark:text-slate-300 text-sm">{String.fromCharCode(65 + i)}. <MathText text={opt} /></span>
                                             </label>
                                         ))}
                                     </div>
@@ -148,7 +170,7 @@ const PreviewQuestionDisplay: React.FC<{ question: Question; index: number; }> =
                             return (
                                 <div key={compIndex} className="bg-white p-3 rounded border dark:bg-slate-900 dark:border-slate-700">
                                     <div className="flex justify-between items-center mb-2">
-                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300" dangerouslySetInnerHTML={{ __html: `${compIndex + 1}. ${compQ.question}` }} />
+                                        <MathText text={`${compIndex + 1}. ${compQ.question}`} html as="label" className="block text-sm font-medium text-gray-700 dark:text-gray-300" />
                                         <span className="text-xs text-gray-500 dark:text-gray-400">[{compQ.marks} marks]</span>
                                     </div>
                                     {compAnswerInput}
@@ -159,6 +181,63 @@ const PreviewQuestionDisplay: React.FC<{ question: Question; index: number; }> =
                 </div>
             );
             break;
+        case 'numeric':
+            answerInput = <input type="text" disabled className="w-full max-w-sm p-3 border rounded-lg bg-gray-100 cursor-not-allowed dark:bg-slate-900 dark:border-slate-600" placeholder="Student will enter a number here..." />;
+            break;
+        case 'audio-response':
+            answerInput = (
+                <div className="flex items-center gap-3">
+                    <button type="button" disabled className="px-4 py-2 bg-indigo-600 text-white rounded-lg opacity-50 cursor-not-allowed">● Record answer</button>
+                    <span className="text-sm font-mono text-gray-500 dark:text-gray-400">Up to {formatRecordingTime(getRecordingLimit(question))}</span>
+                </div>
+            );
+            break;
+        case 'file-upload':
+            answerInput = (
+                <div className="flex items-center gap-3">
+                    <button type="button" disabled className="px-4 py-2 bg-indigo-600 text-white rounded-lg opacity-50 cursor-not-allowed">Choose file</button>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{describeAllowedFileTypes(question)} · up to {getMaxFileSizeMb(question)} MB</span>
+                </div>
+            );
+            break;
+        case 'matching':
+            answerInput = (
+                <div className="space-y-2">
+                    {(question.match_prompts || []).map((prompt, promptIndex) => (
+                        <div key={promptIndex} className="flex flex-col sm:flex-row sm:items-center gap-2 p-2 rounded border border-gray-200 dark:border-slate-600">
+                            <MathText text={prompt} className="sm:w-1/2 dark:text-slate-200" />
+                            <select disabled className="sm:w-1/2 p-2 border rounded-md bg-gray-100 cursor-not-allowed dark:bg-slate-900 dark:border-slate-600">
+                                <option>Drop or choose a match</option>
+                            </select>
+                        </div>
+                    ))}
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Items to match: <MathText text={(question.options || []).join(' · ')} /></p>
+                </div>
+            );
+            break;
+        case 'ordering':
+            answerInput = (
+                <ol className="space-y-2">
+                    {(question.options || []).map((item, i) => (
+                        <li key={i} className="flex items-center gap-2 p-2 rounded border bg-gray-100 cursor-not-allowed dark:bg-slate-900 dark:border-slate-600">
+                            <span className="font-mono text-sm text-gray-500 w-6 text-right dark:text-gray-400">{i + 1}.</span>
+                            <MathText text={item} className="dark:text-slate-200" />
+                        </li>
+                    ))}
+                </ol>
+            );
+            break;
+        case 'cloze':
+            answerInput = (
+                <div className="text-gray-700 leading-loose whitespace-pre-wrap dark:text-slate-300">
+                    {splitClozeText(question.text).map((segment, segmentIndex) => ('blank' in segment ? (
+                        <input key={segmentIndex} type="text" disabled className="mx-1 w-36 px-2 py-0.5 border-b-2 border-indigo-400 bg-gray-100 rounded-t cursor-not-allowed dark:bg-slate-900" placeholder={`(${segment.blank + 1})`} aria-label={`Blank ${segment.blank + 1}`} />
+                    ) : (
+                        <MathText key={segmentIndex} text={segment.text} html />
+                    )))}
+                </div>
+            );
+            break;
         default:
             answerInput = <p className="dark:text-red-400">Unsupported question type.</p>;
     }
@@ -169,7 +248,9 @@ const PreviewQuestionDisplay: React.FC<{ question: Question; index: number; }> =
                 <h4 className="font-semibold text-gray-800 dark:text-slate-200">Question {index + 1}</h4>
                 <span className="text-sm text-gray-600 dark:text-gray-400">[{question.marks > 0 ? `${question.marks} marks` : 'See sub-questions'}]</span>
             </div>
-            <div className="text-gray-700 mb-3 whitespace-pre-wrap dark:text-slate-300" dangerouslySetInnerHTML={{ __html: question.text }} />
+            {question.type === 'cloze'
+                ? <p className="text-sm text-gray-500 mb-3 dark:text-gray-400">Fill in each blank.</p>
+                : <MathText text={question.text} html as="div" className="text-gray-700 mb-3 whitespace-pre-wrap dark:text-slate-300" />}
 
             {(question.media?.image || question.media?.video || question.media?.audio) && (
                 <div className="my-4 p-2 border rounded-lg dark:border-slate-600">
@@ -1,5 +1,15 @@
-import React, { useState } from 'react';
-import type { Test, TestResult, Question } from '../types';
+import React, { useState, useEffect } from 'react';
+import type { Test, TestResult, Question, SubQuestionScore } from '../types';
+import { dataService } from '../services/dataService';
+import { getAttemptStatus, getScoringPolicy, SCORING_POLICY_LABELS, type AttemptStatus } from '../src/utils/attempts';
+import { getPaperQuestions } from '../src/utils/pools';
+import { parseChoiceSet } from '../src/utils/grading';
+import { splitClozeText } from '../src/utils/cloze';
+import { parseLetterSequence } from '../src/utils/arrangement';
+import { MathText } from '../components/MathText';
+import { AnswerFile } from '../components/AnswerFile';
+import { RubricGrid } from '../components/RubricGrid';
+import { hasRubric } from '../src/utils/rubrics';
 
 interface ResultsProps {
   result: TestResult;
@@ -8,7 +18,7 @@ interface ResultsProps {
   onRetakeTest: () => void;
 }
 
-const DisplayAnswer: React.FC<{answer: any, question: Question}> = ({ answer, question }) => {
+const DisplayAnswer: React.FC<{answer: any, question: Question, resultId?: string, index: number, subScores?: SubQuestionScore[]}> = ({ answer, question, resultId, index: questionIndex, subScores }) => {
     if (question.type === 'reading-comprehension') {
         return (
             <div className="space-y-2">
@@ -19,19 +29,28 @@ const DisplayAnswer: React.FC<{answer: any, question: Question}> = ({ answer, qu
                     if (compQ.type === 'multiple-choice') {
                         const optionIndex = studentAnswer ? studentAnswer.charCodeAt(0) - 65 : -1;
                         const selectedOption = compQ.options?.[optionIndex];
-                        display = <p className="text-gray-800 dark:text-slate-200">{studentAnswer ? `${studentAnswer}. ${selectedOption}` : <span className="text-gray-400 italic">No answer provided</span>}</p>;
+                        display = <p className="text-gray-800 dark:text-slate-200">{studentAnswer ? <MathText text={`${studentAnswer}. ${selectedOption}`} /> : <span className="text-gray-400 italic">No answer provided</span>}</p>;
                     } else if (compQ.type === 'true-false') {
                         display = <p className="text-gray-800 dark:text-slate-200">{studentAnswer || <span className="text-gray-400 italic">No answer provided</span>}</p>;
                     } else { // short-answer
-                        display = <div className="text-gray-800 dark:text-slate-200" dangerouslySetInnerHTML={{ __html: studentAnswer || `<span class="text-gray-400 italic">No answer provided</span>` }} />;
+                        display = studentAnswer
+                            ? <MathText text={studentAnswer} html as="div" className="text-gray-800 dark:text-slate-200" />
+                            : <p className="text-gray-400 italic">No answer provided</p>;
                     }
 
+                    const subScore = subScores?.[index];
                     return (
                         <div key={index} className="text-sm">
-                            <p className="font-medium text-gray-600 dark:text-gray-400">{compQ.question}</p>
+                            <div className="flex justify-between items-start gap-2">
+                                <MathText text={compQ.question} as="p" className="font-medium text-gray-600 dark:text-gray-400" />
+                                {subScore && (
+                                    <span className={`text-xs font-semibold whitespace-nowrap ${subScore.score >= subScore.maxMarks ? 'text-green-600 dark:text-green-400' : subScore.score > 0 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-500 dark:text-red-400'}`}>{subScore.score} / {subScore.maxMarks}</span>
+                                )}
+                            </div>
                             <div className="pl-2 border-l-2 border-gray-200 dark:border-slate-600">
                                 {display}
                             </div>
+                            {subScore?.feedback && <MathText text={subScore.feedback} as="p" className="mt-1 pl-2 text-xs text-gray-600 whitespace-pre-wrap dark:text-gray-400" />}
                         </div>
                     );
                 })}
@@ -39,25 +58,100 @@ const DisplayAnswer: React.FC<{answer: any, question: Question}> = ({ answer, qu
         );
     }
     
+    if (question.type === 'file-upload') {
+        return <AnswerFile resultId={resultId} questionIndex={questionIndex} path={typeof answer === 'string' ? answer : ''} />;
+    }
+
+    if (question.type === 'audio-response') {
+        return answer ? <audio controls src={answer} className="w-full" /> : <p className="text-gray-400 italic">No recording submitted</p>;
+    }
+
+    // The student's arrangement, with the correct one alongside when the answer key is available.
+    if (question.type === 'matching' || question.type === 'ordering') {
+        const itemText = (letter: string) => <MathText text={(letter && question.options?.[letter.charCodeAt(0) - 65]) || '—'} />;
+        const expected = parseLetterSequence(question.correct_answer);
+        if (question.type === 'matching') {
+            return (
+                <ul className="text-gray-800 dark:text-slate-200 space-y-0.5">
+                    {(question.match_prompts || []).map((prompt, i) => (
+                        <li key={i}>
+                            <MathText text={prompt} /> → {itemText(answer?.[i])}
+                            {expected[i] && answer?.[i] !== expected[i] && <span className="ml-2 text-sm text-green-700 dark:text-green-400">(correct: {itemText(expected[i])})</span>}
+                        </li>
+                    ))}
+                </ul>
+            );
+        }
+        const given = parseLetterSequence(answer);
+        if (given.length === 0) return <p className="text-gray-400 italic">No answer provided</p>;
+        return (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-gray-800 dark:text-slate-200">
+                <ol className="list-decimal list-inside">{given.map((letter, i) => <li key={i}>{itemText(letter)}</li>)}</ol>
+                {expected.length > 0 && (
+                    <div>
+                        <p className="text-xs font-medium text-green-700 dark:text-green-400">Correct order</p>
+                        <ol className="list-decimal list-inside text-green-700 dark:text-green-400">{expected.map((letter, i) => <li key={i}>{itemText(letter)}</li>)}</ol>
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    if (question.type === 'cloze') {
+        // The text with each blank filled in by what the student wrote.
+        return (
+            <p className="text-gray-800 whitespace-pre-wrap leading-relaxed dark:text-slate-200">
+                {splitClozeText(question.text).map((segment, segmentIndex) => ('blank' in segment ? (
+                    <span key={segmentIndex} className="mx-0.5 px-1.5 rounded bg-indigo-100 font-medium dark:bg-indigo-900/50">
+                        {answer?.[segment.blank]?.trim() || <span className="text-gray-400 italic">({segment.blank + 1}) blank</span>}
+                    </span>
+                ) : (
+                    <MathText key={segmentIndex} text={segment.text} html />
+                )))}
+            </p>
+        );
+    }
+
     if (question.type === 'multiple-choice') {
         const optionIndex = answer ? answer.charCodeAt(0) - 65 : -1;
         const selectedOption = question.options?.[optionIndex];
-        return <p className="text-gray-800 whitespace-pre-wrap dark:text-slate-200">{answer ? `${answer}. ${selectedOption}` : <span className="text-gray-400 italic">No answer provided</span>}</p>
+        return <p className="text-gray-800 whitespace-pre-wrap dark:text-slate-200">{answer ? <MathText text={`${answer}. ${selectedOption}`} /> : <span className="text-gray-400 italic">No answer provided</span>}</p>
     }
 
-    return (
-        <div 
-            className="text-gray-800 whitespace-pre-wrap dark:text-slate-200"
-            dangerouslySetInnerHTML={{ __html: answer || `<span class="text-gray-400 italic">No answer provided</span>` }}
-        />
-    );
+    if (question.type === 'multi-select') {
+        const letters = parseChoiceSet(answer);
+        if (letters.length === 0) return <p className="text-gray-400 italic">No answer provided</p>;
+        return (
+            <ul className="text-gray-800 dark:text-slate-200 space-y-0.5">
+                {letters.map(letter => <li key={letter}>{letter}. <MathText text={question.options?.[letter.charCodeAt(0) - 65]} /></li>)}
+            </ul>
+        );
+    }
+
+    if (!answer) return <p className="text-gray-400 italic">No answer provided</p>;
+    return <MathText text={answer} html as="div" className="text-gray-800 whitespace-pre-wrap dark:text-slate-200" />;
 };
 
 
 const ResultsView: React.FC<ResultsProps> = ({ result, test, navigateTo, onRetakeTest }) => {
   const { evaluation, test_title } = result;
+  // The questions this attempt actually had, including any drawn from pool sections.
+  const paperQuestions = getPaperQuestions(test.questions, result.drawn_questions);
   const [activeTab, setActiveTab] = useState('summary');
   const [openQuestionIndex, setOpenQuestionIndex] = useState<number | null>(null);
+  const [attemptStatus, setAttemptStatus] = useState<AttemptStatus | null>(null);
+
+  // The retake button follows the same attempt rules that `start-attempt` enforces: attempts
+  // started but never submitted count too, and one still in time can always be resumed.
+  useEffect(() => {
+    Promise.all([dataService.getMyTestResults(), dataService.getMyUnsubmittedAttempts()])
+      .then(([results, unsubmitted]) => {
+        const openAttempts = (unsubmitted || []).filter(attempt => attempt.test_id === result.test_id);
+        const status = getAttemptStatus(test, [...(results || []).filter(r => r.test_id === result.test_id), ...openAttempts]);
+        setAttemptStatus(openAttempts.some(attempt => attempt.is_resumable) ? { ...status, canAttempt: true } : status);
+      })
+      .catch(() => setAttemptStatus(null));
+  }, [test, result.test_id]);
 
   const getScoreInfo = (score: number) => {
     if (score >= 80) {
@@ -107,7 +201,7 @@ const ResultsView: React.FC<ResultsProps> = ({ result, test, navigateTo, onRetak
             <span className="mr-2">{icon}</span>
             {title}
         </h3>
-        <p className="text-gray-700 dark:text-slate-300 whitespace-pre-wrap">{content}</p>
+        <MathText text={content} as="p" className="text-gray-700 dark:text-slate-300 whitespace-pre-wrap" />
     </div>
   );
 
@@ -154,8 +248,8 @@ const ResultsView: React.FC<ResultsProps> = ({ result, test, navigateTo, onRetak
             <TabButton tabName="next_steps" label="Next Steps" icon="💡" />
         </div>
         <div className="p-5 bg-gray-50 dark:bg-slate-700/50 rounded-lg min-h-[120px]">
-            {activeTab === 'summary' && <p className="text-gray-700 dark:text-slate-300 whitespace-pre-wrap">{evaluation.feedback}</p>}
-            {activeTab === 'next_steps' && <p className="text-gray-700 dark:text-slate-300 whitespace-pre-wrap">{evaluation.suggestions}</p>}
+            {activeTab === 'summary' && <MathText text={evaluation.feedback} as="p" className="text-gray-700 dark:text-slate-300 whitespace-pre-wrap" />}
+            {activeTab === 'next_steps' && <MathText text={evaluation.suggestions} as="p" className="text-gray-700 dark:text-slate-300 whitespace-pre-wrap" />}
         </div>
       </div>
       
@@ -164,7 +258,7 @@ const ResultsView: React.FC<ResultsProps> = ({ result, test, navigateTo, onRetak
         <h3 className="text-2xl font-bold text-gray-800 dark:text-slate-200 mb-4">📊 Question-by-Question Breakdown</h3>
         <div className="space-y-3 border border-gray-200 dark:border-slate-700 rounded-lg p-2 sm:p-4">
           {evaluation.questionScores.map((score, index) => {
-              const question = test.questions[index];
+              const question = paperQuestions[index];
               if (!question) return null; // Safety check
               const qScoreInfo = getScoreInfo(score.maxMarks > 0 ? Math.round((score.score / score.maxMarks) * 100) : 0);
               const isOpen = openQuestionIndex === index;
@@ -184,15 +278,19 @@ const ResultsView: React.FC<ResultsProps> = ({ result, test, navigateTo, onRetak
                                <div className="mb-4">
                                   <h5 className="font-semibold text-gray-700 dark:text-slate-300 mb-2 flex items-center gap-2">👤 Your Answer</h5>
                                   <div className="p-3 rounded-md bg-white dark:bg-slate-700 border dark:border-slate-600 text-sm">
-                                      <DisplayAnswer answer={result.answers[index]} question={question} />
+                                      <DisplayAnswer answer={result.answers[index]} question={question} resultId={result.id} index={index} subScores={score.subScores} />
                                   </div>
                                </div>
                                <div>
-                                  <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2 flex items-center gap-2">🤖 AI Feedback</h5>
-                                  <div className="p-3 rounded-md bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 text-sm text-gray-700 dark:text-slate-300 whitespace-pre-wrap">
-                                      {score.feedback}
-                                  </div>
+                                  <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2 flex items-center gap-2">{score.source === 'auto' ? '✅ Auto-marked Feedback' : score.source === 'manual' ? '🧑‍🏫 Teacher Feedback' : score.source === 'pending' ? '⏳ Awaiting Teacher Grading' : '🤖 AI Feedback'}</h5>
+                                  <MathText text={score.feedback} as="div" className="p-3 rounded-md bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 text-sm text-gray-700 dark:text-slate-300 whitespace-pre-wrap" />
                                </div>
+                               {hasRubric(question.rubric) && (
+                                   <div className="mt-4">
+                                      <h5 className="font-semibold text-gray-700 dark:text-slate-300 mb-2">📋 Rubric</h5>
+                                      <RubricGrid rubric={question.rubric} criterionScores={score.criterionScores} />
+                                   </div>
+                               )}
                           </div>
                       )}
                   </div>
@@ -202,9 +300,14 @@ const ResultsView: React.FC<ResultsProps> = ({ result, test, navigateTo, onRetak
       </div>
       
       <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-4 text-center mt-10 pt-6 border-t dark:border-slate-700">
-        <button onClick={onRetakeTest} className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-semibold transition-transform transform hover:scale-105">
-          🔄 Retake Test
-        </button>
+        {attemptStatus?.canAttempt && (
+          <button onClick={onRetakeTest} className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-semibold transition-transform transform hover:scale-105">
+            🔄 Retake Test
+          </button>
+        )}
+        {attemptStatus && !attemptStatus.canAttempt && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{attemptStatus.label}. Your grade uses the {SCORING_POLICY_LABELS[getScoringPolicy(test)].toLowerCase()}.</p>
+        )}
         <button onClick={() => navigateTo('dashboard')} className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white px-6 py-3 rounded-lg font-semibold transition-transform transform hover:scale-105">
           🏠 Back to Dashboard
         </button>
@@ -4,7 +4,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { dataService } from '../services/dataService';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
-import type { Role } from '../types';
+import type { Role, ClassGroup } from '../types';
 import { TableSkeleton } from '../components/SkeletonLoader';
 
 interface User {
@@ -19,6 +19,179 @@ interface UserManagementProps {
   navigateTo: (view: 'dashboard') => void;
 }
 
+interface ClassRostersProps {
+  students: User[];
+}
+
+const ClassRosters: React.FC<ClassRostersProps> = ({ students }) => {
+  const [classes, setClasses] = useState<ClassGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedClassId, setSelectedClassId] = useState('');
+  const [newClassName, setNewClassName] = useState('');
+  const [studentToAdd, setStudentToAdd] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [classToDelete, setClassToDelete] = useState<ClassGroup | null>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    dataService.getClasses()
+      .then(data => {
+        setClasses(data || []);
+        if (data && data.length > 0) setSelectedClassId(data[0].id);
+      })
+      .catch(err => addToast(`Failed to load classes: ${err.message}`, 'error'))
+      .finally(() => setIsLoading(false));
+  }, [addToast]);
+
+  const selectedClass = classes.find(c => c.id === selectedClassId) || null;
+  const studentsById = useMemo(() => new Map(students.map(s => [s.id, s])), [students]);
+  const unenrolledStudents = students.filter(s => !selectedClass?.student_ids.includes(s.id));
+
+  const replaceClass = (updated: ClassGroup) => {
+    setClasses(prev => prev.map(c => (c.id === updated.id ? { ...c, ...updated } : c)));
+  };
+
+  const handleCreateClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newClassName.trim()) return;
+    setIsSaving(true);
+    try {
+      const created = await dataService.saveClass(newClassName.trim());
+      setClasses(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedClassId(created.id);
+      setNewClassName('');
+      addToast(`Class "${created.name}" created. Join code: ${created.join_code}`, 'success');
+    } catch (error: any) {
+      addToast(`Failed to create class: ${error.message}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEnrolmentChange = async (addIds: string[], removeIds: string[]) => {
+    if (!selectedClass) return;
+    setIsSaving(true);
+    try {
+      replaceClass(await dataService.updateEnrolments(selectedClass.id, addIds, removeIds));
+      setStudentToAdd('');
+    } catch (error: any) {
+      addToast(`Failed to update class roster: ${error.message}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteClass = async () => {
+    if (!classToDelete) return;
+    setIsSaving(true);
+    try {
+      await dataService.deleteClass(classToDelete.id);
+      const remaining = classes.filter(c => c.id !== classToDelete.id);
+      setClasses(remaining);
+      setSelectedClassId(remaining[0]?.id || '');
+      addToast('Class deleted successfully!', 'success');
+    } catch (error: any) {
+      addToast(`Failed to delete class: ${error.message}`, 'error');
+    } finally {
+      setClassToDelete(null);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6 dark:bg-slate-800">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 dark:text-slate-100">🏫 Classes</h2>
+
+      <form onSubmit={handleCreateClass} className="flex gap-2 mb-6">
+        <input
+          type="text"
+          value={newClassName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewClassName(e.target.value)}
+          placeholder="New class name, e.g. Grade 8 - Section B"
+          className="flex-grow p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:border-slate-600 dark:text-white dark:placeholder-gray-400"
+        />
+        <button type="submit" disabled={isSaving || !newClassName.trim()} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-4 py-2 rounded-lg disabled:bg-blue-400">+ Create Class</button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-gray-500 dark:text-gray-400">Loading classes...</p>
+      ) : classes.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No classes yet. Create one to group students and assign tests to them.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={selectedClassId}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedClassId(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+            >
+              {classes.map(c => <option key={c.id} value={c.id}>{c.name} ({c.student_ids.length})</option>)}
+            </select>
+            {selectedClass && (
+              <>
+                <span className="text-sm text-gray-600 dark:text-gray-300">
+                  Join code: <span className="font-mono font-bold tracking-widest text-gray-900 dark:text-slate-100">{selectedClass.join_code}</span>
+                </span>
+                <button onClick={() => setClassToDelete(selectedClass)} className="ml-auto text-red-600 hover:text-red-900 font-medium dark:text-red-400 dark:hover:text-red-300">Delete Class</button>
+              </>
+            )}
+          </div>
+
+          {selectedClass && (
+            <>
+              <div className="flex gap-2">
+                <select
+                  value={studentToAdd}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStudentToAdd(e.target.value)}
+                  className="flex-grow p-2 border border-gray-300 rounded-lg dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                >
+                  <option value="">Select a student to enrol...</option>
+                  {unenrolledStudents.map(s => <option key={s.id} value={s.id}>{s.full_name} ({s.username})</option>)}
+                </select>
+                <button onClick={() => handleEnrolmentChange([studentToAdd], [])} disabled={isSaving || !studentToAdd} className="bg-green-600 hover:bg-green-700 text-white font-semibold px-4 py-2 rounded-lg disabled:bg-green-400">Enrol</button>
+              </div>
+
+              {selectedClass.student_ids.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">No students are enrolled yet. Enrol them above or share the join code.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border rounded-lg dark:divide-slate-700 dark:border-slate-700">
+                  {selectedClass.student_ids.map(studentId => {
+                    const student = studentsById.get(studentId);
+                    return (
+                      <li key={studentId} className="flex items-center justify-between px-4 py-2 text-sm">
+                        <span className="text-gray-900 dark:text-slate-100">{student ? `${student.full_name} (${student.username})` : `${studentId.substring(0, 8)}...`}</span>
+                        <button onClick={() => handleEnrolmentChange([], [studentId])} disabled={isSaving} className="text-red-600 hover:text-red-900 font-medium disabled:text-gray-400 dark:text-red-400 dark:hover:text-red-300">Remove</button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {classToDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
+            <div className="bg-white p-8 rounded-lg shadow-2xl max-w-md w-full mx-4 dark:bg-slate-800">
+                <h3 className="text-2xl font-bold text-gray-900 mb-2 dark:text-slate-100">Confirm Deletion</h3>
+                <p className="my-4 text-gray-600 dark:text-gray-300">
+                  Are you sure you want to delete the class <span className="font-bold">"{classToDelete.name}"</span>?
+                  Students stay registered, but tests assigned only to this class will become visible to every student.
+                </p>
+                <div className="flex justify-end space-x-4 mt-6">
+                    <button onClick={() => setClassToDelete(null)} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold px-6 py-2 rounded-lg dark:bg-slate-600 dark:hover:bg-slate-500 dark:text-slate-100">Cancel</button>
+                    <button onClick={handleDeleteClass} disabled={isSaving} className="bg-red-600 hover:bg-red-700 text-white font-semibold px-6 py-2 rounded-lg disabled:bg-red-400">
+                        {isSaving ? 'Deleting...' : 'Delete Class'}
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const UserManagementView: React.FC<UserManagementProps> = ({ navigateTo }) => {
   const { profile } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
@@ -157,6 +330,8 @@ const UserManagementView: React.FC<UserManagementProps> = ({ navigateTo }) => {
         </div>
       </div>
 
+      {!isLoading && <ClassRosters students={users.filter(user => user.role === 'student')} />}
+
       {userToDelete && (
         <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
             <div className="bg-white p-8 rounded-lg shadow-2xl max-w-md w-full mx-4 dark:bg-slate-800">
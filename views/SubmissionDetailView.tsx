@@ -1,6 +1,18 @@
-
-import React from 'react';
-import type { Test, TestResult, Question, QuestionScore } from '../types';
+import React, { useState } from 'react';
+import { dataService } from '../services/dataService';
+import { useToast } from '../contexts/ToastContext';
+import type { Test, TestResult, Question, QuestionScore, GradeOverride, IntegrityEvent, CriterionScore, SubQuestionScore } from '../types';
+import { formatDuration } from '../src/utils/availability';
+import { INTEGRITY_EVENT_LABELS } from '../src/utils/integrity';
+import { getPaperQuestions } from '../src/utils/pools';
+import { parseChoiceSet, MULTI_SELECT_SCORING_LABELS } from '../src/utils/grading';
+import { matchesClozeBlank } from '../src/utils/cloze';
+import { ARRANGEMENT_SCORING_LABELS, parseLetterSequence } from '../src/utils/arrangement';
+import { describeNumericKey } from '../src/utils/numeric';
+import { MathText } from '../components/MathText';
+import { AnswerFile } from '../components/AnswerFile';
+import { RubricGrid } from '../components/RubricGrid';
+import { getRubricMarks, hasRubric, scoreRubric } from '../src/utils/rubrics';
 
 interface SubmissionDetailProps {
   test: Test;
@@ -9,10 +21,28 @@ interface SubmissionDetailProps {
 }
 
 const SubmissionDetailView: React.FC<SubmissionDetailProps> = ({ test, submission, navigateTo }) => {
-  const { evaluation, student_name, test_title } = submission;
+  const { addToast } = useToast();
+  const [currentSubmission, setCurrentSubmission] = useState<TestResult>(submission);
+  const { evaluation, student_name, test_title } = currentSubmission;
+  // The questions this student actually had, including any drawn from pool sections.
+  const paperQuestions = getPaperQuestions(test.questions, currentSubmission.drawn_questions);
+  const gradeHistory = currentSubmission.grade_history || [];
   const scoreColor = evaluation.overallScore >= 80 ? 'text-green-500 dark:text-green-400' :
                      evaluation.overallScore >= 60 ? 'text-yellow-500 dark:text-yellow-400' : 'text-red-500 dark:text-red-400';
 
+  const handleSaveOverride = async (questionIndex: number, score: number, feedback: string, reason: string, criterionScores?: CriterionScore[], subScores?: { score: number }[]) => {
+    if (!currentSubmission.id) return false;
+    try {
+      const updated = await dataService.overrideGrades(currentSubmission.id, currentSubmission.grade_version ?? 0, [{ questionIndex, score, feedback, reason, criterionScores, subScores }]);
+      setCurrentSubmission(updated);
+      addToast(`Score for question ${questionIndex + 1} updated.`, 'success');
+      return true;
+    } catch (error: any) {
+      addToast(`Failed to update score: ${error.message}`, 'error');
+      return false;
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-lg p-6 dark:bg-slate-800">
       <div className="flex items-center justify-between mb-6">
@@ -29,25 +59,168 @@ const SubmissionDetailView: React.FC<SubmissionDetailProps> = ({ test, submissio
         <div className="text-lg font-semibold text-gray-600 dark:text-gray-400">
             {evaluation.totalAwardedMarks} / {evaluation.totalPossibleMarks} Marks
         </div>
+        {currentSubmission.is_late && (
+            <div className="text-sm font-medium text-red-600 mt-1 dark:text-red-400">
+                Submitted late{currentSubmission.late_by_seconds ? ` (${formatDuration(currentSubmission.late_by_seconds * 1000)} after the deadline)` : ''}
+            </div>
+        )}
+        {gradeHistory.length > 0 && (
+            <div className="text-sm text-gray-500 mt-1 dark:text-gray-400">Adjusted by a teacher ({gradeHistory.length} {gradeHistory.length > 1 ? 'changes' : 'change'})</div>
+        )}
       </div>
 
       <div className="space-y-6">
         <h3 className="text-xl font-bold text-gray-800 border-b pb-2 dark:text-slate-200 dark:border-slate-700">Question Breakdown</h3>
-        {test.questions.map((question, index) => (
+        {paperQuestions.map((question, index) => (
           <QuestionBreakdown
             key={question.id || index}
             question={question}
-            answer={submission.answers[index]}
-            score={submission.evaluation.questionScores[index]}
+            answer={currentSubmission.answers[index]}
+            score={evaluation.questionScores[index]}
             index={index}
+            resultId={currentSubmission.id}
+            onSaveOverride={handleSaveOverride}
           />
         ))}
       </div>
+
+      <IntegrityTimeline events={currentSubmission.integrity_events || []} startedAt={currentSubmission.started_at} />
+
+      {gradeHistory.length > 0 && <GradeHistory history={gradeHistory} />}
     </div>
   );
 };
 
-const QuestionBreakdown: React.FC<{ question: Question, answer: (string | Record<number, string>), score: QuestionScore, index: number }> = ({ question, answer, score, index }) => {
+// Offsets are shown from the attempt's start ("+12:05") when it is known, otherwise as clock times.
+const formatOffset = (at: string, startedAt?: string | null) => {
+    if (!startedAt) return new Date(at).toLocaleTimeString();
+    const seconds = Math.max(0, Math.round((new Date(at).getTime() - new Date(startedAt).getTime()) / 1000));
+    return `+${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Short absences matter here, so anything under a minute is shown in seconds.
+const formatEventDuration = (ms: number) => (ms < 60000 ? `${Math.max(1, Math.round(ms / 1000))} seconds` : formatDuration(ms));
+
+const IntegrityTimeline: React.FC<{ events: IntegrityEvent[]; startedAt?: string | null }> = ({ events, startedAt }) => (
+    <div className="mt-8">
+        <h3 className="text-xl font-bold text-gray-800 border-b pb-2 mb-4 dark:text-slate-200 dark:border-slate-700">🛡️ Integrity Timeline</h3>
+        {events.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No integrity events were recorded during this attempt.</p>
+        ) : (
+            <ol className="relative border-l-2 border-yellow-300 ml-2 space-y-3 dark:border-yellow-700">
+                {events.map((event, i) => (
+                    <li key={i} className="ml-4 text-sm">
+                        <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full bg-yellow-400 dark:bg-yellow-600" />
+                        <span className="font-mono text-gray-500 mr-2 dark:text-slate-400" title={new Date(event.at).toLocaleString()}>{formatOffset(event.at, startedAt)}</span>
+                        <span className="font-medium text-gray-800 dark:text-slate-200">{INTEGRITY_EVENT_LABELS[event.type] || event.type}</span>
+                        {event.durationMs ? <span className="text-gray-600 dark:text-gray-400"> for {formatEventDuration(event.durationMs)}</span> : null}
+                        {event.detail && <span className="text-gray-500 dark:text-gray-400"> ({event.detail})</span>}
+                    </li>
+                ))}
+            </ol>
+        )}
+    </div>
+);
+
+const GradeHistory: React.FC<{ history: GradeOverride[] }> = ({ history }) => (
+    <div className="mt-8">
+        <h3 className="text-xl font-bold text-gray-800 border-b pb-2 mb-4 dark:text-slate-200 dark:border-slate-700">🕓 Grade History</h3>
+        <div className="overflow-x-auto border rounded-lg dark:border-slate-700">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-slate-700/50">
+                    <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">When</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Question</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Original</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Change</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Changed By</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Reason</th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200 dark:bg-slate-800 dark:divide-slate-700">
+                    {[...history].reverse().map((entry, i) => (
+                        <tr key={i}>
+                            <td className="px-4 py-2 whitespace-nowrap text-gray-500 dark:text-slate-400">{new Date(entry.changedAt).toLocaleString()}</td>
+                            <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-slate-300">Q{entry.questionIndex + 1}</td>
+                            <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-slate-300">{entry.originalScore}</td>
+                            <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900 dark:text-slate-100">{entry.previousScore} → {entry.newScore}</td>
+                            <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-slate-300">{entry.changedByName}</td>
+                            <td className="px-4 py-2 text-gray-700 dark:text-slate-300">{entry.reason}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+);
+
+const QuestionBreakdown: React.FC<{
+    question: Question,
+    answer: (string | Record<number, string>),
+    score: QuestionScore,
+    index: number,
+    resultId?: string,
+    onSaveOverride: (questionIndex: number, score: number, feedback: string, reason: string, criterionScores?: CriterionScore[], subScores?: { score: number }[]) => Promise<boolean>,
+}> = ({ question, answer, score, index, resultId, onSaveOverride }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [draftScore, setDraftScore] = useState(String(score.score));
+    const [draftFeedback, setDraftFeedback] = useState(score.feedback);
+    const [draftLevels, setDraftLevels] = useState<CriterionScore[]>([]);
+    const [draftSubScores, setDraftSubScores] = useState<string[]>([]);
+    const [reason, setReason] = useState('');
+    const { addToast } = useToast();
+    const rubric = hasRubric(question.rubric) ? question.rubric : null;
+
+    const startEditing = () => {
+        setDraftScore(String(score.score));
+        setDraftFeedback(score.feedback);
+        setDraftLevels(score.criterionScores || []);
+        setDraftSubScores((score.subScores || []).map(sub => String(sub.score)));
+        setReason('');
+        setIsEditing(true);
+    };
+
+    // Picking a level re-derives the score from the rubric; the teacher can still type one.
+    const handleSelectLevel = (criterion: number, level: number) => {
+        if (!rubric) return;
+        const picked = [...draftLevels.filter(s => s.criterion !== criterion), { criterion, level, points: rubric[criterion].levels[level].points }]
+            .sort((a, b) => a.criterion - b.criterion);
+        setDraftLevels(picked);
+        setDraftScore(String(getRubricMarks(rubric, picked, score.maxMarks ?? 0)));
+    };
+
+    // With per-sub-question scores, the question's score is always their sum.
+    const handleSubScoreChange = (subIndex: number, value: string) => {
+        const updated = draftSubScores.map((draft, i) => (i === subIndex ? value : draft));
+        setDraftSubScores(updated);
+        setDraftScore(String(updated.reduce((sum, draft) => sum + (parseFloat(draft) || 0), 0)));
+    };
+
+    const handleSave = async () => {
+        const parsedScore = parseFloat(draftScore);
+        const maxMarks = score.maxMarks ?? 0;
+        const subScores = score.subScores?.map((_, i) => ({ score: parseFloat(draftSubScores[i]) }));
+        const invalidSub = score.subScores?.find((sub, i) => isNaN(subScores![i].score) || subScores![i].score < 0 || subScores![i].score > sub.maxMarks);
+        if (invalidSub) {
+            addToast(`Sub-question ${score.subScores!.indexOf(invalidSub) + 1} must score between 0 and ${invalidSub.maxMarks}.`, 'error');
+            return;
+        }
+        if (isNaN(parsedScore) || parsedScore < 0 || parsedScore > maxMarks) {
+            addToast(`Score must be between 0 and ${maxMarks}.`, 'error');
+            return;
+        }
+        if (!reason.trim()) {
+            addToast('Please give a reason for the change.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const criterionScores = rubric ? scoreRubric(rubric, draftLevels) ?? undefined : undefined;
+        const saved = await onSaveOverride(index, parsedScore, draftFeedback, reason.trim(), criterionScores, subScores);
+        setIsSaving(false);
+        if (saved) setIsEditing(false);
+    };
+
     const percentage = score.maxMarks && score.maxMarks > 0 ? Math.round((score.score / score.maxMarks) * 100) : 0;
     const scoreColor = percentage >= 80 ? 'text-green-500 dark:text-green-400' :
                        percentage >= 60 ? 'text-yellow-500 dark:text-yellow-400' : 'text-red-500 dark:text-red-400';
@@ -63,19 +236,24 @@ const QuestionBreakdown: React.FC<{ question: Question, answer: (string | Record
                     </span>
                 )}
             </h4>
-            <div className={`text-right text-lg font-bold ${scoreColor}`}>
-                {score.score} / {score.maxMarks}
+            <div className="flex items-center space-x-3">
+                <div className={`text-right text-lg font-bold ${scoreColor}`}>
+                    {score.score} / {score.maxMarks}
+                </div>
+                {!isEditing && (
+                    <button onClick={startEditing} className="text-sm text-indigo-600 hover:text-indigo-900 font-medium dark:text-indigo-400 dark:hover:text-indigo-300">{score.source === 'pending' ? 'Grade' : 'Adjust'}</button>
+                )}
             </div>
         </div>
         
         {question.type === 'reading-comprehension' && question.passage && (
             <div className="p-3 bg-gray-100 rounded-md border mb-4 dark:bg-slate-800 dark:border-slate-600">
                 <h5 className="font-semibold text-gray-600 mb-1 dark:text-slate-400">Reading Passage</h5>
-                <div className="text-gray-700 whitespace-pre-wrap dark:text-slate-300" dangerouslySetInnerHTML={{ __html: question.passage }} />
+                <MathText text={question.passage} html as="div" className="text-gray-700 whitespace-pre-wrap dark:text-slate-300" />
             </div>
         )}
         
-        <div className="text-gray-700 mb-4 whitespace-pre-wrap font-medium dark:text-slate-300" dangerouslySetInnerHTML={{ __html: question.text }} />
+        <MathText text={question.text} html as="div" className="text-gray-700 mb-4 whitespace-pre-wrap font-medium dark:text-slate-300" />
 
         {(question.media?.image || question.media?.video || question.media?.audio) && (
             <div className="my-4 p-2 border rounded-lg dark:border-slate-600">
@@ -88,18 +266,64 @@ const QuestionBreakdown: React.FC<{ question: Question, answer: (string | Record
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="bg-white rounded-lg p-3 border dark:bg-slate-700 dark:border-slate-600">
                 <h5 className="font-semibold text-gray-700 mb-2 dark:text-slate-300">Student's Answer</h5>
-                <DisplayAnswer answer={answer} question={question} />
+                <DisplayAnswer answer={answer} question={question} resultId={resultId} index={index} subScores={score.subScores} />
             </div>
             <div className="bg-blue-50 rounded-lg p-3 border border-blue-200 dark:bg-blue-900/30 dark:border-blue-800">
-                <h5 className="font-semibold text-blue-800 mb-2 dark:text-blue-300">AI Feedback</h5>
-                <p className="text-gray-700 text-sm dark:text-slate-300 whitespace-pre-wrap">{score.feedback}</p>
+                <h5 className="font-semibold text-blue-800 mb-2 dark:text-blue-300">
+                    {score.source === 'auto' ? 'Auto-marked Feedback' : score.source === 'manual' ? 'Teacher Feedback' : score.source === 'pending' ? 'Awaiting Your Grading' : 'AI Feedback'}
+                    {score.source === 'mixed' && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">(objective parts auto-marked)</span>}
+                </h5>
+                <MathText text={score.feedback} as="p" className="text-gray-700 text-sm dark:text-slate-300 whitespace-pre-wrap" />
             </div>
         </div>
+
+        {rubric && !isEditing && (
+            <div className="mt-4">
+                <h5 className="font-semibold text-gray-700 mb-2 dark:text-slate-300">Rubric</h5>
+                <RubricGrid rubric={rubric} criterionScores={score.criterionScores} />
+            </div>
+        )}
+
+        {isEditing && (
+            <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-3 dark:bg-yellow-900/30 dark:border-yellow-800">
+                <h5 className="font-semibold text-yellow-800 dark:text-yellow-300">Adjust Score</h5>
+                {rubric && (
+                    <div>
+                        <p className="text-xs text-gray-600 mb-1 dark:text-gray-400">Pick a level for each criterion to work out the score.</p>
+                        <RubricGrid rubric={rubric} criterionScores={draftLevels} onSelect={handleSelectLevel} />
+                    </div>
+                )}
+                {score.subScores && (
+                    <div className="flex flex-wrap gap-3">
+                        {score.subScores.map((sub, subIndex) => (
+                            <label key={subIndex} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                                Q{index + 1}.{subIndex + 1}:
+                                <input type="number" min={0} max={sub.maxMarks} step={0.5} value={draftSubScores[subIndex] ?? ''} onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleSubScoreChange(subIndex, e.target.value)} className="w-20 p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white" />
+                                <span className="text-gray-600 dark:text-gray-400">/ {sub.maxMarks}</span>
+                            </label>
+                        ))}
+                    </div>
+                )}
+                <div className="flex items-center gap-2">
+                    <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Score:</label>
+                    <input type="number" min={0} max={score.maxMarks} step={0.5} value={draftScore} readOnly={!!score.subScores} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftScore(e.target.value)} className="w-24 p-2 border rounded-md read-only:bg-gray-100 dark:bg-slate-700 dark:border-slate-600 dark:text-white" />
+                    <span className="text-sm text-gray-600 dark:text-gray-400">/ {score.maxMarks}</span>
+                </div>
+                <textarea value={draftFeedback} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDraftFeedback(e.target.value)} rows={3} className="w-full p-2 border rounded-md text-sm dark:bg-slate-700 dark:border-slate-600 dark:text-white" placeholder="Feedback shown to the student" />
+                <input type="text" value={reason} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReason(e.target.value)} className="w-full p-2 border rounded-md text-sm dark:bg-slate-700 dark:border-slate-600 dark:text-white" placeholder="Reason for the change (required, kept in the grade history)" />
+                <div className="flex justify-end space-x-2">
+                    <button onClick={() => setIsEditing(false)} className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-lg text-sm dark:bg-slate-600 dark:hover:bg-slate-500 dark:text-slate-100">Cancel</button>
+                    <button onClick={handleSave} disabled={isSaving} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm disabled:bg-blue-400">
+                        {isSaving ? 'Saving...' : 'Save Score'}
+                    </button>
+                </div>
+            </div>
+        )}
     </div>
   );
 };
 
-const DisplayAnswer: React.FC<{answer: (string | Record<number, string>), question: Question}> = ({ answer, question }) => {
+const DisplayAnswer: React.FC<{answer: (string | Record<number, string>), question: Question, resultId?: string, index: number, subScores?: SubQuestionScore[]}> = ({ answer, question, resultId, index: questionIndex, subScores }) => {
     if (question.type === 'reading-comprehension' && typeof answer === 'object') {
         return (
             <div className="space-y-2">
@@ -110,19 +334,28 @@ const DisplayAnswer: React.FC<{answer: (string | Record<number, string>), questi
                     if (compQ.type === 'multiple-choice') {
                         const optionIndex = studentAnswer ? studentAnswer.charCodeAt(0) - 65 : -1;
                         const selectedOption = compQ.options?.[optionIndex];
-                        display = <p className="text-gray-800 dark:text-slate-200">{studentAnswer}. {selectedOption || <span className="text-gray-400 italic">No answer provided</span>}</p>;
+                        display = <p className="text-gray-800 dark:text-slate-200">{studentAnswer}. {selectedOption ? <MathText text={selectedOption} /> : <span className="text-gray-400 italic">No answer provided</span>}</p>;
                     } else if (compQ.type === 'true-false') {
                         display = <p className="text-gray-800 dark:text-slate-200">{studentAnswer || <span className="text-gray-400 italic">No answer provided</span>}</p>;
                     } else { // short-answer
-                        display = <div className="text-gray-800 dark:text-slate-200" dangerouslySetInnerHTML={{ __html: studentAnswer || `<span class="text-gray-400 italic">No answer provided</span>` }} />;
+                        display = studentAnswer
+                            ? <MathText text={studentAnswer} html as="div" className="text-gray-800 dark:text-slate-200" />
+                            : <p className="text-gray-400 italic">No answer provided</p>;
                     }
 
+                    const subScore = subScores?.[index];
                     return (
                         <div key={index} className="text-sm">
-                            <p className="font-medium text-gray-600 dark:text-gray-400">{compQ.question}</p>
+                            <div className="flex justify-between items-start gap-2">
+                                <MathText text={compQ.question} as="p" className="font-medium text-gray-600 dark:text-gray-400" />
+                                {subScore && (
+                                    <span className={`text-xs font-semibold whitespace-nowrap ${subScore.score >= subScore.maxMarks ? 'text-green-600 dark:text-green-400' : subScore.score > 0 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-500 dark:text-red-400'}`}>{subScore.score} / {subScore.maxMarks}</span>
+                                )}
+                            </div>
                             <div className="pl-2 border-l-2 border-gray-200 dark:border-slate-600">
                                 {display}
                             </div>
+                            {subScore?.feedback && <MathText text={subScore.feedback} as="p" className="mt-1 pl-2 text-xs text-gray-600 whitespace-pre-wrap dark:text-gray-400" />}
                         </div>
                     );
                 })}
@@ -130,21 +363,119 @@ const DisplayAnswer: React.FC<{answer: (string | Record<number, string>), questi
         );
     }
     
+    // Teacher-graded answers show any free-text marking notes next to the recording or
+    // file; a structured rubric is shown below the answer instead.
+    if (question.type === 'audio-response' || question.type === 'file-upload') {
+        const stored = typeof answer === 'string' ? answer : '';
+        return (
+            <div>
+                {question.type === 'file-upload'
+                    ? <AnswerFile resultId={resultId} questionIndex={questionIndex} path={stored} />
+                    : stored ? <audio controls src={stored} className="w-full" /> : <p className="text-gray-400 italic">No recording submitted</p>}
+                {question.marking_scheme && !hasRubric(question.rubric) && (
+                    <div className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                        <p className="font-medium">Marking notes</p>
+                        <p className="whitespace-pre-wrap">{question.marking_scheme}</p>
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    if (question.type === 'numeric') {
+        return (
+            <div>
+                <p className="text-gray-800 dark:text-slate-200">{typeof answer === 'string' && answer.trim() ? answer : <span className="text-gray-400 italic">No answer provided</span>}</p>
+                {question.numeric_answer && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Key: {describeNumericKey(question.numeric_answer)}</p>}
+            </div>
+        );
+    }
+
+    if (question.type === 'matching' || question.type === 'ordering') {
+        const itemText = (letter: string) => <MathText text={(letter && question.options?.[letter.charCodeAt(0) - 65]) || '—'} />;
+        const expected = parseLetterSequence(question.correct_answer);
+        const given = question.type === 'matching'
+            ? expected.map((_, i) => (typeof answer === 'object' ? answer[i] || '' : ''))
+            : parseLetterSequence(answer);
+        const rows = question.type === 'matching' ? question.match_prompts || [] : expected.map((_, i) => `${i + 1}.`);
+        return (
+            <div>
+                <table className="text-sm w-full">
+                    <thead>
+                        <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                            <th className="pr-2 font-medium">{question.type === 'matching' ? 'Item' : 'Position'}</th>
+                            <th className="pr-2 font-medium">Student</th>
+                            <th className="font-medium">Correct</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((label, i) => (
+                            <tr key={i} className={given[i] === expected[i] ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                                <td className="pr-2 text-gray-700 dark:text-slate-300"><MathText text={label} /></td>
+                                <td className="pr-2">{given[i] === expected[i] ? '✓' : '✗'} {itemText(given[i])}</td>
+                                <td className="text-gray-700 dark:text-slate-300">{itemText(expected[i])}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{ARRANGEMENT_SCORING_LABELS[question.arrangement_scoring || 'all-or-nothing']}</p>
+            </div>
+        );
+    }
+
+    if (question.type === 'cloze') {
+        const blankAnswers = typeof answer === 'object' ? answer : {};
+        return (
+            <ul className="text-sm space-y-1">
+                {(question.cloze_blanks || []).map((blank, blankIndex) => {
+                    const given = blankAnswers[blankIndex]?.trim();
+                    const isAccepted = matchesClozeBlank(blank, given);
+                    return (
+                        <li key={blankIndex}>
+                            <span className={isAccepted ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                                {isAccepted ? '✓' : '✗'} Blank {blankIndex + 1}: {given || <span className="text-gray-400 italic">No answer provided</span>}
+                            </span>
+                            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                Accepts: {[...(blank.accepted_answers || []).filter(a => a.trim()), ...(blank.pattern ? [`/${blank.pattern}/`] : [])].join(', ') || 'not set'}
+                            </span>
+                        </li>
+                    );
+                })}
+            </ul>
+        );
+    }
+
     // FIX: Correctly handle multiple-choice answers by ensuring 'answer' is a string before rendering.
     // This prevents a React error when 'answer' is an object and fixes a bug in calculating the selected option.
     if (question.type === 'multiple-choice') {
         const answerString = typeof answer === 'string' ? answer : null;
         const optionIndex = answerString ? answerString.charCodeAt(0) - 65 : -1;
         const selectedOption = question.options?.[optionIndex];
-        return <p className="text-gray-800 whitespace-pre-wrap dark:text-slate-200">{answerString ? `${answerString}. ${selectedOption}` : <span className="text-gray-400 italic">No answer provided</span>}</p>
+        return <p className="text-gray-800 whitespace-pre-wrap dark:text-slate-200">{answerString ? <MathText text={`${answerString}. ${selectedOption}`} /> : <span className="text-gray-400 italic">No answer provided</span>}</p>
+    }
+
+    if (question.type === 'multi-select') {
+        const picked = parseChoiceSet(answer);
+        const expected = parseChoiceSet(question.correct_answer);
+        if (picked.length === 0) return <p className="text-gray-400 italic">No answer provided</p>;
+        return (
+            <div>
+                <ul className="text-gray-800 dark:text-slate-200 space-y-0.5">
+                    {picked.map(letter => (
+                        <li key={letter} className={expected.includes(letter) ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                            {expected.includes(letter) ? '✓' : '✗'} {letter}. <MathText text={question.options?.[letter.charCodeAt(0) - 65]} />
+                        </li>
+                    ))}
+                </ul>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Correct options: {expected.join(', ') || 'not set'} · {MULTI_SELECT_SCORING_LABELS[question.multi_select_scoring || 'all-or-nothing']}
+                </p>
+            </div>
+        );
     }
 
-    return (
-        <div 
-            className="text-gray-800 whitespace-pre-wrap dark:text-slate-200"
-            dangerouslySetInnerHTML={{ __html: String(answer) || `<span class="text-gray-400 italic">No answer provided</span>` }}
-        />
-    );
+    if (!answer) return <p className="text-gray-400 italic">No answer provided</p>;
+    return <MathText text={String(answer)} html as="div" className="text-gray-800 whitespace-pre-wrap dark:text-slate-200" />;
 };
 
 export default SubmissionDetailView;
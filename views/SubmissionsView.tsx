@@ -4,6 +4,7 @@ import { dataService } from '../services/dataService';
 import { useToast } from '../contexts/ToastContext';
 import type { Test, TestResult } from '../types';
 import { TableSkeleton } from '../components/SkeletonLoader';
+import { formatDuration } from '../src/utils/availability';
 
 interface SubmissionsProps {
   test: Test;
@@ -11,6 +12,14 @@ interface SubmissionsProps {
   onViewDetail: (submission: TestResult) => void;
 }
 
+const IntegrityFlagCount: React.FC<{ count: number }> = ({ count }) => {
+  if (count === 0) return <span className="text-gray-400 dark:text-slate-500">None</span>;
+  const badgeClass = count >= 5
+    ? 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300'
+    : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300';
+  return <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${badgeClass}`}>🚩 {count}</span>;
+};
+
 const SubmissionsView: React.FC<SubmissionsProps> = ({ test, navigateTo, onViewDetail }) => {
   const [submissions, setSubmissions] = useState<TestResult[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -62,18 +71,29 @@ const SubmissionsView: React.FC<SubmissionsProps> = ({ test, navigateTo, onViewD
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Student Name</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Score</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Submitted At</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Integrity Flags</th>
                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-400">Actions</th>
               </tr>
             </thead>
             {isLoading ? (
-                <TableSkeleton columns={4} />
+                <TableSkeleton columns={5} />
             ) : (
                 <tbody className="bg-white divide-y divide-gray-200 dark:bg-slate-800 dark:divide-slate-700">
                   {submissions.length > 0 ? submissions.map(submission => (
                     <tr key={submission.id} className="hover:bg-gray-50 dark:hover:bg-slate-700">
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-slate-100">{submission.student_name}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-gray-700 dark:text-slate-300">{submission.evaluation.overallScore}%</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-slate-400">{formatDate(submission.submitted_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-slate-400">
+                        {formatDate(submission.submitted_at)}
+                        {submission.is_late && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300" title="Received after the deadline and grace period">
+                            Late{submission.late_by_seconds ? ` by ${formatDuration(submission.late_by_seconds * 1000)}` : ''}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <IntegrityFlagCount count={submission.integrity_events?.length || 0} />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm space-x-4">
                         <button onClick={() => onViewDetail(submission)} className="text-indigo-600 hover:text-indigo-900 font-medium dark:text-indigo-400 dark:hover:text-indigo-300">View</button>
                         <button onClick={() => setSubmissionToDelete(submission)} className="text-red-600 hover:text-red-900 font-medium dark:text-red-400 dark:hover:text-red-300">Delete</button>
@@ -81,7 +101,7 @@ const SubmissionsView: React.FC<SubmissionsProps> = ({ test, navigateTo, onViewD
                     </tr>
                   )) : (
                     <tr>
-                        <td colSpan={4} className="text-center py-8">
+                        <td colSpan={5} className="text-center py-8">
                             <p className="text-gray-600 text-lg dark:text-gray-400">No students have submitted this test yet.</p>
                         </td>
                     </tr>
@@ -1,10 +1,26 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { aiService } from '../services/aiService';
 import { dataService } from '../services/dataService';
 import { useToast } from '../contexts/ToastContext';
-import type { Test, TestResult, Question, ComprehensionQuestion } from '../types';
+import type { Test, TestResult, Question, IntegrityEvent, IntegrityEventType } from '../types';
+import { nowWithSkew, syncTimeSkew } from '../src/utils/timeSkew';
+import { countLockdownViolations, IDLE_THRESHOLD_MS, LOCKDOWN_VIOLATION_TYPES } from '../src/utils/integrity';
+import { buildAttemptLayout, optionLetter } from '../src/utils/shuffle';
+import { getPaperQuestions } from '../src/utils/pools';
+import { parseChoiceSet, toggleChoice } from '../src/utils/grading';
+import { splitClozeText } from '../src/utils/cloze';
+import { formatLetterSequence, parseLetterSequence } from '../src/utils/arrangement';
+import { parseNumericAnswer } from '../src/utils/numeric';
+import { formatRecordingTime, getRecordingLimit } from '../src/utils/audio';
+import { describeAllowedFileTypes, formatFileSize, getAcceptAttribute, getFileUploadProblem, getMaxFileSizeMb, getUploadFileName } from '../src/utils/uploads';
+import { MathText } from '../components/MathText';
+import { EquationAid } from '../components/EquationAid';
+import { RichTextPreview, RichTextToolbar } from '../components/RichTextToolbar';
+import { richTextToPlainText } from '../src/utils/richText';
+
+// Docked developer tools shrink the viewport by at least this much relative to the window.
+const DEVTOOLS_SIZE_GAP = 160;
 
 interface TakeTestProps {
   test: Test;
@@ -12,22 +28,255 @@ interface TakeTestProps {
   navigateTo: (view: 'dashboard') => void;
 }
 
-const MiniToolbar: React.FC<{ onFormat: (tag: 'b' | 'i' | 'u') => void }> = ({ onFormat }) => {
+// Counts the words the student wrote, not the formatting tags around them.
+const WordCounter: React.FC<{ text: string; limit?: number | null }> = ({ text, limit }) => {
+    const plainText = richTextToPlainText(text);
+    const wordCount = plainText === '' ? 0 : plainText.split(/\s+/).length;
+    const isOverLimit = limit && wordCount > limit;
     return (
-        <div className="flex space-x-1 mb-1">
-            <button type="button" onClick={() => onFormat('b')} className="px-2 py-0.5 text-sm bg-gray-200 dark:bg-slate-600 rounded font-bold" aria-label="Bold">B</button>
-            <button type="button" onClick={() => onFormat('i')} className="px-2 py-0.5 text-sm bg-gray-200 dark:bg-slate-600 rounded italic" aria-label="Italic">I</button>
-            <button type="button" onClick={() => onFormat('u')} className="px-2 py-0.5 text-sm bg-gray-200 dark:bg-slate-600 rounded underline" aria-label="Underline">U</button>
+        <div className={`text-right text-xs mt-1 ${isOverLimit ? 'text-red-500 font-bold' : 'text-gray-500 dark:text-gray-400'}`}>
+            Word Count: {wordCount}{limit ? ` / ${limit}` : ''}
         </div>
     );
 };
 
-const WordCounter: React.FC<{ text: string; limit?: number | null }> = ({ text, limit }) => {
-    const wordCount = text.trim() === '' ? 0 : text.trim().split(/\s+/).length;
-    const isOverLimit = limit && wordCount > limit;
+interface ArrangementInputProps {
+    question: Question;
+    index: number;
+    // Canonical option indexes in display order; answers always use canonical letters.
+    displayOrder: number[];
+}
+
+// Students drag right-hand items onto prompts; each prompt also has a select, so the
+// question works from the keyboard. Answers map prompt index to the chosen letter.
+const MatchingInput: React.FC<ArrangementInputProps & { answer: Record<number, string>; onChange: (answer: Record<number, string>) => void }> = ({ question, displayOrder, answer, onChange }) => {
+    const [dragOverPrompt, setDragOverPrompt] = useState<number | null>(null);
+    const usedLetters = Object.values(answer).filter(Boolean);
+    const setMatch = (promptIndex: number, letter: string) => onChange({ ...answer, [promptIndex]: letter });
+
     return (
-        <div className={`text-right text-xs mt-1 ${isOverLimit ? 'text-red-500 font-bold' : 'text-gray-500 dark:text-gray-400'}`}>
-            Word Count: {wordCount}{limit ? ` / ${limit}` : ''}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2 space-y-2">
+                {(question.match_prompts || []).map((prompt, promptIndex) => (
+                    <div
+                        key={promptIndex}
+                        onDragOver={(e: React.DragEvent) => { e.preventDefault(); setDragOverPrompt(promptIndex); }}
+                        onDragLeave={() => setDragOverPrompt(null)}
+                        onDrop={(e: React.DragEvent) => { e.preventDefault(); setDragOverPrompt(null); setMatch(promptIndex, e.dataTransfer.getData('text/plain')); }}
+                        className={`flex flex-col sm:flex-row sm:items-center gap-2 p-2 rounded border ${dragOverPrompt === promptIndex ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30' : 'border-gray-200 dark:border-slate-600'}`}
+                    >
+                        <MathText text={prompt} className="sm:w-1/2 dark:text-slate-200" />
+                        <select
+                            value={answer[promptIndex] || ''}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setMatch(promptIndex, e.target.value)}
+                            className="sm:w-1/2 p-2 border rounded-md dark:bg-slate-900 dark:border-slate-600 dark:text-white"
+                            aria-label={`Match for ${prompt}`}
+                        >
+                            <option value="">Drop or choose a match</option>
+                            {displayOrder.map(optionIndex => (
+                                <option key={optionIndex} value={optionLetter(optionIndex)}>{question.options?.[optionIndex]}</option>
+                            ))}
+                        </select>
+                    </div>
+                ))}
+            </div>
+            <div className="space-y-2">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Drag an item onto its match.</p>
+                {displayOrder.map(optionIndex => (
+                    <div
+                        key={optionIndex}
+                        draggable
+                        onDragStart={(e: React.DragEvent) => e.dataTransfer.setData('text/plain', optionLetter(optionIndex))}
+                        className={`p-2 rounded border cursor-grab bg-white dark:bg-slate-900 dark:border-slate-600 dark:text-slate-200 ${usedLetters.includes(optionLetter(optionIndex)) ? 'opacity-50' : ''}`}
+                    >
+                        <MathText text={question.options?.[optionIndex]} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Students drag items into sequence or move them with the arrow buttons. The answer is the
+// letter sequence, and stays empty until the student moves an item or keeps the shown order.
+const OrderingInput: React.FC<ArrangementInputProps & { answer: string; onChange: (answer: string) => void }> = ({ question, index, displayOrder, answer, onChange }) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const saved = parseLetterSequence(answer);
+    const isComplete = saved.length === displayOrder.length && saved.every(Boolean);
+    const sequence = isComplete ? saved : displayOrder.map(optionLetter);
+
+    const move = (from: number, to: number) => {
+        if (to < 0 || to >= sequence.length || from === to) return;
+        const next = [...sequence];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        onChange(formatLetterSequence(next));
+    };
+
+    return (
+        <div className="space-y-2">
+            {!isComplete && (
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span>Not answered yet. Move the items into order.</span>
+                    <button type="button" onClick={() => onChange(formatLetterSequence(sequence))} className="text-indigo-600 hover:underline dark:text-indigo-400">Keep this order</button>
+                </div>
+            )}
+            <ol className="space-y-2" aria-label={`Order for question ${index + 1}`}>
+                {sequence.map((letter, position) => (
+                    <li
+                        key={letter}
+                        draggable
+                        onDragStart={() => setDragIndex(position)}
+                        onDragOver={(e: React.DragEvent) => e.preventDefault()}
+                        onDrop={(e: React.DragEvent) => { e.preventDefault(); if (dragIndex !== null) move(dragIndex, position); setDragIndex(null); }}
+                        onDragEnd={() => setDragIndex(null)}
+                        className={`flex items-center gap-2 p-2 rounded border cursor-grab bg-white dark:bg-slate-900 dark:border-slate-600 ${dragIndex === position ? 'opacity-50' : ''}`}
+                    >
+                        <span className="font-mono text-sm text-gray-500 w-6 text-right dark:text-gray-400">{position + 1}.</span>
+                        <MathText text={question.options?.[letter.charCodeAt(0) - 65]} className="flex-1 dark:text-slate-200" />
+                        <button type="button" onClick={() => move(position, position - 1)} disabled={position === 0} className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30 dark:text-gray-400" aria-label={`Move item ${position + 1} up`}>↑</button>
+                        <button type="button" onClick={() => move(position, position + 1)} disabled={position === sequence.length - 1} className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30 dark:text-gray-400" aria-label={`Move item ${position + 1} down`}>↓</button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+// Records from the microphone until the student stops or the question's limit is reached,
+// then uploads the recording. The answer is the uploaded file's URL.
+const AudioResponseInput: React.FC<{ question: Question; answer: string; onChange: (answer: string) => void }> = ({ question, answer, onChange }) => {
+    const { profile } = useAuth();
+    const { addToast } = useToast();
+    const [status, setStatus] = useState<'idle' | 'recording' | 'uploading'>('idle');
+    const [elapsed, setElapsed] = useState(0);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const timerRef = useRef<number | null>(null);
+    const limit = getRecordingLimit(question);
+    const isSupported = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+    const stopRecording = useCallback(() => {
+        if (timerRef.current !== null) window.clearInterval(timerRef.current);
+        timerRef.current = null;
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    }, []);
+
+    // Leaving the question mid-recording releases the microphone without uploading.
+    useEffect(() => () => {
+        const recorder = recorderRef.current;
+        if (recorder) recorder.onstop = () => recorder.stream.getTracks().forEach(track => track.stop());
+        stopRecording();
+    }, [stopRecording]);
+
+    const startRecording = async () => {
+        if (!profile) return;
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch {
+            addToast('Microphone access was blocked. Allow it in your browser to record an answer.', 'error');
+            return;
+        }
+        const recorder = new MediaRecorder(stream);
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (e: BlobEvent) => { if (e.data.size > 0) chunks.push(e.data); };
+        recorder.onstop = async () => {
+            stream.getTracks().forEach(track => track.stop());
+            const type = recorder.mimeType || 'audio/webm';
+            const file = new File(chunks, `recording.${type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm'}`, { type });
+            setStatus('uploading');
+            try {
+                onChange(await dataService.uploadMediaFile(profile.id, file));
+            } catch (error: any) {
+                addToast(`Your recording could not be uploaded: ${error.message}`, 'error');
+            } finally {
+                setStatus('idle');
+            }
+        };
+        recorderRef.current = recorder;
+        recorder.start();
+        setElapsed(0);
+        setStatus('recording');
+        const startedAt = Date.now();
+        timerRef.current = window.setInterval(() => {
+            const seconds = Math.floor((Date.now() - startedAt) / 1000);
+            setElapsed(seconds);
+            if (seconds >= limit) stopRecording();
+        }, 250);
+    };
+
+    if (!isSupported) {
+        return <p className="text-sm text-red-600 dark:text-red-400">This browser cannot record audio. Please switch to a recent version of Chrome, Edge, Firefox or Safari.</p>;
+    }
+
+    return (
+        <div className="space-y-2">
+            {answer && status === 'idle' && <audio controls src={answer} className="w-full max-w-md" />}
+            <div className="flex items-center gap-3">
+                {status === 'recording' ? (
+                    <button type="button" onClick={stopRecording} className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700">■ Stop</button>
+                ) : (
+                    <button type="button" onClick={startRecording} disabled={status === 'uploading'} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50">
+                        {status === 'uploading' ? 'Uploading…' : answer ? '● Record again' : '● Record answer'}
+                    </button>
+                )}
+                <span className={`text-sm font-mono ${status === 'recording' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`} aria-live="polite">
+                    {status === 'recording' ? `${formatRecordingTime(elapsed)} / ` : 'Up to '}{formatRecordingTime(limit)}
+                </span>
+            </div>
+            {answer && status === 'idle' && <p className="text-xs text-gray-500 dark:text-gray-400">Recording again replaces the one above.</p>}
+        </div>
+    );
+};
+
+// Uploads one file to the student's private folder for this test. The answer is the file's
+// storage path; picking another file replaces it. Type and size are checked before upload.
+const FileUploadInput: React.FC<{ question: Question; testId: string; answer: string; onChange: (answer: string) => void }> = ({ question, testId, answer, onChange }) => {
+    const { profile } = useAuth();
+    const { addToast } = useToast();
+    const [isUploading, setIsUploading] = useState(false);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [fileSize, setFileSize] = useState<number | null>(null);
+
+    useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !profile) return;
+        const problem = getFileUploadProblem(question, file);
+        if (problem) {
+            addToast(problem, 'error');
+            return;
+        }
+        setIsUploading(true);
+        try {
+            onChange(await dataService.uploadAnswerFile(profile.id, testId, file));
+            setPreviewUrl(file.type.startsWith('image/') ? URL.createObjectURL(file) : null);
+            setFileSize(file.size);
+        } catch (error: any) {
+            addToast(`Your file could not be uploaded: ${error.message}`, 'error');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {answer && (
+                <div className="flex items-center gap-3 p-2 bg-white border rounded-lg dark:bg-slate-900 dark:border-slate-600">
+                    {previewUrl && <img src={previewUrl} alt="Your upload" className="h-16 w-16 object-cover rounded" />}
+                    <div className="text-sm dark:text-slate-200">
+                        <p className="font-medium break-all">📎 {getUploadFileName(answer)}</p>
+                        {fileSize !== null && <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(fileSize)} · uploaded</p>}
+                    </div>
+                </div>
+            )}
+            <label className={`inline-block px-4 py-2 rounded-lg text-white ${isUploading ? 'bg-indigo-400 cursor-wait' : 'bg-indigo-600 hover:bg-indigo-700 cursor-pointer'}`}>
+                {isUploading ? 'Uploading…' : answer ? 'Replace file' : 'Choose file'}
+                <input type="file" accept={getAcceptAttribute(question)} onChange={handleFile} disabled={isUploading} className="sr-only" />
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{describeAllowedFileTypes(question)} · up to {getMaxFileSizeMb(question)} MB</p>
         </div>
     );
 };
@@ -39,55 +288,99 @@ const TakeTestView: React.FC<TakeTestProps> = ({ test, onSubmitTest, navigateTo
   const autoSaveKey = `smartest-autosave-test-${profile?.id}-${test.id}`;
 
   const [answers, setAnswers] = useState<(string | Record<number, string>)[]>(() => Array(test.questions.length).fill(''));
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  // Questions drawn from pool sections for this attempt; they follow the test's own questions.
+  const [drawnQuestions, setDrawnQuestions] = useState<Question[]>([]);
+  // The deadline comes from the server; compare it with `nowWithSkew()`, never the raw local clock.
   const [endTime, setEndTime] = useState<number | null>(null);
-  const [timeRemaining, setTimeRemaining] = useState<number | null>(test.timer ? test.timer * 60 : null);
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const isLockdown = !!test.lockdown_enabled;
+  const maxViolations = isLockdown ? test.lockdown_max_violations ?? null : null;
+  const [isFullscreen, setIsFullscreen] = useState(() => !!document.fullscreenElement);
+  const [hasEnteredFullscreen, setHasEnteredFullscreen] = useState(false);
+  const [violationCount, setViolationCount] = useState(0);
+  const isSubmittingRef = useRef(false);
+  const handledViolationsRef = useRef(0);
   const originalTitle = useRef(document.title);
   
-  const stateRef = useRef({ answers, endTime });
-  stateRef.current = { answers, endTime };
+  const stateRef = useRef({ answers, attemptId });
+  stateRef.current = { answers, attemptId };
+  // Integrity events live in a ref: they are only read when saving or submitting, never rendered.
+  const integrityEventsRef = useRef<IntegrityEvent[]>([]);
+
+  const recordIntegrityEvent = useCallback((type: IntegrityEventType, extra: Omit<IntegrityEvent, 'type' | 'at'> = {}) => {
+    integrityEventsRef.current.push({ type, at: new Date(nowWithSkew()).toISOString(), ...extra });
+    // Recounted from the whole log, so the events one action logs together count once.
+    if (isLockdown && LOCKDOWN_VIOLATION_TYPES.includes(type)) setViolationCount(countLockdownViolations(integrityEventsRef.current));
+  }, [isLockdown]);
 
   const hasShownToast = useRef(false);
+  // `navigateTo` is recreated on every App render; read it through a ref so the attempt is only started once.
+  const navigateToRef = useRef(navigateTo);
+  navigateToRef.current = navigateTo;
 
-  // Initialize state from localStorage or set up new test session
+  // Start (or resume) the attempt on the server, then restore answers saved for that attempt.
+  // The paper's length is only known once the server has drawn any pool questions.
   useEffect(() => {
-    try {
-      const savedData = localStorage.getItem(autoSaveKey);
-      if (savedData) {
-        const { savedAnswers, savedEndTime } = JSON.parse(savedData);
-        if (Array.isArray(savedAnswers) && savedAnswers.length === test.questions.length && typeof savedEndTime === 'number') {
+    const restoreSavedProgress = (attemptId: string, paperLength: number) => {
+      try {
+        const savedData = localStorage.getItem(autoSaveKey);
+        if (!savedData) return;
+        const { savedAnswers, savedIntegrityEvents, savedAttemptId } = JSON.parse(savedData);
+        if (savedAttemptId && savedAttemptId !== attemptId) return;
+        if (Array.isArray(savedAnswers) && savedAnswers.length === paperLength) {
           setAnswers(savedAnswers);
-          setEndTime(savedEndTime);
-          const remaining = Math.max(0, Math.floor((savedEndTime - Date.now()) / 1000));
-          setTimeRemaining(remaining);
-          
+          if (Array.isArray(savedIntegrityEvents)) {
+            integrityEventsRef.current = savedIntegrityEvents;
+            // Reloading must not reset the lockdown count; reaching the limit here submits straight away.
+            setViolationCount(countLockdownViolations(savedIntegrityEvents));
+          }
           if (!hasShownToast.current) {
             addToast('Your previous progress has been restored.', 'info');
             hasShownToast.current = true;
           }
-          return; // Exit if we restored a draft
         }
+      } catch (error) {
+        console.error('Failed to load test draft from localStorage:', error);
       }
-    } catch (error) {
-      console.error('Failed to load test draft from localStorage:', error);
-    }
-    
-    // If no valid draft, set up a new session
-    if (test.timer) {
-      const newEndTime = Date.now() + test.timer * 60 * 1000;
-      setEndTime(newEndTime);
-      setTimeRemaining(test.timer * 60);
-    }
-  }, [autoSaveKey, test.questions.length, test.timer, addToast]);
+    };
+
+    let cancelled = false;
+    dataService.startAttempt(test.id!)
+      .then(attempt => {
+        if (cancelled) return;
+        syncTimeSkew(attempt.serverTime);
+        const drawn = attempt.drawnQuestions || [];
+        const paperLength = test.questions.length + drawn.length;
+        setDrawnQuestions(drawn);
+        setAnswers(Array(paperLength).fill(''));
+        restoreSavedProgress(attempt.attemptId, paperLength);
+        setShuffleSeed(attempt.shuffleSeed);
+        setAttemptId(attempt.attemptId);
+        if (attempt.deadlineAt) {
+          const deadline = new Date(attempt.deadlineAt).getTime();
+          setEndTime(deadline);
+          setTimeRemaining(Math.max(0, Math.floor((deadline - nowWithSkew()) / 1000)));
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        addToast(`Could not start the test: ${error.message}`, 'error');
+        navigateToRef.current('dashboard');
+      });
 
-  // Auto-save logic
+    return () => { cancelled = true; };
+  }, [autoSaveKey, test.id, test.questions.length, addToast]);
+
+  // Auto-save logic. Only answers are kept locally; the clock lives on the server.
   useEffect(() => {
-    if (endTime === null && !test.timer) return; // Don't save for untimed tests without a start time
-    
+    if (!attemptId) return;
+
     const intervalId = setInterval(() => {
       try {
-        const { answers, endTime } = stateRef.current;
-        localStorage.setItem(autoSaveKey, JSON.stringify({ savedAnswers: answers, savedEndTime: endTime }));
+        localStorage.setItem(autoSaveKey, JSON.stringify({ savedAnswers: stateRef.current.answers, savedIntegrityEvents: integrityEventsRef.current, savedAttemptId: stateRef.current.attemptId }));
         if (!hasShownToast.current) {
           addToast('Your progress is being saved automatically.', 'info');
           hasShownToast.current = true;
@@ -98,30 +391,94 @@ const TakeTestView: React.FC<TakeTestProps> = ({ test, onSubmitTest, navigateTo
     }, 5000); // Save every 5 seconds
 
     return () => clearInterval(intervalId);
-  }, [autoSaveKey, endTime, test.timer, addToast]);
+  }, [autoSaveKey, attemptId, addToast]);
   
-  // Anti-cheat logic
+  // Anti-cheat logic. Each integrity event is logged with a timestamp and submitted with the attempt.
   useEffect(() => {
+    let hiddenAt: number | null = null;
+    let lastActivityAt = Date.now();
+    let devtoolsSuspected = false;
+
     const handleContextmenu = (e: MouseEvent) => e.preventDefault();
     const handleCopy = (e: ClipboardEvent) => e.preventDefault();
     const handleVisibilityChange = () => {
-        if (document.hidden) addToast('Tab switching detected. Please remain on the test page.', 'warning');
+        if (document.hidden) {
+            hiddenAt = Date.now();
+            addToast('Tab switching detected. Please remain on the test page.', 'warning');
+        } else if (hiddenAt !== null) {
+            recordIntegrityEvent('tab-hidden', { durationMs: Date.now() - hiddenAt });
+            hiddenAt = null;
+        }
+    };
+    const handleBlur = () => {
+        // Switching tabs blurs the window too; give `visibilitychange` a moment so it is not logged twice.
+        setTimeout(() => {
+            if (!document.hidden && !document.hasFocus()) recordIntegrityEvent('window-blur');
+        }, 200);
     };
+    const handleFullscreenChange = () => {
+        setIsFullscreen(!!document.fullscreenElement);
+        if (!document.fullscreenElement) recordIntegrityEvent('fullscreen-exit');
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+        const pasted = e.clipboardData?.getData('text') || '';
+        if (isLockdown) {
+            e.preventDefault();
+            addToast('Pasting is disabled during this test.', 'warning');
+        }
+        recordIntegrityEvent('paste-attempt', { detail: `${pasted.length} characters${isLockdown ? ', blocked' : ''}` });
+    };
+    const checkDevtools = () => {
+        const suspected = window.outerWidth - window.innerWidth > DEVTOOLS_SIZE_GAP || window.outerHeight - window.innerHeight > DEVTOOLS_SIZE_GAP;
+        if (suspected && !devtoolsSuspected) {
+            recordIntegrityEvent('devtools-suspected', { detail: `viewport ${window.innerWidth}x${window.innerHeight} in window ${window.outerWidth}x${window.outerHeight}` });
+        }
+        devtoolsSuspected = suspected;
+    };
+    const handleActivity = () => {
+        const now = Date.now();
+        if (now - lastActivityAt >= IDLE_THRESHOLD_MS) {
+            recordIntegrityEvent('idle', { durationMs: now - lastActivityAt });
+        }
+        lastActivityAt = now;
+    };
+    const activityEvents = ['mousemove', 'keydown', 'scroll', 'touchstart'];
 
     document.addEventListener('contextmenu', handleContextmenu);
     document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
     document.addEventListener('visibilitychange', handleVisibilityChange);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    window.addEventListener('blur', handleBlur);
+    window.addEventListener('resize', checkDevtools);
+    activityEvents.forEach(name => window.addEventListener(name, handleActivity, { passive: true }));
+    checkDevtools();
     document.body.classList.add('select-none');
     addToast('Anti-cheat protection is active.', 'info');
     
     return () => {
       document.removeEventListener('contextmenu', handleContextmenu);
       document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
       document.removeEventListener('visibilitychange', handleVisibilityChange);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      window.removeEventListener('blur', handleBlur);
+      window.removeEventListener('resize', checkDevtools);
+      activityEvents.forEach(name => window.removeEventListener(name, handleActivity));
       document.body.classList.remove('select-none');
       document.title = originalTitle.current;
+      if (isLockdown && document.fullscreenElement) document.exitFullscreen().catch(() => {});
     };
-  }, [addToast]);
+  }, [addToast, recordIntegrityEvent, isLockdown]);
+
+  const enterFullscreen = async () => {
+    try {
+      await document.documentElement.requestFullscreen();
+      setHasEnteredFullscreen(true);
+    } catch (error: any) {
+      addToast(`Could not enter fullscreen: ${error.message}`, 'error');
+    }
+  };
 
   const handleSubmit = useCallback(async () => {
     if (!profile) {
@@ -129,23 +486,19 @@ const TakeTestView: React.FC<TakeTestProps> = ({ test, onSubmitTest, navigateTo
       return;
     }
     
-    const currentAnswers = stateRef.current.answers;
+    const { answers: currentAnswers, attemptId: currentAttemptId } = stateRef.current;
+    if (!currentAttemptId) {
+      addToast('The test has not started yet. Please wait a moment.', 'error');
+      return;
+    }
+    // The timer and the lockdown limit can both trigger an automatic submission.
+    if (isSubmittingRef.current) return;
+    isSubmittingRef.current = true;
 
     setIsLoading(true);
     addToast('Submitting your test for AI evaluation...', 'info');
     try {
-      const evaluation = await aiService.evaluateTest(test.questions, currentAnswers);
-      
-      const result: TestResult = {
-        test_id: test.id!,
-        test_title: test.title,
-        student_id: profile.id,
-        student_name: profile.full_name,
-        answers: currentAnswers,
-        evaluation: evaluation,
-      };
-
-      await dataService.saveTestResult(result);
+      const result = await dataService.submitTest(test.id!, currentAttemptId, currentAnswers, integrityEventsRef.current);
       
       localStorage.removeItem(autoSaveKey);
 
@@ -154,16 +507,30 @@ const TakeTestView: React.FC<TakeTestProps> = ({ test, onSubmitTest, navigateTo
     } catch (error: any) {
       addToast(`Error submitting test: ${error.message}`, 'error');
     } finally {
+      isSubmittingRef.current = false;
       setIsLoading(false);
     }
   }, [test, profile, addToast, onSubmitTest, autoSaveKey]);
   
+  // Lockdown: warn on every violation and submit automatically once the limit is reached.
+  useEffect(() => {
+    if (!isLockdown || violationCount <= handledViolationsRef.current) return;
+    handledViolationsRef.current = violationCount;
+    if (maxViolations !== null && violationCount >= maxViolations) {
+      addToast('Too many lockdown violations. Submitting your test automatically.', 'error');
+      handleSubmit();
+    } else {
+      const remaining = maxViolations !== null ? ` ${maxViolations - violationCount} more will submit your test automatically.` : '';
+      addToast(`Lockdown violation recorded (${violationCount}${maxViolations !== null ? ` of ${maxViolations}` : ''}).${remaining}`, 'warning');
+    }
+  }, [violationCount, isLockdown, maxViolations, handleSubmit, addToast]);
+
   // Timer logic
   useEffect(() => {
     if (endTime === null) return; // Do nothing if the test is not timed.
 
     const timerId = setInterval(() => {
-      const remaining = Math.max(0, Math.floor((endTime - Date.now()) / 1000));
+      const remaining = Math.max(0, Math.floor((endTime - nowWithSkew()) / 1000));
       setTimeRemaining(remaining);
 
       if (remaining <= 0) {
@@ -177,6 +544,14 @@ const TakeTestView: React.FC<TakeTestProps> = ({ test, onSubmitTest, navigateTo
   }, [endTime, handleSubmit, addToast]);
 
 
+  const paperQuestions = useMemo(() => getPaperQuestions(test.questions, drawnQuestions), [test.questions, drawnQuestions]);
+
+  // Display order for this attempt. Answers stay keyed by canonical index and letter.
+  const layout = useMemo(() => buildAttemptLayout(paperQuestions, shuffleSeed, {
+    shuffleQuestions: !!test.shuffle_questions,
+    shuffleOptions: !!test.shuffle_options,
+  }), [paperQuestions, test.shuffle_questions, test.shuffle_options, shuffleSeed]);
+
   const updateAnswer = (questionIndex: number, answer: string | Record<number, string>) => {
     setAnswers(prev => {
       const newAnswers = [...prev];
@@ -209,43 +584,72 @@ const TakeTestView: React.FC<TakeTestProps> = ({ test, onSubmitTest, navigateTo
           <span className="text-yellow-600 mr-2 dark:text-yellow-400">🛡️</span>
           <span className="text-yellow-800 font-medium dark:text-yellow-300">Anti-Cheat Protection Active</span>
         </div>
-        <p className="text-yellow-700 text-sm mt-1 dark:text-yellow-400">Right-click, copy/paste, and tab switching are monitored.</p>
+        <p className="text-yellow-700 text-sm mt-1 dark:text-yellow-400">Right-click and copying are blocked. Tab switching, pasting and long inactivity are recorded for your teacher.</p>
       </div>
 
-      <div className="space-y-6">
-        {test.questions.map((q, index) => (
-          <QuestionDisplay key={index} question={q} index={index} answer={answers[index]} onAnswerChange={updateAnswer} />
-        ))}
-      </div>
-
-      <div className="mt-8 text-center">
-        <button onClick={handleSubmit} disabled={isLoading} className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-lg font-medium text-lg disabled:bg-blue-400">
-          {isLoading ? 'Evaluating...' : '🎯 Submit Test for AI Evaluation'}
-        </button>
-      </div>
+      {!attemptId ? (
+        <p className="p-8 text-center text-gray-600 dark:text-gray-300">Starting your attempt...</p>
+      ) : isLockdown && !isFullscreen ? (
+        <div className="p-8 text-center border-2 border-dashed border-red-300 rounded-lg dark:border-red-800">
+          <h3 className="text-xl font-bold text-gray-800 mb-2 dark:text-slate-100">
+            {hasEnteredFullscreen ? '⏸️ You left fullscreen' : '🔒 This test runs in fullscreen lockdown'}
+          </h3>
+          <p className="text-gray-600 mb-4 dark:text-gray-300">
+            {hasEnteredFullscreen
+              ? 'The questions are hidden until you return. The timer keeps running, and leaving fullscreen counts as a violation.'
+              : 'Questions are shown only in fullscreen. Pasting is blocked, and leaving fullscreen or switching windows counts as a violation.'}
+            {maxViolations !== null && ` After ${maxViolations} violations your test is submitted automatically.`}
+          </p>
+          {violationCount > 0 && (
+            <p className="text-sm font-medium text-red-600 mb-4 dark:text-red-400">Violations so far: {violationCount}{maxViolations !== null ? ` of ${maxViolations}` : ''}</p>
+          )}
+          <button onClick={enterFullscreen} disabled={!attemptId} className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-semibold disabled:bg-blue-400">
+            {hasEnteredFullscreen ? 'Return to Fullscreen' : 'Enter Fullscreen and Begin'}
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-6">
+            {layout.questionOrder.map((canonicalIndex, displayIndex) => (
+              <QuestionDisplay
+                key={canonicalIndex}
+                question={paperQuestions[canonicalIndex]}
+                index={canonicalIndex}
+                displayNumber={displayIndex + 1}
+                optionOrder={layout.optionOrders[canonicalIndex]}
+                answer={answers[canonicalIndex]}
+                onAnswerChange={updateAnswer}
+                testId={test.id!}
+              />
+            ))}
+          </div>
+
+          <div className="mt-8 text-center">
+            <button onClick={handleSubmit} disabled={isLoading || !attemptId} className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-lg font-medium text-lg disabled:bg-blue-400">
+              {isLoading ? 'Evaluating...' : '🎯 Submit Test for AI Evaluation'}
+            </button>
+          </div>
+        </>
+      )}
     </div>
   );
 };
 
-const QuestionDisplay: React.FC<{ question: Question; index: number; answer: string | Record<number, string>; onAnswerChange: (index: number, answer: string | Record<number, string>) => void; }> = ({ question, index, answer, onAnswerChange }) => {
+const QuestionDisplay: React.FC<{
+    question: Question;
+    // Canonical index, used for answers. `displayNumber` is what the student sees.
+    index: number;
+    displayNumber: number;
+    optionOrder?: number[];
+    answer: string | Record<number, string>;
+    onAnswerChange: (index: number, answer: string | Record<number, string>) => void;
+    testId: string;
+}> = ({ question, index, displayNumber, optionOrder, answer, onAnswerChange, testId }) => {
     let answerInput;
     const answerTextareaRef = useRef<HTMLTextAreaElement>(null);
-    const compAnswerRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
-
-    const handleFormat = (
-        ref: React.RefObject<HTMLTextAreaElement>,
-        callback: (newValue: string) => void
-    ) => (tag: 'b' | 'i' | 'u') => {
-        const textarea = ref.current;
-        if (!textarea) return;
-        const start = textarea.selectionStart;
-        const end = textarea.selectionEnd;
-        if (start === end) return;
-        const value = textarea.value;
-        const selectedText = value.substring(start, end);
-        const newValue = `${value.substring(0, start)}<${tag}>${selectedText}</${tag}>${value.substring(end)}`;
-        callback(newValue);
-    };
+    // One stable ref per comprehension answer box, so the toolbar and equation aid always reach it.
+    const compAnswerRefs = useRef<React.RefObject<HTMLTextAreaElement | null>[]>([]);
+    const getCompAnswerRef = (compIndex: number) => (compAnswerRefs.current[compIndex] ??= React.createRef<HTMLTextAreaElement>());
 
     const handleComprehensionAnswer = (compIndex: number, compAnswer: string) => {
         const currentCompAnswers = typeof answer === 'object' ? answer : {};
@@ -258,15 +662,30 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
         case 'multiple-choice':
             answerInput = (
                 <div className="space-y-2">
-                    {question.options?.map((opt, i) => (
-                        <label key={i} className="flex items-center space-x-2 p-2 hover:bg-gray-100 dark:hover:bg-slate-600 rounded cursor-pointer">
-                            <input type="radio" name={`question-${index}`} value={String.fromCharCode(65+i)} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onAnswerChange(index, e.target.value)} checked={answer === String.fromCharCode(65+i)} className="text-blue-600 focus:ring-indigo-500 dark:text-indigo-400" />
-                            <span className="dark:text-slate-200">{String.fromCharCode(65 + i)}. {opt}</span>
+                    {(optionOrder || (question.options || []).map((_, i) => i)).map((optionIndex, position) => (
+                        <label key={optionIndex} className="flex items-center space-x-2 p-2 hover:bg-gray-100 dark:hover:bg-slate-600 rounded cursor-pointer">
+                            <input type="radio" name={`question-${index}`} value={optionLetter(optionIndex)} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onAnswerChange(index, e.target.value)} checked={answer === optionLetter(optionIndex)} className="text-blue-600 focus:ring-indigo-500 dark:text-indigo-400" />
+                            <span className="dark:text-slate-200">{optionLetter(position)}. <MathText text={question.options?.[optionIndex]} /></span>
+                        </label>
+                    ))}
+                </div>
+            );
+            break;
+        case 'multi-select': {
+            const selected = parseChoiceSet(answer);
+            answerInput = (
+                <div className="space-y-2">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Select all that apply.</p>
+                    {(optionOrder || (question.options || []).map((_, i) => i)).map((optionIndex, position) => (
+                        <label key={optionIndex} className="flex items-center space-x-2 p-2 hover:bg-gray-100 dark:hover:bg-slate-600 rounded cursor-pointer">
+                            <input type="checkbox" checked={selected.includes(optionLetter(optionIndex))} onChange={() => onAnswerChange(index, toggleChoice(answer, optionLetter(optionIndex)))} className="text-blue-600 focus:ring-indigo-500 dark:text-indigo-400" />
+                            <span className="dark:text-slate-200">{optionLetter(position)}. <MathText text={question.options?.[optionIndex]} /></span>
                         </label>
                     ))}
                 </div>
             );
             break;
+        }
         case 'true-false':
             answerInput = (
                 <div className="space-y-2">
@@ -284,8 +703,10 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
         case 'short-answer':
             answerInput = (
                 <>
-                    <MiniToolbar onFormat={handleFormat(answerTextareaRef, (newValue) => onAnswerChange(index, newValue))} />
+                    <RichTextToolbar textareaRef={answerTextareaRef} value={typeof answer === 'string' ? answer : ''} onChange={(newValue) => onAnswerChange(index, newValue)} />
                     <textarea ref={answerTextareaRef} className={commonTextareaClasses} rows={3} placeholder="Enter your answer" value={typeof answer === 'string' ? answer : ''} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onAnswerChange(index, e.target.value)} />
+                    <EquationAid textareaRef={answerTextareaRef} value={typeof answer === 'string' ? answer : ''} onChange={(newValue) => onAnswerChange(index, newValue)} />
+                    <RichTextPreview value={typeof answer === 'string' ? answer : ''} />
                     <WordCounter text={typeof answer === 'string' ? answer : ''} limit={question.expected_word_limit} />
                 </>
             );
@@ -293,8 +714,10 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
         case 'long-answer':
             answerInput = (
                 <>
-                    <MiniToolbar onFormat={handleFormat(answerTextareaRef, (newValue) => onAnswerChange(index, newValue))} />
+                    <RichTextToolbar textareaRef={answerTextareaRef} value={typeof answer === 'string' ? answer : ''} onChange={(newValue) => onAnswerChange(index, newValue)} />
                     <textarea ref={answerTextareaRef} className={commonTextareaClasses} rows={6} placeholder="Write your detailed answer here" value={typeof answer === 'string' ? answer : ''} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onAnswerChange(index, e.target.value)} />
+                    <EquationAid textareaRef={answerTextareaRef} value={typeof answer === 'string' ? answer : ''} onChange={(newValue) => onAnswerChange(index, newValue)} />
+                    <RichTextPreview value={typeof answer === 'string' ? answer : ''} />
                     <WordCounter text={typeof answer === 'string' ? answer : ''} limit={question.expected_word_limit} />
                 </>
             );
@@ -304,7 +727,7 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
                 <div>
                     <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg mb-4 dark:bg-blue-900/30 dark:border-blue-800">
                         <h5 className="font-semibold text-blue-800 mb-2 dark:text-blue-300">📖 Reading Passage</h5>
-                        <div className="text-gray-700 whitespace-pre-wrap dark:text-slate-300" dangerouslySetInnerHTML={{ __html: question.passage || '' }} />
+                        <MathText text={question.passage} html as="div" className="text-gray-700 whitespace-pre-wrap dark:text-slate-300" />
                     </div>
                     <h5 className="font-semibold text-gray-800 mb-2 dark:text-slate-200">Comprehension Questions:</h5>
                     <div className="space-y-4">
@@ -318,7 +741,7 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
                                     {compQ.options?.map((opt, i) => (
                                         <label key={i} className="flex items-center space-x-2 p-1 hover:bg-gray-100 dark:hover:bg-slate-800 rounded cursor-pointer">
                                             <input type="radio" name={`question-${index}-${compIndex}`} value={String.fromCharCode(65 + i)} onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleComprehensionAnswer(compIndex, e.target.value)} checked={compAnswer === String.fromCharCode(65 + i)} className="text-blue-600 focus:ring-indigo-500 dark:text-indigo-400" />
-                                            <span className="dark:text-slate-300 text-sm">{String.fromCharCode(65 + i)}. {opt}</span>
+                                            <span className="dark:text-slate-300 text-sm">{String.fromCharCode(65 + i)}. <MathText text={opt} /></span>
                                         </label>
                                     ))}
                                 </div>
@@ -339,15 +762,17 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
                         } else { // short-answer
                             compAnswerInput = (
                                 <>
-                                    <MiniToolbar onFormat={handleFormat({ current: compAnswerRefs.current[compIndex] }, (newValue) => handleComprehensionAnswer(compIndex, newValue))} />
+                                    <RichTextToolbar textareaRef={getCompAnswerRef(compIndex)} value={compAnswer} onChange={(newValue) => handleComprehensionAnswer(compIndex, newValue)} />
                                     <textarea
-                                        ref={el => { compAnswerRefs.current[compIndex] = el }}
+                                        ref={getCompAnswerRef(compIndex)}
                                         className={`${commonTextareaClasses} text-sm`}
                                         rows={2}
                                         placeholder="Enter your answer"
                                         value={compAnswer}
                                         onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleComprehensionAnswer(compIndex, e.target.value)}
                                     />
+                                    <EquationAid textareaRef={getCompAnswerRef(compIndex)} value={compAnswer} onChange={(newValue) => handleComprehensionAnswer(compIndex, newValue)} />
+                                    <RichTextPreview value={compAnswer} />
                                     <WordCounter text={compAnswer} />
                                 </>
                             );
@@ -356,7 +781,7 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
                         return (
                             <div key={compIndex} className="bg-white p-3 rounded border dark:bg-slate-900 dark:border-slate-700">
                                 <div className="flex justify-between items-center mb-2">
-                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{compIndex + 1}. {compQ.question}</label>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{compIndex + 1}. <MathText text={compQ.question} /></label>
                                     <span className="text-xs text-gray-500 dark:text-gray-400">[{compQ.marks} marks]</span>
                                 </div>
                                 {compAnswerInput}
@@ -367,6 +792,79 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
                 </div>
             );
             break;
+        case 'numeric': {
+            const numericText = typeof answer === 'string' ? answer : '';
+            const isInvalid = numericText.trim() !== '' && parseNumericAnswer(numericText) === null;
+            answerInput = (
+                <div className="max-w-sm">
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        value={numericText}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onAnswerChange(index, e.target.value)}
+                        className={`w-full p-3 border rounded-lg dark:bg-slate-900 dark:text-white ${isInvalid ? 'border-red-500 dark:border-red-500' : 'dark:border-slate-600'}`}
+                        placeholder="e.g. 9.81 m/s^2 or 6.02e23"
+                        aria-invalid={isInvalid}
+                        aria-describedby={`question-${index}-numeric-help`}
+                        autoComplete="off"
+                    />
+                    <p id={`question-${index}-numeric-help`} className={`mt-1 text-xs ${isInvalid ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {isInvalid ? 'Start with a number, e.g. 12.5, -3e-4 or 1.2 × 10^5, then add any unit.' : 'Enter a number, followed by a unit if the question asks for one.'}
+                    </p>
+                </div>
+            );
+            break;
+        }
+        case 'matching':
+            answerInput = (
+                <MatchingInput
+                    question={question}
+                    index={index}
+                    displayOrder={optionOrder || (question.options || []).map((_, i) => i)}
+                    answer={typeof answer === 'object' ? answer : {}}
+                    onChange={newAnswer => onAnswerChange(index, newAnswer)}
+                />
+            );
+            break;
+        case 'ordering':
+            answerInput = (
+                <OrderingInput
+                    question={question}
+                    index={index}
+                    displayOrder={optionOrder || (question.options || []).map((_, i) => i)}
+                    answer={typeof answer === 'string' ? answer : ''}
+                    onChange={newAnswer => onAnswerChange(index, newAnswer)}
+                />
+            );
+            break;
+        case 'audio-response':
+            answerInput = <AudioResponseInput question={question} answer={typeof answer === 'string' ? answer : ''} onChange={newAnswer => onAnswerChange(index, newAnswer)} />;
+            break;
+        case 'file-upload':
+            answerInput = <FileUploadInput question={question} testId={testId} answer={typeof answer === 'string' ? answer : ''} onChange={newAnswer => onAnswerChange(index, newAnswer)} />;
+            break;
+        case 'cloze':
+            // The text itself is the answer area: each [[n]] marker becomes an input keyed by blank index.
+            answerInput = (
+                <div className="text-gray-700 leading-loose whitespace-pre-wrap dark:text-slate-300">
+                    {splitClozeText(question.text).map((segment, segmentIndex) => ('blank' in segment ? (
+                        <input
+                            key={segmentIndex}
+                            type="text"
+                            value={(typeof answer === 'object' && answer[segment.blank]) || ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleComprehensionAnswer(segment.blank, e.target.value)}
+                            className="mx-1 w-36 px-2 py-0.5 border-b-2 border-indigo-400 bg-white rounded-t focus:outline-none focus:border-indigo-600 dark:bg-slate-900 dark:text-white"
+                            aria-label={`Blank ${segment.blank + 1}`}
+                            placeholder={`(${segment.blank + 1})`}
+                            autoComplete="off"
+                            spellCheck={false}
+                        />
+                    ) : (
+                        <MathText key={segmentIndex} text={segment.text} html />
+                    )))}
+                </div>
+            );
+            break;
         default:
              answerInput = <p className="dark:text-red-400">Unsupported question type.</p>;
     }
@@ -374,10 +872,12 @@ const QuestionDisplay: React.FC<{ question: Question; index: number; answer: str
     return (
         <div className="bg-gray-50 p-4 rounded-lg border dark:bg-slate-700/50 dark:border-slate-700">
             <div className="flex justify-between items-center mb-2">
-                <h4 className="font-semibold text-gray-800 dark:text-slate-200">Question {index + 1}</h4>
+                <h4 className="font-semibold text-gray-800 dark:text-slate-200">Question {displayNumber}</h4>
                 <span className="text-sm text-gray-600 dark:text-gray-400">[{question.marks > 0 ? `${question.marks} marks` : 'See sub-questions'}]</span>
             </div>
-            <div className="text-gray-700 mb-3 whitespace-pre-wrap dark:text-slate-300" dangerouslySetInnerHTML={{ __html: question.text }} />
+            {question.type === 'cloze'
+                ? <p className="text-sm text-gray-500 mb-3 dark:text-gray-400">Fill in each blank.</p>
+                : <MathText text={question.text} html as="div" className="text-gray-700 mb-3 whitespace-pre-wrap dark:text-slate-300" />}
             
             {(question.media?.image || question.media?.video || question.media?.audio) && (
                 <div className="my-4 p-2 border rounded-lg dark:border-slate-600">